@@ -8,13 +8,14 @@
 import {
   actionGeneric,
   mutationGeneric,
+  paginationOptsValidator,
   queryGeneric,
 } from "convex/server";
 import type {
   Auth,
   HttpRouter,
 } from "convex/server";
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
 import { httpActionGeneric } from "convex/server";
 import type { ComponentApi } from "../component/_generated/component.js";
 import { OKRHUB_VERSION } from "../component/externalId.js";
@@ -101,7 +102,9 @@ interface OKRHubConfig {
 interface ExposeApiOptions {
   /**
    * Optional authentication function
-   * Should verify the user has access to perform the operation
+   * Should verify the user has access to perform the operation.
+   * May return the actor identity recorded in the entity history; by
+   * default the caller's tokenIdentifier from ctx.auth is recorded.
    */
   auth?: (
     ctx: { auth: Auth },
@@ -109,7 +112,7 @@ interface ExposeApiOptions {
       type: "insert" | "update" | "sync";
       entityType: string;
     }
-  ) => Promise<void>;
+  ) => Promise<void | string>;
 
   /**
    * Configuration for LinkHub connection (static object)
@@ -189,6 +192,38 @@ function requireConfig(options?: ExposeApiOptions): OKRHubConfig {
   return config;
 }
 
+/**
+ * Runs the auth hook for a local write and resolves the actor recorded in
+ * the entity history: the hook's return value, else the caller's identity
+ */
+async function authorizeWrite(
+  ctx: { auth: Auth },
+  options: ExposeApiOptions | undefined,
+  operation: { type: "insert" | "update"; entityType: string }
+): Promise<string | undefined> {
+  const actor = options?.auth ? await options.auth(ctx, operation) : undefined;
+  if (typeof actor === "string") {
+    return actor;
+  }
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.tokenIdentifier;
+}
+
+/**
+ * Thrown when a LinkHub call is refused because the circuit breaker is
+ * open. `data.retryAt` is when the call may be tried again. A ConvexError,
+ * so the data reaches callers on the other side of a function call.
+ */
+export class CircuitOpenError extends ConvexError<{
+  code: "CIRCUIT_OPEN";
+  retryAt?: number;
+}> {
+  constructor(retryAt?: number) {
+    super({ code: "CIRCUIT_OPEN", retryAt });
+    this.name = "CircuitOpenError";
+  }
+}
+
 /**
  * Expose the OKRHub component API for use in consumer applications.
  *
@@ -250,6 +285,12 @@ export function exposeApi(
         autoSyncEnabled: v.optional(v.boolean()),
         syncIntervalMs: v.optional(v.number()),
         sourceApp: v.optional(v.string()),
+        retryMaxAttempts: v.optional(v.number()),
+        retryBaseDelayMs: v.optional(v.number()),
+        retryMaxDelayMs: v.optional(v.number()),
+        retryJitterRatio: v.optional(v.number()),
+        circuitFailureThreshold: v.optional(v.number()),
+        circuitCooldownMs: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
         if (options?.auth) {
@@ -276,6 +317,12 @@ export function exposeApi(
           autoSyncEnabled: args.autoSyncEnabled ?? true,
           syncIntervalMs: args.syncIntervalMs ?? 60000,
           sourceApp: args.sourceApp,
+          retryMaxAttempts: args.retryMaxAttempts,
+          retryBaseDelayMs: args.retryBaseDelayMs,
+          retryMaxDelayMs: args.retryMaxDelayMs,
+          retryJitterRatio: args.retryJitterRatio,
+          circuitFailureThreshold: args.circuitFailureThreshold,
+          circuitCooldownMs: args.circuitCooldownMs,
         });
       },
     }),
@@ -301,6 +348,66 @@ export function exposeApi(
       },
     }),
 
+    /**
+     * Pauses sync globally, or only for the given entity types.
+     * Items keep being queued and are sent once sync is resumed.
+     */
+    pauseSync: mutationGeneric({
+      args: {
+        entityTypes: v.optional(v.array(v.string())),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "config" });
+        }
+        return await ctx.runMutation(component.config.pauseSync, args);
+      },
+    }),
+
+    /**
+     * Resumes sync globally, or only for the given entity types
+     */
+    resumeSync: mutationGeneric({
+      args: {
+        entityTypes: v.optional(v.array(v.string())),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "config" });
+        }
+        return await ctx.runMutation(component.config.resumeSync, args);
+      },
+    }),
+
+    /**
+     * Reports whether sync is configured, enabled and paused
+     */
+    getSyncState: queryGeneric({
+      args: {},
+      handler: async (ctx) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "config" });
+        }
+        return await ctx.runQuery(component.config.getSyncState, {});
+      },
+    }),
+
+    /**
+     * Reports the state of the circuit breaker around LinkHub calls
+     */
+    getCircuitState: queryGeneric({
+      args: {},
+      handler: async (ctx) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "config" });
+        }
+        return await ctx.runQuery(
+          component.sync.circuitBreaker.getCircuitState,
+          {}
+        );
+      },
+    }),
+
     // =========================================================================
     // SYNC PROCESSOR
     // =========================================================================
@@ -331,6 +438,59 @@ export function exposeApi(
       },
     }),
 
+    /**
+     * Processes the queue run after run until no due items are left or
+     * the time budget runs out, and returns the totals
+     */
+    drainNow: actionGeneric({
+      args: {
+        batchSize: v.optional(v.number()),
+        timeBudgetMs: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "queue" });
+        }
+
+        const config = resolveConfig(options);
+
+        return await ctx.runAction(component.okrhub.drainNow, {
+          endpointUrl: config?.endpointUrl,
+          apiKeyPrefix: config?.apiKeyPrefix,
+          signingSecret: config?.signingSecret,
+          batchSize: args.batchSize,
+          timeBudgetMs: args.timeBudgetMs,
+        });
+      },
+    }),
+
+    /**
+     * Compares LinkHub's entities with the local tables and reports
+     * entities missing on either side or with diverging fields.
+     * With requeueLocalWinners, local state is queued again for sync.
+     */
+    reconcile: actionGeneric({
+      args: {
+        sourceApp: v.optional(v.string()),
+        entityTypes: v.optional(v.array(v.string())),
+        requeueLocalWinners: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "reconcile" });
+        }
+
+        const config = resolveConfig(options);
+
+        return await ctx.runAction(component.okrhub.reconcile, {
+          endpointUrl: config?.endpointUrl,
+          apiKeyPrefix: config?.apiKeyPrefix,
+          signingSecret: config?.signingSecret,
+          ...args,
+        });
+      },
+    }),
+
     // =========================================================================
     // QUEUE QUERIES
     // =========================================================================
@@ -347,473 +507,1378 @@ export function exposeApi(
       },
     }),
 
+    /**
+     * Gets the LinkHub ID for an externalId (null if never synced).
+     * Use it to deep-link from your app into LinkHub.
+     */
+    getLinkHubId: queryGeneric({
+      args: {
+        externalId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.okrhub.getLinkHubId, args);
+      },
+    }),
+
+    /**
+     * Gets the LinkHub IDs for several externalIds at once
+     */
+    getLinkHubMappings: queryGeneric({
+      args: {
+        externalIds: v.array(v.string()),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.okrhub.getLinkHubMappings, args);
+      },
+    }),
+
     // =========================================================================
-    // LOCAL CRUD OPERATIONS (with sync)
+    // DEAD-LETTER QUEUE
     // =========================================================================
-    
+
     /**
-     * Creates an objective locally and queues for sync to LinkHub
+     * Lists queue items that used up their retries, most recent first.
+     * Includes the original payload and every failed attempt.
      */
-    createObjective: mutationGeneric({
+    listDeadLetters: queryGeneric({
       args: {
-        sourceApp: v.string(),
-        sourceUrl: v.string(),
-        externalId: v.optional(v.string()),
-        title: v.string(),
-        description: v.string(),
-        teamExternalId: v.string(),
-        metadata: v.optional(v.any()),
+        entityType: v.optional(v.string()),
+        limit: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
         if (options?.auth) {
-          await options.auth(ctx, { type: "insert", entityType: "objective" });
+          await options.auth(ctx, { type: "sync", entityType: "deadLetter" });
         }
-        const result = await ctx.runMutation(component.okrhub.createObjective, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.listDeadLetters, args);
       },
     }),
 
     /**
-     * Creates a key result locally and queues for sync to LinkHub
-     * Note: weight is always 0, managed only by LinkHub
+     * Puts a single dead letter back into the sync queue
      */
-    createKeyResult: mutationGeneric({
+    replayDeadLetter: mutationGeneric({
       args: {
-        sourceApp: v.string(),
-        sourceUrl: v.string(),
-        externalId: v.optional(v.string()),
-        objectiveExternalId: v.string(), // Required
-        indicatorExternalId: v.string(),
-        teamExternalId: v.string(),
-        forecastValue: v.optional(v.number()),
-        targetValue: v.optional(v.number()),
-        metadata: v.optional(v.any()),
+        id: v.string(),
       },
       handler: async (ctx, args) => {
         if (options?.auth) {
-          await options.auth(ctx, { type: "insert", entityType: "keyResult" });
+          await options.auth(ctx, { type: "sync", entityType: "deadLetter" });
         }
-        const result = await ctx.runMutation(component.okrhub.createKeyResult, args);
-        return result;
+        return await ctx.runMutation(component.okrhub.replayDeadLetter, args);
       },
     }),
 
     /**
-     * Creates a risk locally and queues for sync to LinkHub
+     * Replays dead letters for one entityType, or all of them when omitted.
+     * Call again while `hasMore` is true.
      */
-    createRisk: mutationGeneric({
+    replayDeadLetters: mutationGeneric({
       args: {
-        sourceApp: v.string(),
-        sourceUrl: v.string(),
-        externalId: v.optional(v.string()),
-        description: v.string(),
-        teamExternalId: v.string(),
-        keyResultExternalId: v.string(), // Required
-        priority: v.union(
-          v.literal("lowest"),
-          v.literal("low"),
-          v.literal("medium"),
-          v.literal("high"),
-          v.literal("highest")
-        ),
-        indicatorExternalId: v.optional(v.string()),
-        triggerValue: v.optional(v.number()),
-        triggeredIfLower: v.optional(v.boolean()),
-        useForecastAsTrigger: v.optional(v.boolean()),
-        isRed: v.optional(v.boolean()),
-        metadata: v.optional(v.any()),
+        entityType: v.optional(v.string()),
+        limit: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
         if (options?.auth) {
-          await options.auth(ctx, { type: "insert", entityType: "risk" });
+          await options.auth(ctx, { type: "sync", entityType: "deadLetter" });
         }
-        const result = await ctx.runMutation(component.okrhub.createRisk, args);
-        return result;
+        return await ctx.runMutation(component.okrhub.replayDeadLetters, args);
       },
     }),
 
     /**
-     * Creates an initiative locally and queues for sync to LinkHub
-     * Note: relativeImpact, overallImpact, isNew are set by LinkHub
+     * Permanently deletes a single dead letter
      */
-    createInitiative: mutationGeneric({
+    purgeDeadLetter: mutationGeneric({
       args: {
-        sourceApp: v.string(),
-        sourceUrl: v.string(),
-        externalId: v.optional(v.string()),
-        description: v.string(),
-        teamExternalId: v.string(),
-        riskExternalId: v.string(), // Required
-        assigneeExternalId: v.string(),
-        createdByExternalId: v.string(),
-        status: v.optional( // Optional in input, default ON_TIME in backend
-          v.union(
-            v.literal("ON_TIME"),
-            v.literal("OVERDUE"),
-            v.literal("FINISHED")
-          )
-        ),
-        priority: v.union(
-          v.literal("lowest"),
-          v.literal("low"),
-          v.literal("medium"),
-          v.literal("high"),
-          v.literal("highest")
-        ),
-        finishedAt: v.optional(v.number()),
-        metadata: v.optional(v.any()),
+        id: v.string(),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "deadLetter" });
+        }
+        return await ctx.runMutation(component.okrhub.purgeDeadLetter, args);
+      },
+    }),
+
+    /**
+     * Permanently deletes dead letters for one entityType, or all of them.
+     * Call again while `hasMore` is true.
+     */
+    purgeDeadLetters: mutationGeneric({
+      args: {
+        entityType: v.optional(v.string()),
+        olderThan: v.optional(v.number()),
+        limit: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "deadLetter" });
+        }
+        return await ctx.runMutation(component.okrhub.purgeDeadLetters, args);
+      },
+    }),
+
+    // =========================================================================
+    // FAILED SYNC ITEMS
+    // =========================================================================
+
+    /**
+     * Lists queue items LinkHub rejected as invalid, most recent first,
+     * with LinkHub's error code and field errors in `lastError`
+     */
+    listFailedSyncItems: queryGeneric({
+      args: {
+        entityType: v.optional(v.string()),
+        limit: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "failedSyncItem" });
+        }
+        return await ctx.runQuery(component.okrhub.listFailedSyncItems, args);
+      },
+    }),
+
+    /**
+     * Queues a single failed item again, once its data is fixed
+     */
+    replayFailedSyncItem: mutationGeneric({
+      args: {
+        id: v.string(),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "failedSyncItem" });
+        }
+        return await ctx.runMutation(component.okrhub.replayFailedSyncItem, args);
+      },
+    }),
+
+    /**
+     * Queues failed items again for one entityType, or all of them when
+     * omitted. Call again while `hasMore` is true.
+     */
+    replayFailedSyncItems: mutationGeneric({
+      args: {
+        entityType: v.optional(v.string()),
+        limit: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "failedSyncItem" });
+        }
+        return await ctx.runMutation(component.okrhub.replayFailedSyncItems, args);
+      },
+    }),
+
+    /**
+     * Permanently deletes a single failed item
+     */
+    discardFailedSyncItem: mutationGeneric({
+      args: {
+        id: v.string(),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "failedSyncItem" });
+        }
+        return await ctx.runMutation(component.okrhub.discardFailedSyncItem, args);
+      },
+    }),
+
+    /**
+     * Permanently deletes failed items for one entityType, or all of them.
+     * Call again while `hasMore` is true.
+     */
+    discardFailedSyncItems: mutationGeneric({
+      args: {
+        entityType: v.optional(v.string()),
+        limit: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "failedSyncItem" });
+        }
+        return await ctx.runMutation(component.okrhub.discardFailedSyncItems, args);
+      },
+    }),
+
+    // =========================================================================
+    // SYNC CONFLICTS
+    // =========================================================================
+
+    /**
+     * Lists writes LinkHub rejected as stale, most recent first.
+     * Each conflict carries the local and the remote version.
+     */
+    listSyncConflicts: queryGeneric({
+      args: {
+        entityType: v.optional(v.string()),
+        limit: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "conflict" });
+        }
+        return await ctx.runQuery(component.okrhub.listSyncConflicts, args);
+      },
+    }),
+
+    /**
+     * Resolves a conflict by sending the local version again
+     */
+    resolveConflictKeepLocal: mutationGeneric({
+      args: {
+        id: v.string(),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "conflict" });
+        }
+        return await ctx.runMutation(
+          component.okrhub.resolveConflictKeepLocal,
+          args
+        );
+      },
+    }),
+
+    /**
+     * Resolves a conflict by copying LinkHub's version onto the local entity
+     */
+    resolveConflictTakeRemote: mutationGeneric({
+      args: {
+        id: v.string(),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "conflict" });
+        }
+        return await ctx.runMutation(
+          component.okrhub.resolveConflictTakeRemote,
+          args
+        );
+      },
+    }),
+
+    /**
+     * Resolves a conflict by taking `remoteFields` from LinkHub's version,
+     * keeping the other fields local, and sending the result
+     */
+    resolveConflictMerge: mutationGeneric({
+      args: {
+        id: v.string(),
+        remoteFields: v.array(v.string()),
+      },
+      handler: async (ctx, args) => {
+        if (options?.auth) {
+          await options.auth(ctx, { type: "sync", entityType: "conflict" });
+        }
+        return await ctx.runMutation(
+          component.okrhub.resolveConflictMerge,
+          args
+        );
+      },
+    }),
+
+    // =========================================================================
+    // LOCAL CRUD OPERATIONS (with sync)
+    // =========================================================================
+    
+    /**
+     * Creates an objective locally and queues for sync to LinkHub
+     */
+    createObjective: mutationGeneric({
+      args: {
+        sourceApp: v.string(),
+        sourceUrl: v.string(),
+        externalId: v.optional(v.string()),
+        title: v.string(),
+        description: v.string(),
+        teamExternalId: v.string(),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "insert",
+          entityType: "objective",
+        });
+        const result = await ctx.runMutation(component.okrhub.createObjective, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Creates a key result locally and queues for sync to LinkHub
+     * Note: weight is always 0, managed only by LinkHub
+     */
+    createKeyResult: mutationGeneric({
+      args: {
+        sourceApp: v.string(),
+        sourceUrl: v.string(),
+        externalId: v.optional(v.string()),
+        objectiveExternalId: v.string(), // Required
+        indicatorExternalId: v.string(),
+        teamExternalId: v.string(),
+        forecastValue: v.optional(v.number()),
+        targetValue: v.optional(v.number()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "insert",
+          entityType: "keyResult",
+        });
+        const result = await ctx.runMutation(component.okrhub.createKeyResult, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Creates a risk locally and queues for sync to LinkHub
+     */
+    createRisk: mutationGeneric({
+      args: {
+        sourceApp: v.string(),
+        sourceUrl: v.string(),
+        externalId: v.optional(v.string()),
+        description: v.string(),
+        teamExternalId: v.string(),
+        keyResultExternalId: v.string(), // Required
+        priority: v.union(
+          v.literal("lowest"),
+          v.literal("low"),
+          v.literal("medium"),
+          v.literal("high"),
+          v.literal("highest")
+        ),
+        indicatorExternalId: v.optional(v.string()),
+        triggerValue: v.optional(v.number()),
+        triggeredIfLower: v.optional(v.boolean()),
+        useForecastAsTrigger: v.optional(v.boolean()),
+        isRed: v.optional(v.boolean()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "insert",
+          entityType: "risk",
+        });
+        const result = await ctx.runMutation(component.okrhub.createRisk, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Creates an initiative locally and queues for sync to LinkHub
+     * Note: relativeImpact, overallImpact, isNew are set by LinkHub
+     */
+    createInitiative: mutationGeneric({
+      args: {
+        sourceApp: v.string(),
+        sourceUrl: v.string(),
+        externalId: v.optional(v.string()),
+        description: v.string(),
+        teamExternalId: v.string(),
+        riskExternalId: v.string(), // Required
+        assigneeExternalId: v.string(),
+        createdByExternalId: v.string(),
+        status: v.optional( // Optional in input, default ON_TIME in backend
+          v.union(
+            v.literal("ON_TIME"),
+            v.literal("OVERDUE"),
+            v.literal("FINISHED")
+          )
+        ),
+        priority: v.union(
+          v.literal("lowest"),
+          v.literal("low"),
+          v.literal("medium"),
+          v.literal("high"),
+          v.literal("highest")
+        ),
+        finishedAt: v.optional(v.number()),
+        dueDate: v.optional(v.number()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "insert",
+          entityType: "initiative",
+        });
+        const result = await ctx.runMutation(component.okrhub.createInitiative, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Creates an indicator locally and queues for sync to LinkHub
+     */
+    createIndicator: mutationGeneric({
+      args: {
+        sourceApp: v.string(),
+        sourceUrl: v.string(),
+        externalId: v.optional(v.string()),
+        companyExternalId: v.string(),
+        description: v.string(),
+        symbol: v.string(),
+        periodicity: v.union(
+          v.literal("weekly"),
+          v.literal("monthly"),
+          v.literal("quarterly"),
+          v.literal("semesterly"),
+          v.literal("yearly")
+        ),
+        isReverse: v.optional(v.boolean()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "insert",
+          entityType: "indicator",
+        });
+        const result = await ctx.runMutation(component.okrhub.createIndicator, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Creates an indicator value locally and queues for sync to LinkHub
+     */
+    createIndicatorValue: mutationGeneric({
+      args: {
+        sourceApp: v.string(),
+        sourceUrl: v.string(),
+        externalId: v.optional(v.string()),
+        indicatorExternalId: v.string(),
+        value: v.number(),
+        date: v.number(),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "insert",
+          entityType: "indicatorValue",
+        });
+        const result = await ctx.runMutation(component.okrhub.createIndicatorValue, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Creates an indicator forecast locally and queues for sync to LinkHub
+     */
+    createIndicatorForecast: mutationGeneric({
+      args: {
+        sourceApp: v.string(),
+        sourceUrl: v.string(),
+        externalId: v.optional(v.string()),
+        indicatorExternalId: v.string(),
+        value: v.number(),
+        date: v.number(),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "insert",
+          entityType: "indicatorForecast",
+        });
+        const result = await ctx.runMutation(component.okrhub.createIndicatorForecast, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Creates a milestone locally and queues for sync to LinkHub
+     */
+    createMilestone: mutationGeneric({
+      args: {
+        sourceApp: v.string(),
+        sourceUrl: v.string(),
+        externalId: v.optional(v.string()),
+        indicatorExternalId: v.string(),
+        description: v.string(),
+        value: v.number(),
+        forecastDate: v.optional(v.number()),
+        status: v.optional(
+          v.union(
+            v.literal("ON_TIME"),
+            v.literal("OVERDUE"),
+            v.literal("ACHIEVED_ON_TIME"),
+            v.literal("ACHIEVED_LATE")
+          )
+        ),
+        achievedAt: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "insert",
+          entityType: "milestone",
+        });
+        const result = await ctx.runMutation(component.okrhub.createMilestone, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    // =========================================================================
+    // LOCAL UPDATE OPERATIONS (with sync reset)
+    // =========================================================================
+
+    /**
+     * Soft-deletes an objective and queues the delete for LinkHub
+     */
+    deleteObjective: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        mode: v.optional(
+          v.union(
+            v.literal("cascade"),
+            v.literal("restrict"),
+            v.literal("orphan")
+          )
+        ),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "objective",
+        });
+        return await ctx.runMutation(component.okrhub.deleteObjective, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Restores a soft-deleted objective and queues the restore for LinkHub
+     */
+    restoreObjective: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        restoreChildren: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "objective",
+        });
+        return await ctx.runMutation(component.okrhub.restoreObjective, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Updates an objective locally and resets syncStatus to pending
+     */
+    updateObjective: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        title: v.optional(v.string()),
+        description: v.optional(v.string()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "objective",
+        });
+        const result = await ctx.runMutation(component.okrhub.updateObjective, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Soft-deletes a key result and queues the delete for LinkHub
+     */
+    deleteKeyResult: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        mode: v.optional(
+          v.union(
+            v.literal("cascade"),
+            v.literal("restrict"),
+            v.literal("orphan")
+          )
+        ),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "keyResult",
+        });
+        return await ctx.runMutation(component.okrhub.deleteKeyResult, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Restores a soft-deleted key result and queues the restore for LinkHub
+     */
+    restoreKeyResult: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        restoreChildren: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "keyResult",
+        });
+        return await ctx.runMutation(component.okrhub.restoreKeyResult, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Updates a key result locally and resets syncStatus to pending
+     */
+    updateKeyResult: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        objectiveExternalId: v.optional(v.string()),
+        forecastValue: v.optional(v.number()),
+        targetValue: v.optional(v.number()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "keyResult",
+        });
+        const result = await ctx.runMutation(component.okrhub.updateKeyResult, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Soft-deletes a risk and queues the delete for LinkHub
+     */
+    deleteRisk: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        mode: v.optional(
+          v.union(
+            v.literal("cascade"),
+            v.literal("restrict"),
+            v.literal("orphan")
+          )
+        ),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "risk",
+        });
+        return await ctx.runMutation(component.okrhub.deleteRisk, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Restores a soft-deleted risk and queues the restore for LinkHub
+     */
+    restoreRisk: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        restoreChildren: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "risk",
+        });
+        return await ctx.runMutation(component.okrhub.restoreRisk, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Updates a risk locally and resets syncStatus to pending
+     */
+    updateRisk: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        description: v.optional(v.string()),
+        priority: v.optional(
+          v.union(
+            v.literal("lowest"),
+            v.literal("low"),
+            v.literal("medium"),
+            v.literal("high"),
+            v.literal("highest")
+          )
+        ),
+        keyResultExternalId: v.optional(v.string()),
+        indicatorExternalId: v.optional(v.string()),
+        triggerValue: v.optional(v.number()),
+        triggeredIfLower: v.optional(v.boolean()),
+        useForecastAsTrigger: v.optional(v.boolean()),
+        isRed: v.optional(v.boolean()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "risk",
+        });
+        const result = await ctx.runMutation(component.okrhub.updateRisk, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Soft-deletes an initiative and queues the delete for LinkHub
+     */
+    deleteInitiative: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        mode: v.optional(
+          v.union(
+            v.literal("cascade"),
+            v.literal("restrict"),
+            v.literal("orphan")
+          )
+        ),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "initiative",
+        });
+        return await ctx.runMutation(component.okrhub.deleteInitiative, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Restores a soft-deleted initiative and queues the restore for LinkHub
+     */
+    restoreInitiative: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        restoreChildren: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "initiative",
+        });
+        return await ctx.runMutation(component.okrhub.restoreInitiative, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Updates an initiative locally and resets syncStatus to pending
+     */
+    updateInitiative: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        description: v.optional(v.string()),
+        riskExternalId: v.optional(v.string()),
+        assigneeExternalId: v.optional(v.string()),
+        status: v.optional(
+          v.union(
+            v.literal("ON_TIME"),
+            v.literal("OVERDUE"),
+            v.literal("FINISHED")
+          )
+        ),
+        priority: v.optional(
+          v.union(
+            v.literal("lowest"),
+            v.literal("low"),
+            v.literal("medium"),
+            v.literal("high"),
+            v.literal("highest")
+          )
+        ),
+        finishedAt: v.optional(v.number()),
+        dueDate: v.optional(v.number()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "initiative",
+        });
+        const result = await ctx.runMutation(component.okrhub.updateInitiative, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Soft-deletes an indicator and queues the delete for LinkHub
+     */
+    deleteIndicator: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        mode: v.optional(
+          v.union(
+            v.literal("cascade"),
+            v.literal("restrict"),
+            v.literal("orphan")
+          )
+        ),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicator",
+        });
+        return await ctx.runMutation(component.okrhub.deleteIndicator, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Restores a soft-deleted indicator and queues the restore for LinkHub
+     */
+    restoreIndicator: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        restoreChildren: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicator",
+        });
+        return await ctx.runMutation(component.okrhub.restoreIndicator, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Updates an indicator locally and resets syncStatus to pending
+     */
+    updateIndicator: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        description: v.optional(v.string()),
+        symbol: v.optional(v.string()),
+        periodicity: v.optional(
+          v.union(
+            v.literal("weekly"),
+            v.literal("monthly"),
+            v.literal("quarterly"),
+            v.literal("semesterly"),
+            v.literal("yearly")
+          )
+        ),
+        isReverse: v.optional(v.boolean()),
+        metadata: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicator",
+        });
+        const result = await ctx.runMutation(component.okrhub.updateIndicator, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Soft-deletes an indicator value and queues the delete for LinkHub
+     */
+    deleteIndicatorValue: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        mode: v.optional(
+          v.union(
+            v.literal("cascade"),
+            v.literal("restrict"),
+            v.literal("orphan")
+          )
+        ),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicatorValue",
+        });
+        return await ctx.runMutation(component.okrhub.deleteIndicatorValue, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Restores a soft-deleted indicator value and queues the restore for LinkHub
+     */
+    restoreIndicatorValue: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        restoreChildren: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicatorValue",
+        });
+        return await ctx.runMutation(component.okrhub.restoreIndicatorValue, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Updates an indicator value locally and resets syncStatus to pending
+     */
+    updateIndicatorValue: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        value: v.optional(v.number()),
+        date: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicatorValue",
+        });
+        const result = await ctx.runMutation(component.okrhub.updateIndicatorValue, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Soft-deletes an indicator forecast and queues the delete for LinkHub
+     */
+    deleteIndicatorForecast: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        mode: v.optional(
+          v.union(
+            v.literal("cascade"),
+            v.literal("restrict"),
+            v.literal("orphan")
+          )
+        ),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicatorForecast",
+        });
+        return await ctx.runMutation(component.okrhub.deleteIndicatorForecast, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Restores a soft-deleted indicator forecast and queues the restore for LinkHub
+     */
+    restoreIndicatorForecast: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        restoreChildren: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicatorForecast",
+        });
+        return await ctx.runMutation(component.okrhub.restoreIndicatorForecast, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Updates an indicator forecast locally and resets syncStatus to pending
+     */
+    updateIndicatorForecast: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        value: v.optional(v.number()),
+        date: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "indicatorForecast",
+        });
+        const result = await ctx.runMutation(component.okrhub.updateIndicatorForecast, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    /**
+     * Soft-deletes a milestone and queues the delete for LinkHub
+     */
+    deleteMilestone: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        mode: v.optional(
+          v.union(
+            v.literal("cascade"),
+            v.literal("restrict"),
+            v.literal("orphan")
+          )
+        ),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "milestone",
+        });
+        return await ctx.runMutation(component.okrhub.deleteMilestone, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Restores a soft-deleted milestone and queues the restore for LinkHub
+     */
+    restoreMilestone: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        restoreChildren: v.optional(v.boolean()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "milestone",
+        });
+        return await ctx.runMutation(component.okrhub.restoreMilestone, {
+          ...args,
+          actor,
+        });
+      },
+    }),
+
+    /**
+     * Updates a milestone locally and resets syncStatus to pending
+     */
+    updateMilestone: mutationGeneric({
+      args: {
+        externalId: v.string(),
+        sourceUrl: v.optional(v.string()),
+        description: v.optional(v.string()),
+        value: v.optional(v.number()),
+        forecastDate: v.optional(v.number()),
+        status: v.optional(
+          v.union(
+            v.literal("ON_TIME"),
+            v.literal("OVERDUE"),
+            v.literal("ACHIEVED_ON_TIME"),
+            v.literal("ACHIEVED_LATE")
+          )
+        ),
+        achievedAt: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        const actor = await authorizeWrite(ctx, options, {
+          type: "update",
+          entityType: "milestone",
+        });
+        const result = await ctx.runMutation(component.okrhub.updateMilestone, {
+          ...args,
+          actor,
+        });
+        return result;
+      },
+    }),
+
+    // =========================================================================
+    // LOCAL QUERY OPERATIONS
+    // =========================================================================
+
+    /**
+     * Pages through local objectives, excluding deleted ones
+     */
+    getAllObjectivesPaginated: queryGeneric({
+      args: {
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "insert", entityType: "initiative" });
-        }
-        const result = await ctx.runMutation(component.okrhub.createInitiative, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getAllObjectivesPaginated, args);
       },
     }),
 
     /**
-     * Creates an indicator locally and queues for sync to LinkHub
+     * Pages through local key results, excluding deleted ones
      */
-    createIndicator: mutationGeneric({
+    getAllKeyResultsPaginated: queryGeneric({
       args: {
-        sourceApp: v.string(),
-        sourceUrl: v.string(),
-        externalId: v.optional(v.string()),
-        companyExternalId: v.string(),
-        description: v.string(),
-        symbol: v.string(),
-        periodicity: v.union(
-          v.literal("weekly"),
-          v.literal("monthly"),
-          v.literal("quarterly"),
-          v.literal("semesterly"),
-          v.literal("yearly")
-        ),
-        isReverse: v.optional(v.boolean()),
-        metadata: v.optional(v.any()),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "insert", entityType: "indicator" });
-        }
-        const result = await ctx.runMutation(component.okrhub.createIndicator, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getAllKeyResultsPaginated, args);
       },
     }),
 
     /**
-     * Creates an indicator value locally and queues for sync to LinkHub
+     * Pages through local risks, excluding deleted ones
      */
-    createIndicatorValue: mutationGeneric({
+    getAllRisksPaginated: queryGeneric({
       args: {
-        sourceApp: v.string(),
-        sourceUrl: v.string(),
-        externalId: v.optional(v.string()),
-        indicatorExternalId: v.string(),
-        value: v.number(),
-        date: v.number(),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "insert", entityType: "indicatorValue" });
-        }
-        const result = await ctx.runMutation(component.okrhub.createIndicatorValue, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getAllRisksPaginated, args);
       },
     }),
 
     /**
-     * Creates an indicator forecast locally and queues for sync to LinkHub
+     * Pages through local initiatives, excluding deleted ones
      */
-    createIndicatorForecast: mutationGeneric({
+    getAllInitiativesPaginated: queryGeneric({
       args: {
-        sourceApp: v.string(),
-        sourceUrl: v.string(),
-        externalId: v.optional(v.string()),
-        indicatorExternalId: v.string(),
-        value: v.number(),
-        date: v.number(),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "insert", entityType: "indicatorForecast" });
-        }
-        const result = await ctx.runMutation(component.okrhub.createIndicatorForecast, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getAllInitiativesPaginated, args);
       },
     }),
 
     /**
-     * Creates a milestone locally and queues for sync to LinkHub
+     * Pages through local indicators, excluding deleted ones
      */
-    createMilestone: mutationGeneric({
+    getAllIndicatorsPaginated: queryGeneric({
       args: {
-        sourceApp: v.string(),
-        sourceUrl: v.string(),
-        externalId: v.optional(v.string()),
-        indicatorExternalId: v.string(),
-        description: v.string(),
-        value: v.number(),
-        forecastDate: v.optional(v.number()),
-        status: v.optional(
-          v.union(
-            v.literal("ON_TIME"),
-            v.literal("OVERDUE"),
-            v.literal("ACHIEVED_ON_TIME"),
-            v.literal("ACHIEVED_LATE")
-          )
-        ),
-        achievedAt: v.optional(v.number()),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "insert", entityType: "milestone" });
-        }
-        const result = await ctx.runMutation(component.okrhub.createMilestone, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getAllIndicatorsPaginated, args);
       },
     }),
 
-    // =========================================================================
-    // LOCAL UPDATE OPERATIONS (with sync reset)
-    // =========================================================================
-
     /**
-     * Updates an objective locally and resets syncStatus to pending
+     * Pages through local indicator values, excluding deleted ones
      */
-    updateObjective: mutationGeneric({
+    getAllIndicatorValuesPaginated: queryGeneric({
       args: {
-        externalId: v.string(),
-        title: v.optional(v.string()),
-        description: v.optional(v.string()),
-        metadata: v.optional(v.any()),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "objective" });
-        }
-        const result = await ctx.runMutation(component.okrhub.updateObjective, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getAllIndicatorValuesPaginated, args);
       },
     }),
 
     /**
-     * Updates a key result locally and resets syncStatus to pending
+     * Pages through local indicator forecasts, excluding deleted ones
      */
-    updateKeyResult: mutationGeneric({
+    getAllIndicatorForecastsPaginated: queryGeneric({
       args: {
-        externalId: v.string(),
-        objectiveExternalId: v.optional(v.string()),
-        forecastValue: v.optional(v.number()),
-        targetValue: v.optional(v.number()),
-        metadata: v.optional(v.any()),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "keyResult" });
-        }
-        const result = await ctx.runMutation(component.okrhub.updateKeyResult, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getAllIndicatorForecastsPaginated, args);
       },
     }),
 
     /**
-     * Soft-deletes a risk by setting deletedAt
+     * Pages through local milestones, excluding deleted ones
      */
-    deleteRisk: mutationGeneric({
+    getAllMilestonesPaginated: queryGeneric({
       args: {
-        externalId: v.string(),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "risk" });
-        }
-        return await ctx.runMutation(component.okrhub.deleteRisk, args);
+        return await ctx.runQuery(component.okrhub.getAllMilestonesPaginated, args);
       },
     }),
 
     /**
-     * Updates a risk locally and resets syncStatus to pending
+     * Pages through the change history of one entity, most recent first
      */
-    updateRisk: mutationGeneric({
+    getEntityHistory: queryGeneric({
       args: {
         externalId: v.string(),
-        description: v.optional(v.string()),
-        priority: v.optional(
-          v.union(
-            v.literal("lowest"),
-            v.literal("low"),
-            v.literal("medium"),
-            v.literal("high"),
-            v.literal("highest")
-          )
-        ),
-        keyResultExternalId: v.optional(v.string()),
-        indicatorExternalId: v.optional(v.string()),
-        triggerValue: v.optional(v.number()),
-        triggeredIfLower: v.optional(v.boolean()),
-        useForecastAsTrigger: v.optional(v.boolean()),
-        isRed: v.optional(v.boolean()),
-        metadata: v.optional(v.any()),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "risk" });
-        }
-        const result = await ctx.runMutation(component.okrhub.updateRisk, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getEntityHistory, args);
       },
     }),
 
     /**
-     * Soft-deletes an initiative by setting deletedAt
+     * Pages through the change history of a team's entities, most recent first
      */
-    deleteInitiative: mutationGeneric({
+    getTeamHistory: queryGeneric({
       args: {
-        externalId: v.string(),
+        teamExternalId: v.string(),
+        paginationOpts: paginationOptsValidator,
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "initiative" });
-        }
-        return await ctx.runMutation(component.okrhub.deleteInitiative, args);
+        return await ctx.runQuery(component.okrhub.getTeamHistory, args);
       },
     }),
 
     /**
-     * Updates an initiative locally and resets syncStatus to pending
+     * Gets a key result's progress towards its target
      */
-    updateInitiative: mutationGeneric({
+    getKeyResultProgress: queryGeneric({
       args: {
         externalId: v.string(),
-        description: v.optional(v.string()),
-        riskExternalId: v.optional(v.string()),
-        assigneeExternalId: v.optional(v.string()),
-        status: v.optional(
-          v.union(
-            v.literal("ON_TIME"),
-            v.literal("OVERDUE"),
-            v.literal("FINISHED")
-          )
-        ),
-        priority: v.optional(
-          v.union(
-            v.literal("lowest"),
-            v.literal("low"),
-            v.literal("medium"),
-            v.literal("high"),
-            v.literal("highest")
-          )
-        ),
-        finishedAt: v.optional(v.number()),
-        metadata: v.optional(v.any()),
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "initiative" });
-        }
-        const result = await ctx.runMutation(component.okrhub.updateInitiative, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getKeyResultProgress, args);
       },
     }),
 
     /**
-     * Updates an indicator locally and resets syncStatus to pending
+     * Gets an objective's progress, weighted over its key results
      */
-    updateIndicator: mutationGeneric({
+    getObjectiveProgress: queryGeneric({
       args: {
         externalId: v.string(),
-        description: v.optional(v.string()),
-        symbol: v.optional(v.string()),
-        periodicity: v.optional(
-          v.union(
-            v.literal("weekly"),
-            v.literal("monthly"),
-            v.literal("quarterly"),
-            v.literal("semesterly"),
-            v.literal("yearly")
-          )
-        ),
-        isReverse: v.optional(v.boolean()),
-        metadata: v.optional(v.any()),
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "indicator" });
-        }
-        const result = await ctx.runMutation(component.okrhub.updateIndicator, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getObjectiveProgress, args);
       },
     }),
 
     /**
-     * Updates an indicator value locally and resets syncStatus to pending
+     * Lists the times a risk turned red or back, most recent first
      */
-    updateIndicatorValue: mutationGeneric({
+    getRiskTriggerEvents: queryGeneric({
       args: {
-        externalId: v.string(),
-        value: v.optional(v.number()),
-        date: v.optional(v.number()),
+        riskExternalId: v.string(),
+        limit: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "indicatorValue" });
-        }
-        const result = await ctx.runMutation(component.okrhub.updateIndicatorValue, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getRiskTriggerEvents, args);
       },
     }),
 
     /**
-     * Updates an indicator forecast locally and resets syncStatus to pending
+     * Returns a team's objectives, key results, indicators, risks and
+     * initiatives as one tree
      */
-    updateIndicatorForecast: mutationGeneric({
+    getOkrTree: queryGeneric({
       args: {
-        externalId: v.string(),
-        value: v.optional(v.number()),
-        date: v.optional(v.number()),
+        teamExternalId: v.string(),
+        depth: v.optional(v.number()),
+        fields: v.optional(v.record(v.string(), v.array(v.string()))),
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "indicatorForecast" });
-        }
-        const result = await ctx.runMutation(component.okrhub.updateIndicatorForecast, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.getOkrTree, args);
       },
     }),
 
     /**
-     * Updates a milestone locally and resets syncStatus to pending
+     * Searches objectives, risks, initiatives and milestones by title and
+     * description, best matches first
      */
-    updateMilestone: mutationGeneric({
+    searchOkr: queryGeneric({
       args: {
-        externalId: v.string(),
-        description: v.optional(v.string()),
-        value: v.optional(v.number()),
-        forecastDate: v.optional(v.number()),
-        status: v.optional(
-          v.union(
-            v.literal("ON_TIME"),
-            v.literal("OVERDUE"),
-            v.literal("ACHIEVED_ON_TIME"),
-            v.literal("ACHIEVED_LATE")
-          )
-        ),
-        achievedAt: v.optional(v.number()),
+        query: v.string(),
+        teamExternalId: v.optional(v.string()),
+        includeDeleted: v.optional(v.boolean()),
+        limit: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
-        if (options?.auth) {
-          await options.auth(ctx, { type: "update", entityType: "milestone" });
-        }
-        const result = await ctx.runMutation(component.okrhub.updateMilestone, args);
-        return result;
+        return await ctx.runQuery(component.okrhub.searchOkr, args);
       },
     }),
 
-    // =========================================================================
-    // LOCAL QUERY OPERATIONS
-    // =========================================================================
+    /**
+     * Pages through active entities whose parent is missing or deleted
+     * locally, across every child type or for one `entityType`
+     */
+    getOrphanedEntities: queryGeneric({
+      args: {
+        entityType: v.optional(v.string()),
+        paginationOpts: paginationOptsValidator,
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.okrhub.getOrphanedEntities, args);
+      },
+    }),
 
     /**
      * Gets a single objective by externalId
@@ -947,6 +2012,30 @@ export function exposeApi(
       },
     }),
 
+    /**
+     * Gets a team's overdue initiatives, earliest due date first
+     */
+    getOverdueInitiativesByTeam: queryGeneric({
+      args: {
+        teamExternalId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.okrhub.getOverdueInitiativesByTeam, args);
+      },
+    }),
+
+    /**
+     * Gets an assignee's overdue initiatives, earliest due date first
+     */
+    getOverdueInitiativesByAssignee: queryGeneric({
+      args: {
+        assigneeExternalId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.okrhub.getOverdueInitiativesByAssignee, args);
+      },
+    }),
+
     // =========================================================================
     // LINKHUB API CALLS
     // =========================================================================
@@ -956,6 +2045,7 @@ export function exposeApi(
      * 
      * @param email - User email address
      * @returns List of teams with their IDs, names, and external IDs if available
+     * @throws CircuitOpenError while the circuit breaker refuses LinkHub calls
      */
     getMyTeams: actionGeneric({
       args: {
@@ -964,52 +2054,24 @@ export function exposeApi(
       handler: async (ctx, args) => {
         const config = requireConfig(options);
 
-        // Create signature payload (query string without leading ?)
-        const queryString = `email=${encodeURIComponent(args.email)}`;
-        
-        // Create HMAC signature
-        const encoder = new TextEncoder();
-        const keyData = encoder.encode(config.signingSecret);
-        const messageData = encoder.encode(queryString);
-
-        const cryptoKey = await crypto.subtle.importKey(
-          "raw",
-          keyData,
-          { name: "HMAC", hash: "SHA-256" },
-          false,
-          ["sign"]
-        );
-
-        const signatureBuffer = await crypto.subtle.sign("HMAC", cryptoKey, messageData);
-        const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-        const signature = signatureArray.map((b) => b.toString(16).padStart(2, "0")).join("");
-
-        // Make request to LinkHub
-        const url = `${config.endpointUrl}/api/okrhub/teams?${queryString}`;
-        const response = await fetch(url, {
-          method: "GET",
-          headers: {
-            "X-OKRHub-Version": OKRHUB_VERSION,
-            "X-OKRHub-Key-Prefix": config.apiKeyPrefix,
-            "X-OKRHub-Signature": signature,
-          },
+        // The component refuses the call without a request while LinkHub is down
+        const result = await ctx.runAction(component.sync.http.getMyTeams, {
+          endpointUrl: config.endpointUrl,
+          apiKeyPrefix: config.apiKeyPrefix,
+          signingSecret: config.signingSecret,
+          email: args.email,
         });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Failed to get teams: ${response.status} ${errorText}`);
+        if (result.circuitOpen) {
+          throw new CircuitOpenError(result.retryAt);
+        }
+        if (result.httpStatus !== undefined) {
+          throw new Error(`Failed to get teams: ${result.httpStatus} ${result.error}`);
         }
 
-        return await response.json() as {
-          success: boolean;
-          teams: Array<{
-            id: string;
-            externalId?: string;
-            name: string;
-            slug: string;
-            type: string;
-          }>;
-          message?: string;
+        return {
+          success: result.success,
+          teams: result.teams,
+          message: result.message,
         };
       },
     }),
@@ -1042,6 +2104,11 @@ export function registerRoutes(
      * API key for validating incoming requests
      */
     apiKey?: string;
+    /**
+     * Secret used to verify webhook signatures from LinkHub.
+     * Defaults to the signingSecret stored via configure().
+     */
+    signingSecret?: string;
   } = {}
 ) {
   const { pathPrefix = "/okrhub" } = options;
@@ -1084,5 +2151,43 @@ export function registerRoutes(
       });
     }),
   });
+
+  // Change events pushed by LinkHub for the fields it manages
+  http.route({
+    path: `${pathPrefix}/webhook/linkhub`,
+    method: "POST",
+    handler: httpActionGeneric(async (ctx, request) => {
+      const signature = request.headers.get("X-OKRHub-Signature");
+      const timestamp = request.headers.get("X-OKRHub-Timestamp");
+      if (!signature || !timestamp) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: signature ? "Missing timestamp" : "Missing signature",
+          }),
+          {
+            status: 401,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const body = await request.text();
+      const { status, ...result } = await ctx.runAction(
+        component.okrhub.receiveLinkHubWebhook,
+        {
+          body,
+          timestamp,
+          signature,
+          signingSecret: options.signingSecret,
+        }
+      );
+
+      return new Response(JSON.stringify(result), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }),
+  });
 }
 
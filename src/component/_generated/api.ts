@@ -9,27 +9,51 @@
  */
 
 import type * as config from "../config.js";
+import type * as crons from "../crons.js";
 import type * as entities_batch from "../entities/batch.js";
+import type * as entities_history from "../entities/history.js";
 import type * as entities_index from "../entities/index.js";
 import type * as entities_indicatorForecasts from "../entities/indicatorForecasts.js";
 import type * as entities_indicatorValues from "../entities/indicatorValues.js";
 import type * as entities_indicators from "../entities/indicators.js";
+import type * as entities_initiativeStatus from "../entities/initiativeStatus.js";
 import type * as entities_initiatives from "../entities/initiatives.js";
 import type * as entities_keyResults from "../entities/keyResults.js";
+import type * as entities_lifecycle from "../entities/lifecycle.js";
+import type * as entities_milestoneStatus from "../entities/milestoneStatus.js";
 import type * as entities_milestones from "../entities/milestones.js";
 import type * as entities_objectives from "../entities/objectives.js";
+import type * as entities_progress from "../entities/progress.js";
+import type * as entities_riskTriggers from "../entities/riskTriggers.js";
 import type * as entities_risks from "../entities/risks.js";
+import type * as entities_search from "../entities/search.js";
+import type * as entities_tree from "../entities/tree.js";
 import type * as externalId from "../externalId.js";
+import type * as lib_circuitBreaker from "../lib/circuitBreaker.js";
+import type * as lib_entityTables from "../lib/entityTables.js";
+import type * as lib_errors from "../lib/errors.js";
+import type * as lib_hierarchy from "../lib/hierarchy.js";
 import type * as lib_hmac from "../lib/hmac.js";
 import type * as lib_index from "../lib/index.js";
+import type * as lib_patches from "../lib/patches.js";
 import type * as lib_payloadPolicy from "../lib/payloadPolicy.js";
+import type * as lib_progress from "../lib/progress.js";
+import type * as lib_retry from "../lib/retry.js";
 import type * as lib_types from "../lib/types.js";
 import type * as lib_validation from "../lib/validation.js";
 import type * as okrhub from "../okrhub.js";
+import type * as sync_circuitBreaker from "../sync/circuitBreaker.js";
+import type * as sync_conflicts from "../sync/conflicts.js";
+import type * as sync_deadLetters from "../sync/deadLetters.js";
+import type * as sync_failedItems from "../sync/failedItems.js";
+import type * as sync_heartbeat from "../sync/heartbeat.js";
 import type * as sync_http from "../sync/http.js";
+import type * as sync_inbound from "../sync/inbound.js";
 import type * as sync_index from "../sync/index.js";
+import type * as sync_mappings from "../sync/mappings.js";
 import type * as sync_processor from "../sync/processor.js";
 import type * as sync_queue from "../sync/queue.js";
+import type * as sync_reconcile from "../sync/reconcile.js";
 
 import type {
   ApiFromModules,
@@ -40,27 +64,51 @@ import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
   config: typeof config;
+  crons: typeof crons;
   "entities/batch": typeof entities_batch;
+  "entities/history": typeof entities_history;
   "entities/index": typeof entities_index;
   "entities/indicatorForecasts": typeof entities_indicatorForecasts;
   "entities/indicatorValues": typeof entities_indicatorValues;
   "entities/indicators": typeof entities_indicators;
+  "entities/initiativeStatus": typeof entities_initiativeStatus;
   "entities/initiatives": typeof entities_initiatives;
   "entities/keyResults": typeof entities_keyResults;
+  "entities/lifecycle": typeof entities_lifecycle;
+  "entities/milestoneStatus": typeof entities_milestoneStatus;
   "entities/milestones": typeof entities_milestones;
   "entities/objectives": typeof entities_objectives;
+  "entities/progress": typeof entities_progress;
+  "entities/riskTriggers": typeof entities_riskTriggers;
   "entities/risks": typeof entities_risks;
+  "entities/search": typeof entities_search;
+  "entities/tree": typeof entities_tree;
   externalId: typeof externalId;
+  "lib/circuitBreaker": typeof lib_circuitBreaker;
+  "lib/entityTables": typeof lib_entityTables;
+  "lib/errors": typeof lib_errors;
+  "lib/hierarchy": typeof lib_hierarchy;
   "lib/hmac": typeof lib_hmac;
   "lib/index": typeof lib_index;
+  "lib/patches": typeof lib_patches;
   "lib/payloadPolicy": typeof lib_payloadPolicy;
+  "lib/progress": typeof lib_progress;
+  "lib/retry": typeof lib_retry;
   "lib/types": typeof lib_types;
   "lib/validation": typeof lib_validation;
   okrhub: typeof okrhub;
+  "sync/circuitBreaker": typeof sync_circuitBreaker;
+  "sync/conflicts": typeof sync_conflicts;
+  "sync/deadLetters": typeof sync_deadLetters;
+  "sync/failedItems": typeof sync_failedItems;
+  "sync/heartbeat": typeof sync_heartbeat;
   "sync/http": typeof sync_http;
+  "sync/inbound": typeof sync_inbound;
   "sync/index": typeof sync_index;
+  "sync/mappings": typeof sync_mappings;
   "sync/processor": typeof sync_processor;
   "sync/queue": typeof sync_queue;
+  "sync/reconcile": typeof sync_reconcile;
 }> = anyApi as any;
 
 /**
@@ -31,7 +31,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         {
           apiKeyPrefix: string;
           autoSyncEnabled?: boolean;
+          circuitCooldownMs?: number;
+          circuitFailureThreshold?: number;
           endpointUrl: string;
+          retryBaseDelayMs?: number;
+          retryJitterRatio?: number;
+          retryMaxAttempts?: number;
+          retryMaxDelayMs?: number;
           signingSecret: string;
           sourceApp?: string;
           syncIntervalMs?: number;
@@ -39,6 +45,32 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         null,
         Name
       >;
+      getSyncState: FunctionReference<
+        "query",
+        "internal",
+        {},
+        {
+          autoSyncEnabled: boolean;
+          configured: boolean;
+          paused: boolean;
+          pausedEntityTypes: Array<string>;
+        },
+        Name
+      >;
+      pauseSync: FunctionReference<
+        "mutation",
+        "internal",
+        { entityTypes?: Array<string> },
+        null,
+        Name
+      >;
+      resumeSync: FunctionReference<
+        "mutation",
+        "internal",
+        { entityTypes?: Array<string> },
+        null,
+        Name
+      >;
     };
     entities: {
       batch: {
@@ -88,6 +120,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
                 createdAt?: number;
                 createdByExternalId: string;
                 description: string;
+                dueDate?: number;
                 externalId: string;
                 externalUrl?: string;
                 finishedAt?: number;
@@ -165,11 +198,84 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           Name
         >;
       };
+      history: {
+        getEntityHistory: FunctionReference<
+          "query",
+          "internal",
+          {
+            externalId: string;
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              action: "create" | "update" | "delete" | "restore";
+              actor?: string;
+              after?: any;
+              before?: any;
+              changedAt: number;
+              entityType: string;
+              externalId: string;
+              sourceUrl?: string;
+              teamExternalId?: string;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
+        getTeamHistory: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+            teamExternalId: string;
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              action: "create" | "update" | "delete" | "restore";
+              actor?: string;
+              after?: any;
+              before?: any;
+              changedAt: number;
+              entityType: string;
+              externalId: string;
+              sourceUrl?: string;
+              teamExternalId?: string;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
+      };
       index: {
         createIndicator: FunctionReference<
           "mutation",
           "internal",
           {
+            actor?: string;
             companyExternalId: string;
             description: string;
             isReverse?: boolean;
@@ -198,6 +304,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             date: number;
             indicatorExternalId: string;
             sourceApp: string;
@@ -218,6 +325,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             date: number;
             indicatorExternalId: string;
             sourceApp: string;
@@ -238,9 +346,11 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             assigneeExternalId: string;
             createdByExternalId: string;
             description: string;
+            dueDate?: number;
             finishedAt?: number;
             metadata?: any;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
@@ -264,6 +374,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             forecastValue?: number;
             indicatorExternalId: string;
             metadata?: any;
@@ -288,6 +399,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "internal",
           {
             achievedAt?: number;
+            actor?: string;
             description: string;
             forecastDate?: number;
             indicatorExternalId: string;
@@ -314,6 +426,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             description: string;
             metadata?: any;
             sourceApp: string;
@@ -335,6 +448,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             description: string;
             indicatorExternalId?: string;
             isRed?: boolean;
@@ -367,9 +481,12 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             _id: string;
             createdAt: number;
             date: number;
+            deletedAt?: number;
             externalId: string;
             indicatorExternalId: string;
-            syncStatus: "pending" | "synced" | "failed";
+            remoteRevision?: number;
+            revision?: number;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             value: number;
           }>,
           Name
@@ -393,9 +510,11 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
               | "quarterly"
               | "semesterly"
               | "yearly";
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
             symbol: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
           }>,
           Name
         >;
@@ -408,9 +527,12 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             _id: string;
             createdAt: number;
             date: number;
+            deletedAt?: number;
             externalId: string;
             indicatorExternalId: string;
-            syncStatus: "pending" | "synced" | "failed";
+            remoteRevision?: number;
+            revision?: number;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             value: number;
           }>,
           Name
@@ -427,13 +549,16 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             createdByExternalId: string;
             deletedAt?: number;
             description: string;
+            dueDate?: number;
             externalId: string;
             finishedAt?: number;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             riskExternalId: string;
             slug: string;
             status: "ON_TIME" | "OVERDUE" | "FINISHED";
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             updatedAt?: number;
           }>,
@@ -452,11 +577,14 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             forecastValue?: number;
             indicatorExternalId: string;
             objectiveExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             targetValue?: number;
             teamExternalId: string;
             updatedAt?: number;
+            weight?: number;
           }>,
           Name
         >;
@@ -474,13 +602,15 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             externalId: string;
             forecastDate?: number;
             indicatorExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
             status:
               | "ON_TIME"
               | "OVERDUE"
               | "ACHIEVED_ON_TIME"
               | "ACHIEVED_LATE";
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             updatedAt?: number;
             value: number;
           }>,
@@ -497,8 +627,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             deletedAt?: number;
             description: string;
             externalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             title: string;
             updatedAt?: number;
@@ -520,8 +652,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             isRed?: boolean;
             keyResultExternalId: string;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             triggerValue?: number;
             triggeredIfLower?: boolean;
@@ -542,11 +676,14 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             forecastValue?: number;
             indicatorExternalId: string;
             objectiveExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             targetValue?: number;
             teamExternalId: string;
             updatedAt?: number;
+            weight?: number;
           }>,
           Name
         >;
@@ -561,8 +698,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             deletedAt?: number;
             description: string;
             externalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             title: string;
             updatedAt?: number;
@@ -584,8 +723,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             isRed?: boolean;
             keyResultExternalId: string;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             triggerValue?: number;
             triggeredIfLower?: boolean;
@@ -599,6 +740,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             date: number;
             indicatorExternalId: string;
             sourceApp: string;
@@ -615,6 +757,24 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           },
           Name
         >;
+        deleteIndicatorForecast: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            mode?: "cascade" | "restrict" | "orphan";
+            sourceUrl?: string;
+          },
+          {
+            cascadedCount?: number;
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            success: boolean;
+          },
+          Name
+        >;
         getAllIndicatorForecasts: FunctionReference<
           "query",
           "internal",
@@ -624,17 +784,78 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             _id: string;
             createdAt: number;
             date: number;
+            deletedAt?: number;
             externalId: string;
             indicatorExternalId: string;
-            syncStatus: "pending" | "synced" | "failed";
+            remoteRevision?: number;
+            revision?: number;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             value: number;
           }>,
           Name
         >;
+        getAllIndicatorForecastsPaginated: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              createdAt: number;
+              date: number;
+              deletedAt?: number;
+              externalId: string;
+              indicatorExternalId: string;
+              remoteRevision?: number;
+              revision?: number;
+              syncStatus: "pending" | "synced" | "failed" | "conflict";
+              value: number;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
+        restoreIndicatorForecast: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            restoreChildren?: boolean;
+            sourceUrl?: string;
+          },
+          {
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            restoredCount?: number;
+            success: boolean;
+          },
+          Name
+        >;
         updateIndicatorForecast: FunctionReference<
           "mutation",
           "internal",
-          { date?: number; externalId: string; value?: number },
+          {
+            actor?: string;
+            date?: number;
+            externalId: string;
+            sourceUrl?: string;
+            value?: number;
+          },
           {
             error?: string;
             externalId: string;
@@ -649,6 +870,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             companyExternalId: string;
             description: string;
             isReverse?: boolean;
@@ -673,6 +895,24 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           },
           Name
         >;
+        deleteIndicator: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            mode?: "cascade" | "restrict" | "orphan";
+            sourceUrl?: string;
+          },
+          {
+            cascadedCount?: number;
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            success: boolean;
+          },
+          Name
+        >;
         getAllIndicators: FunctionReference<
           "query",
           "internal",
@@ -692,16 +932,80 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
               | "quarterly"
               | "semesterly"
               | "yearly";
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
             symbol: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
           }>,
           Name
         >;
+        getAllIndicatorsPaginated: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              companyExternalId: string;
+              createdAt: number;
+              deletedAt?: number;
+              description: string;
+              externalId: string;
+              isReverse?: boolean;
+              metadata?: any;
+              periodicity:
+                | "weekly"
+                | "monthly"
+                | "quarterly"
+                | "semesterly"
+                | "yearly";
+              remoteRevision?: number;
+              revision?: number;
+              slug: string;
+              symbol: string;
+              syncStatus: "pending" | "synced" | "failed" | "conflict";
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
+        restoreIndicator: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            restoreChildren?: boolean;
+            sourceUrl?: string;
+          },
+          {
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            restoredCount?: number;
+            success: boolean;
+          },
+          Name
+        >;
         updateIndicator: FunctionReference<
           "mutation",
           "internal",
           {
+            actor?: string;
             description?: string;
             externalId: string;
             isReverse?: boolean;
@@ -712,6 +1016,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
               | "quarterly"
               | "semesterly"
               | "yearly";
+            sourceUrl?: string;
             symbol?: string;
           },
           {
@@ -728,6 +1033,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             date: number;
             indicatorExternalId: string;
             sourceApp: string;
@@ -744,6 +1050,24 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           },
           Name
         >;
+        deleteIndicatorValue: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            mode?: "cascade" | "restrict" | "orphan";
+            sourceUrl?: string;
+          },
+          {
+            cascadedCount?: number;
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            success: boolean;
+          },
+          Name
+        >;
         getAllIndicatorValues: FunctionReference<
           "query",
           "internal",
@@ -753,17 +1077,78 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             _id: string;
             createdAt: number;
             date: number;
+            deletedAt?: number;
             externalId: string;
             indicatorExternalId: string;
-            syncStatus: "pending" | "synced" | "failed";
+            remoteRevision?: number;
+            revision?: number;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             value: number;
           }>,
           Name
         >;
+        getAllIndicatorValuesPaginated: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              createdAt: number;
+              date: number;
+              deletedAt?: number;
+              externalId: string;
+              indicatorExternalId: string;
+              remoteRevision?: number;
+              revision?: number;
+              syncStatus: "pending" | "synced" | "failed" | "conflict";
+              value: number;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
+        restoreIndicatorValue: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            restoreChildren?: boolean;
+            sourceUrl?: string;
+          },
+          {
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            restoredCount?: number;
+            success: boolean;
+          },
+          Name
+        >;
         updateIndicatorValue: FunctionReference<
           "mutation",
           "internal",
-          { date?: number; externalId: string; value?: number },
+          {
+            actor?: string;
+            date?: number;
+            externalId: string;
+            sourceUrl?: string;
+            value?: number;
+          },
           {
             error?: string;
             externalId: string;
@@ -778,9 +1163,11 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             assigneeExternalId: string;
             createdByExternalId: string;
             description: string;
+            dueDate?: number;
             finishedAt?: number;
             metadata?: any;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
@@ -803,8 +1190,19 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         deleteInitiative: FunctionReference<
           "mutation",
           "internal",
-          { externalId: string },
-          { error?: string; externalId: string; success: boolean },
+          {
+            actor?: string;
+            externalId: string;
+            mode?: "cascade" | "restrict" | "orphan";
+            sourceUrl?: string;
+          },
+          {
+            cascadedCount?: number;
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            success: boolean;
+          },
           Name
         >;
         getAllInitiatives: FunctionReference<
@@ -819,18 +1217,64 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             createdByExternalId: string;
             deletedAt?: number;
             description: string;
+            dueDate?: number;
             externalId: string;
             finishedAt?: number;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             riskExternalId: string;
             slug: string;
             status: "ON_TIME" | "OVERDUE" | "FINISHED";
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             updatedAt?: number;
           }>,
           Name
         >;
+        getAllInitiativesPaginated: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              assigneeExternalId: string;
+              createdAt: number;
+              createdByExternalId: string;
+              deletedAt?: number;
+              description: string;
+              dueDate?: number;
+              externalId: string;
+              finishedAt?: number;
+              metadata?: any;
+              priority: "lowest" | "low" | "medium" | "high" | "highest";
+              remoteRevision?: number;
+              revision?: number;
+              riskExternalId: string;
+              slug: string;
+              status: "ON_TIME" | "OVERDUE" | "FINISHED";
+              syncStatus: "pending" | "synced" | "failed" | "conflict";
+              teamExternalId: string;
+              updatedAt?: number;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
         getInitiativeByExternalId: FunctionReference<
           "query",
           "internal",
@@ -843,14 +1287,17 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             createdByExternalId: string;
             deletedAt?: number;
             description: string;
+            dueDate?: number;
             externalId: string;
             finishedAt?: number;
             metadata?: any;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             riskExternalId: string;
             slug: string;
             status: "ON_TIME" | "OVERDUE" | "FINISHED";
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             updatedAt?: number;
           } | null,
@@ -868,14 +1315,17 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             createdByExternalId: string;
             deletedAt?: number;
             description: string;
+            dueDate?: number;
             externalId: string;
             finishedAt?: number;
             metadata?: any;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             riskExternalId: string;
             slug: string;
             status: "ON_TIME" | "OVERDUE" | "FINISHED";
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             updatedAt?: number;
           }>,
@@ -893,14 +1343,17 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             createdByExternalId: string;
             deletedAt?: number;
             description: string;
+            dueDate?: number;
             externalId: string;
             finishedAt?: number;
             metadata?: any;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             riskExternalId: string;
             slug: string;
             status: "ON_TIME" | "OVERDUE" | "FINISHED";
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             updatedAt?: number;
           }>,
@@ -918,30 +1371,110 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             createdByExternalId: string;
             deletedAt?: number;
             description: string;
+            dueDate?: number;
+            externalId: string;
+            finishedAt?: number;
+            metadata?: any;
+            priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
+            riskExternalId: string;
+            slug: string;
+            status: "ON_TIME" | "OVERDUE" | "FINISHED";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            teamExternalId: string;
+            updatedAt?: number;
+          }>,
+          Name
+        >;
+        getOverdueInitiativesByAssignee: FunctionReference<
+          "query",
+          "internal",
+          { assigneeExternalId: string },
+          Array<{
+            _creationTime: number;
+            _id: string;
+            assigneeExternalId: string;
+            createdAt: number;
+            createdByExternalId: string;
+            deletedAt?: number;
+            description: string;
+            dueDate?: number;
+            externalId: string;
+            finishedAt?: number;
+            metadata?: any;
+            priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
+            riskExternalId: string;
+            slug: string;
+            status: "ON_TIME" | "OVERDUE" | "FINISHED";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            teamExternalId: string;
+            updatedAt?: number;
+          }>,
+          Name
+        >;
+        getOverdueInitiativesByTeam: FunctionReference<
+          "query",
+          "internal",
+          { teamExternalId: string },
+          Array<{
+            _creationTime: number;
+            _id: string;
+            assigneeExternalId: string;
+            createdAt: number;
+            createdByExternalId: string;
+            deletedAt?: number;
+            description: string;
+            dueDate?: number;
             externalId: string;
             finishedAt?: number;
             metadata?: any;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             riskExternalId: string;
             slug: string;
             status: "ON_TIME" | "OVERDUE" | "FINISHED";
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             updatedAt?: number;
           }>,
           Name
         >;
+        restoreInitiative: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            restoreChildren?: boolean;
+            sourceUrl?: string;
+          },
+          {
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            restoredCount?: number;
+            success: boolean;
+          },
+          Name
+        >;
         updateInitiative: FunctionReference<
           "mutation",
           "internal",
           {
+            actor?: string;
             assigneeExternalId?: string;
             description?: string;
+            dueDate?: number;
             externalId: string;
             finishedAt?: number;
             metadata?: any;
             priority?: "lowest" | "low" | "medium" | "high" | "highest";
             riskExternalId?: string;
+            sourceUrl?: string;
             status?: "ON_TIME" | "OVERDUE" | "FINISHED";
           },
           {
@@ -958,6 +1491,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             forecastValue?: number;
             indicatorExternalId: string;
             metadata?: any;
@@ -977,27 +1511,88 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           },
           Name
         >;
-        getAllKeyResults: FunctionReference<
-          "query",
+        deleteKeyResult: FunctionReference<
+          "mutation",
           "internal",
-          {},
-          Array<{
-            _creationTime: number;
-            _id: string;
-            createdAt: number;
-            deletedAt?: number;
+          {
+            actor?: string;
+            externalId: string;
+            mode?: "cascade" | "restrict" | "orphan";
+            sourceUrl?: string;
+          },
+          {
+            cascadedCount?: number;
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            success: boolean;
+          },
+          Name
+        >;
+        getAllKeyResults: FunctionReference<
+          "query",
+          "internal",
+          {},
+          Array<{
+            _creationTime: number;
+            _id: string;
+            createdAt: number;
+            deletedAt?: number;
             externalId: string;
             forecastValue?: number;
             indicatorExternalId: string;
             objectiveExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             targetValue?: number;
             teamExternalId: string;
             updatedAt?: number;
+            weight?: number;
           }>,
           Name
         >;
+        getAllKeyResultsPaginated: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              createdAt: number;
+              deletedAt?: number;
+              externalId: string;
+              forecastValue?: number;
+              indicatorExternalId: string;
+              metadata?: any;
+              objectiveExternalId: string;
+              remoteRevision?: number;
+              revision?: number;
+              slug: string;
+              syncStatus: "pending" | "synced" | "failed" | "conflict";
+              targetValue?: number;
+              teamExternalId: string;
+              updatedAt?: number;
+              weight?: number;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
         getKeyResultByExternalId: FunctionReference<
           "query",
           "internal",
@@ -1012,11 +1607,14 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             indicatorExternalId: string;
             metadata?: any;
             objectiveExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             targetValue?: number;
             teamExternalId: string;
             updatedAt?: number;
+            weight?: number;
           } | null,
           Name
         >;
@@ -1033,22 +1631,45 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             forecastValue?: number;
             indicatorExternalId: string;
             objectiveExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             targetValue?: number;
             teamExternalId: string;
             updatedAt?: number;
+            weight?: number;
           }>,
           Name
         >;
+        restoreKeyResult: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            restoreChildren?: boolean;
+            sourceUrl?: string;
+          },
+          {
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            restoredCount?: number;
+            success: boolean;
+          },
+          Name
+        >;
         updateKeyResult: FunctionReference<
           "mutation",
           "internal",
           {
+            actor?: string;
             externalId: string;
             forecastValue?: number;
             metadata?: any;
             objectiveExternalId?: string;
+            sourceUrl?: string;
             targetValue?: number;
           },
           {
@@ -1060,12 +1681,44 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           Name
         >;
       };
+      lifecycle: {
+        getOrphanedEntities: FunctionReference<
+          "query",
+          "internal",
+          {
+            entityType?: string;
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              entityType: string;
+              externalId: string;
+              parentEntityType: string;
+              parentExternalId: string;
+              reason: "missing" | "deleted";
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
+      };
       milestones: {
         createMilestone: FunctionReference<
           "mutation",
           "internal",
           {
             achievedAt?: number;
+            actor?: string;
             description: string;
             forecastDate?: number;
             indicatorExternalId: string;
@@ -1088,6 +1741,24 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           },
           Name
         >;
+        deleteMilestone: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            mode?: "cascade" | "restrict" | "orphan";
+            sourceUrl?: string;
+          },
+          {
+            cascadedCount?: number;
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            success: boolean;
+          },
+          Name
+        >;
         getAllMilestones: FunctionReference<
           "query",
           "internal",
@@ -1102,26 +1773,91 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             externalId: string;
             forecastDate?: number;
             indicatorExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
             status:
               | "ON_TIME"
               | "OVERDUE"
               | "ACHIEVED_ON_TIME"
               | "ACHIEVED_LATE";
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             updatedAt?: number;
             value: number;
           }>,
           Name
         >;
+        getAllMilestonesPaginated: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              achievedAt?: number;
+              createdAt: number;
+              deletedAt?: number;
+              description: string;
+              externalId: string;
+              forecastDate?: number;
+              indicatorExternalId: string;
+              remoteRevision?: number;
+              revision?: number;
+              slug: string;
+              status:
+                | "ON_TIME"
+                | "OVERDUE"
+                | "ACHIEVED_ON_TIME"
+                | "ACHIEVED_LATE";
+              syncStatus: "pending" | "synced" | "failed" | "conflict";
+              updatedAt?: number;
+              value: number;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
+        restoreMilestone: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            restoreChildren?: boolean;
+            sourceUrl?: string;
+          },
+          {
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            restoredCount?: number;
+            success: boolean;
+          },
+          Name
+        >;
         updateMilestone: FunctionReference<
           "mutation",
           "internal",
           {
             achievedAt?: number;
+            actor?: string;
             description?: string;
             externalId: string;
             forecastDate?: number;
+            sourceUrl?: string;
             status?:
               | "ON_TIME"
               | "OVERDUE"
@@ -1143,6 +1879,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           "mutation",
           "internal",
           {
+            actor?: string;
             description: string;
             metadata?: any;
             sourceApp: string;
@@ -1160,6 +1897,24 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           },
           Name
         >;
+        deleteObjective: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            mode?: "cascade" | "restrict" | "orphan";
+            sourceUrl?: string;
+          },
+          {
+            cascadedCount?: number;
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            success: boolean;
+          },
+          Name
+        >;
         getAllObjectives: FunctionReference<
           "query",
           "internal",
@@ -1171,14 +1926,53 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             deletedAt?: number;
             description: string;
             externalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             title: string;
             updatedAt?: number;
           }>,
           Name
         >;
+        getAllObjectivesPaginated: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              createdAt: number;
+              deletedAt?: number;
+              description: string;
+              externalId: string;
+              metadata?: any;
+              remoteRevision?: number;
+              revision?: number;
+              slug: string;
+              syncStatus: "pending" | "synced" | "failed" | "conflict";
+              teamExternalId: string;
+              title: string;
+              updatedAt?: number;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
         getObjectiveByExternalId: FunctionReference<
           "query",
           "internal",
@@ -1191,8 +1985,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             description: string;
             externalId: string;
             metadata?: any;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             title: string;
             updatedAt?: number;
@@ -1210,21 +2006,43 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             deletedAt?: number;
             description: string;
             externalId: string;
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             title: string;
             updatedAt?: number;
           }>,
           Name
         >;
+        restoreObjective: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            restoreChildren?: boolean;
+            sourceUrl?: string;
+          },
+          {
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            restoredCount?: number;
+            success: boolean;
+          },
+          Name
+        >;
         updateObjective: FunctionReference<
           "mutation",
           "internal",
           {
+            actor?: string;
             description?: string;
             externalId: string;
             metadata?: any;
+            sourceUrl?: string;
             title?: string;
           },
           {
@@ -1236,11 +2054,54 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           Name
         >;
       };
+      progress: {
+        getKeyResultProgress: FunctionReference<
+          "query",
+          "internal",
+          { externalId: string },
+          {
+            currentValue?: number;
+            currentValueDate?: number;
+            forecastProgress: number | null;
+            forecastValue?: number;
+            indicatorExternalId: string;
+            isReverse: boolean;
+            keyResultExternalId: string;
+            progress: number | null;
+            targetValue?: number;
+            weight?: number;
+          } | null,
+          Name
+        >;
+        getObjectiveProgress: FunctionReference<
+          "query",
+          "internal",
+          { externalId: string },
+          {
+            keyResults: Array<{
+              currentValue?: number;
+              currentValueDate?: number;
+              forecastProgress: number | null;
+              forecastValue?: number;
+              indicatorExternalId: string;
+              isReverse: boolean;
+              keyResultExternalId: string;
+              progress: number | null;
+              targetValue?: number;
+              weight?: number;
+            }>;
+            objectiveExternalId: string;
+            progress: number | null;
+          } | null,
+          Name
+        >;
+      };
       risks: {
         createRisk: FunctionReference<
           "mutation",
           "internal",
           {
+            actor?: string;
             description: string;
             indicatorExternalId?: string;
             isRed?: boolean;
@@ -1267,8 +2128,19 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         deleteRisk: FunctionReference<
           "mutation",
           "internal",
-          { externalId: string },
-          { error?: string; externalId: string; success: boolean },
+          {
+            actor?: string;
+            externalId: string;
+            mode?: "cascade" | "restrict" | "orphan";
+            sourceUrl?: string;
+          },
+          {
+            cascadedCount?: number;
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            success: boolean;
+          },
           Name
         >;
         getAllRisks: FunctionReference<
@@ -1286,8 +2158,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             isRed?: boolean;
             keyResultExternalId: string;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             triggerValue?: number;
             triggeredIfLower?: boolean;
@@ -1295,6 +2169,48 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           }>,
           Name
         >;
+        getAllRisksPaginated: FunctionReference<
+          "query",
+          "internal",
+          {
+            paginationOpts: {
+              cursor: string | null;
+              endCursor?: string | null;
+              id?: number;
+              maximumBytesRead?: number;
+              maximumRowsRead?: number;
+              numItems: number;
+            };
+          },
+          {
+            continueCursor: string;
+            isDone: boolean;
+            page: Array<{
+              _creationTime: number;
+              _id: string;
+              createdAt: number;
+              deletedAt?: number;
+              description: string;
+              externalId: string;
+              indicatorExternalId?: string;
+              isRed?: boolean;
+              keyResultExternalId: string;
+              metadata?: any;
+              priority: "lowest" | "low" | "medium" | "high" | "highest";
+              remoteRevision?: number;
+              revision?: number;
+              slug: string;
+              syncStatus: "pending" | "synced" | "failed" | "conflict";
+              teamExternalId: string;
+              triggerValue?: number;
+              triggeredIfLower?: boolean;
+              useForecastAsTrigger?: boolean;
+            }>;
+            pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+            splitCursor?: string | null;
+          },
+          Name
+        >;
         getRiskByExternalId: FunctionReference<
           "query",
           "internal",
@@ -1311,8 +2227,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             keyResultExternalId: string;
             metadata?: any;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             triggerValue?: number;
             triggeredIfLower?: boolean;
@@ -1335,8 +2253,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             isRed?: boolean;
             keyResultExternalId: string;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             triggerValue?: number;
             triggeredIfLower?: boolean;
@@ -1360,8 +2280,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             keyResultExternalId: string;
             metadata?: any;
             priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
             slug: string;
-            syncStatus: "pending" | "synced" | "failed";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
             teamExternalId: string;
             triggerValue?: number;
             triggeredIfLower?: boolean;
@@ -1369,10 +2291,29 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           }>,
           Name
         >;
+        restoreRisk: FunctionReference<
+          "mutation",
+          "internal",
+          {
+            actor?: string;
+            externalId: string;
+            restoreChildren?: boolean;
+            sourceUrl?: string;
+          },
+          {
+            error?: string;
+            externalId: string;
+            queueId?: string;
+            restoredCount?: number;
+            success: boolean;
+          },
+          Name
+        >;
         updateRisk: FunctionReference<
           "mutation",
           "internal",
           {
+            actor?: string;
             description?: string;
             externalId: string;
             indicatorExternalId?: string;
@@ -1380,6 +2321,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             keyResultExternalId?: string;
             metadata?: any;
             priority?: "lowest" | "low" | "medium" | "high" | "highest";
+            sourceUrl?: string;
             triggerValue?: number;
             triggeredIfLower?: boolean;
             useForecastAsTrigger?: boolean;
@@ -1393,6 +2335,217 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           Name
         >;
       };
+      riskTriggers: {
+        getRiskTriggerEvents: FunctionReference<
+          "query",
+          "internal",
+          { limit?: number; riskExternalId: string },
+          Array<{
+            _creationTime: number;
+            _id: string;
+            indicatorExternalId: string;
+            isRed: boolean;
+            riskExternalId: string;
+            source: "value" | "forecast";
+            sourceExternalId: string;
+            triggerValue: number;
+            triggeredAt: number;
+            triggeredIfLower: boolean;
+            value: number;
+          }>,
+          Name
+        >;
+      };
+      search: {
+        searchOkr: FunctionReference<
+          "query",
+          "internal",
+          {
+            includeDeleted?: boolean;
+            limit?: number;
+            query: string;
+            teamExternalId?: string;
+          },
+          Array<{
+            deletedAt?: number;
+            description: string;
+            entityType: string;
+            externalId: string;
+            score: number;
+            teamExternalId?: string;
+            title?: string;
+          }>,
+          Name
+        >;
+      };
+      tree: {
+        getOkrTree: FunctionReference<
+          "query",
+          "internal",
+          {
+            depth?: number;
+            fields?: Record<string, Array<string>>;
+            teamExternalId: string;
+          },
+          Array<{
+            keyResults?: Array<{
+              indicator: {
+                indicator: {
+                  _creationTime?: number;
+                  _id?: string;
+                  companyExternalId?: string;
+                  createdAt?: number;
+                  deletedAt?: number;
+                  description?: string;
+                  externalId: string;
+                  isReverse?: boolean;
+                  metadata?: any;
+                  periodicity?:
+                    | "weekly"
+                    | "monthly"
+                    | "quarterly"
+                    | "semesterly"
+                    | "yearly";
+                  remoteRevision?: number;
+                  revision?: number;
+                  slug?: string;
+                  symbol?: string;
+                  syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                };
+                latestForecast: {
+                  _creationTime?: number;
+                  _id?: string;
+                  createdAt?: number;
+                  date?: number;
+                  deletedAt?: number;
+                  externalId: string;
+                  indicatorExternalId?: string;
+                  remoteRevision?: number;
+                  revision?: number;
+                  syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                  value?: number;
+                } | null;
+                latestValue: {
+                  _creationTime?: number;
+                  _id?: string;
+                  createdAt?: number;
+                  date?: number;
+                  deletedAt?: number;
+                  externalId: string;
+                  indicatorExternalId?: string;
+                  remoteRevision?: number;
+                  revision?: number;
+                  syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                  value?: number;
+                } | null;
+                milestones: Array<{
+                  _creationTime?: number;
+                  _id?: string;
+                  achievedAt?: number;
+                  createdAt?: number;
+                  deletedAt?: number;
+                  description?: string;
+                  externalId: string;
+                  forecastDate?: number;
+                  indicatorExternalId?: string;
+                  remoteRevision?: number;
+                  revision?: number;
+                  slug?: string;
+                  status?:
+                    | "ON_TIME"
+                    | "OVERDUE"
+                    | "ACHIEVED_ON_TIME"
+                    | "ACHIEVED_LATE";
+                  syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                  updatedAt?: number;
+                  value?: number;
+                }>;
+              } | null;
+              keyResult: {
+                _creationTime?: number;
+                _id?: string;
+                createdAt?: number;
+                deletedAt?: number;
+                externalId: string;
+                forecastValue?: number;
+                indicatorExternalId?: string;
+                metadata?: any;
+                objectiveExternalId?: string;
+                remoteRevision?: number;
+                revision?: number;
+                slug?: string;
+                syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                targetValue?: number;
+                teamExternalId?: string;
+                updatedAt?: number;
+                weight?: number;
+              };
+              risks?: Array<{
+                initiatives?: Array<{
+                  _creationTime?: number;
+                  _id?: string;
+                  assigneeExternalId?: string;
+                  createdAt?: number;
+                  createdByExternalId?: string;
+                  deletedAt?: number;
+                  description?: string;
+                  dueDate?: number;
+                  externalId: string;
+                  finishedAt?: number;
+                  metadata?: any;
+                  priority?: "lowest" | "low" | "medium" | "high" | "highest";
+                  remoteRevision?: number;
+                  revision?: number;
+                  riskExternalId?: string;
+                  slug?: string;
+                  status?: "ON_TIME" | "OVERDUE" | "FINISHED";
+                  syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                  teamExternalId?: string;
+                  updatedAt?: number;
+                }>;
+                risk: {
+                  _creationTime?: number;
+                  _id?: string;
+                  createdAt?: number;
+                  deletedAt?: number;
+                  description?: string;
+                  externalId: string;
+                  indicatorExternalId?: string;
+                  isRed?: boolean;
+                  keyResultExternalId?: string;
+                  metadata?: any;
+                  priority?: "lowest" | "low" | "medium" | "high" | "highest";
+                  remoteRevision?: number;
+                  revision?: number;
+                  slug?: string;
+                  syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                  teamExternalId?: string;
+                  triggerValue?: number;
+                  triggeredIfLower?: boolean;
+                  useForecastAsTrigger?: boolean;
+                };
+              }>;
+            }>;
+            objective: {
+              _creationTime?: number;
+              _id?: string;
+              createdAt?: number;
+              deletedAt?: number;
+              description?: string;
+              externalId: string;
+              metadata?: any;
+              remoteRevision?: number;
+              revision?: number;
+              slug?: string;
+              syncStatus?: "pending" | "synced" | "failed" | "conflict";
+              teamExternalId?: string;
+              title?: string;
+              updatedAt?: number;
+            };
+          }>,
+          Name
+        >;
+      };
     };
     okrhub: {
       clearConfig: FunctionReference<"mutation", "internal", {}, null, Name>;
@@ -1402,7 +2555,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         {
           apiKeyPrefix: string;
           autoSyncEnabled?: boolean;
+          circuitCooldownMs?: number;
+          circuitFailureThreshold?: number;
           endpointUrl: string;
+          retryBaseDelayMs?: number;
+          retryJitterRatio?: number;
+          retryMaxAttempts?: number;
+          retryMaxDelayMs?: number;
           signingSecret: string;
           sourceApp?: string;
           syncIntervalMs?: number;
@@ -1414,6 +2573,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           companyExternalId: string;
           description: string;
           isReverse?: boolean;
@@ -1442,6 +2602,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           date: number;
           indicatorExternalId: string;
           sourceApp: string;
@@ -1462,6 +2623,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           date: number;
           indicatorExternalId: string;
           sourceApp: string;
@@ -1482,9 +2644,11 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           assigneeExternalId: string;
           createdByExternalId: string;
           description: string;
+          dueDate?: number;
           finishedAt?: number;
           metadata?: any;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
@@ -1508,6 +2672,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           forecastValue?: number;
           indicatorExternalId: string;
           metadata?: any;
@@ -1532,6 +2697,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           achievedAt?: number;
+          actor?: string;
           description: string;
           forecastDate?: number;
           indicatorExternalId: string;
@@ -1554,6 +2720,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           description: string;
           metadata?: any;
           sourceApp: string;
@@ -1575,6 +2742,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           description: string;
           indicatorExternalId?: string;
           isRed?: boolean;
@@ -1598,18 +2766,188 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         },
         Name
       >;
-      deleteInitiative: FunctionReference<
+      deleteIndicator: FunctionReference<
         "mutation",
         "internal",
-        { externalId: string },
-        { error?: string; externalId: string; success: boolean },
+        {
+          actor?: string;
+          externalId: string;
+          mode?: "cascade" | "restrict" | "orphan";
+          sourceUrl?: string;
+        },
+        {
+          cascadedCount?: number;
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
         Name
       >;
-      deleteRisk: FunctionReference<
+      deleteIndicatorForecast: FunctionReference<
         "mutation",
         "internal",
-        { externalId: string },
-        { error?: string; externalId: string; success: boolean },
+        {
+          actor?: string;
+          externalId: string;
+          mode?: "cascade" | "restrict" | "orphan";
+          sourceUrl?: string;
+        },
+        {
+          cascadedCount?: number;
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      deleteIndicatorValue: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          mode?: "cascade" | "restrict" | "orphan";
+          sourceUrl?: string;
+        },
+        {
+          cascadedCount?: number;
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      deleteInitiative: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          mode?: "cascade" | "restrict" | "orphan";
+          sourceUrl?: string;
+        },
+        {
+          cascadedCount?: number;
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      deleteKeyResult: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          mode?: "cascade" | "restrict" | "orphan";
+          sourceUrl?: string;
+        },
+        {
+          cascadedCount?: number;
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      deleteMilestone: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          mode?: "cascade" | "restrict" | "orphan";
+          sourceUrl?: string;
+        },
+        {
+          cascadedCount?: number;
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      deleteObjective: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          mode?: "cascade" | "restrict" | "orphan";
+          sourceUrl?: string;
+        },
+        {
+          cascadedCount?: number;
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      deleteRisk: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          mode?: "cascade" | "restrict" | "orphan";
+          sourceUrl?: string;
+        },
+        {
+          cascadedCount?: number;
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      discardFailedSyncItem: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string },
+        { error?: string; success: boolean },
+        Name
+      >;
+      discardFailedSyncItems: FunctionReference<
+        "mutation",
+        "internal",
+        { entityType?: string; limit?: number },
+        { discarded: number; hasMore: boolean },
+        Name
+      >;
+      drainNow: FunctionReference<
+        "action",
+        "internal",
+        {
+          apiKeyPrefix?: string;
+          batchSize?: number;
+          endpointUrl?: string;
+          signingSecret?: string;
+          timeBudgetMs?: number;
+        },
+        {
+          elapsedMs: number;
+          failed: number;
+          processed: number;
+          remaining: number;
+          runs: number;
+          stoppedBy:
+            | "drained"
+            | "held"
+            | "timeBudget"
+            | "paused"
+            | "circuitOpen";
+          succeeded: number;
+        },
         Name
       >;
       getAllIndicatorForecasts: FunctionReference<
@@ -1621,13 +2959,50 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           _id: string;
           createdAt: number;
           date: number;
+          deletedAt?: number;
           externalId: string;
           indicatorExternalId: string;
-          syncStatus: "pending" | "synced" | "failed";
+          remoteRevision?: number;
+          revision?: number;
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           value: number;
         }>,
         Name
       >;
+      getAllIndicatorForecastsPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            createdAt: number;
+            date: number;
+            deletedAt?: number;
+            externalId: string;
+            indicatorExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            value: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getAllIndicators: FunctionReference<
         "query",
         "internal",
@@ -1647,12 +3022,57 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             | "quarterly"
             | "semesterly"
             | "yearly";
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
           symbol: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
         }>,
         Name
       >;
+      getAllIndicatorsPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            companyExternalId: string;
+            createdAt: number;
+            deletedAt?: number;
+            description: string;
+            externalId: string;
+            isReverse?: boolean;
+            metadata?: any;
+            periodicity:
+              | "weekly"
+              | "monthly"
+              | "quarterly"
+              | "semesterly"
+              | "yearly";
+            remoteRevision?: number;
+            revision?: number;
+            slug: string;
+            symbol: string;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getAllIndicatorValues: FunctionReference<
         "query",
         "internal",
@@ -1662,13 +3082,50 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           _id: string;
           createdAt: number;
           date: number;
+          deletedAt?: number;
           externalId: string;
           indicatorExternalId: string;
-          syncStatus: "pending" | "synced" | "failed";
+          remoteRevision?: number;
+          revision?: number;
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           value: number;
         }>,
         Name
       >;
+      getAllIndicatorValuesPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            createdAt: number;
+            date: number;
+            deletedAt?: number;
+            externalId: string;
+            indicatorExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            value: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getAllInitiatives: FunctionReference<
         "query",
         "internal",
@@ -1681,18 +3138,64 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           createdByExternalId: string;
           deletedAt?: number;
           description: string;
+          dueDate?: number;
           externalId: string;
           finishedAt?: number;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           riskExternalId: string;
           slug: string;
           status: "ON_TIME" | "OVERDUE" | "FINISHED";
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           updatedAt?: number;
         }>,
         Name
       >;
+      getAllInitiativesPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            assigneeExternalId: string;
+            createdAt: number;
+            createdByExternalId: string;
+            deletedAt?: number;
+            description: string;
+            dueDate?: number;
+            externalId: string;
+            finishedAt?: number;
+            metadata?: any;
+            priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
+            riskExternalId: string;
+            slug: string;
+            status: "ON_TIME" | "OVERDUE" | "FINISHED";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            teamExternalId: string;
+            updatedAt?: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getAllKeyResults: FunctionReference<
         "query",
         "internal",
@@ -1706,14 +3209,57 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           forecastValue?: number;
           indicatorExternalId: string;
           objectiveExternalId: string;
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           targetValue?: number;
           teamExternalId: string;
           updatedAt?: number;
+          weight?: number;
         }>,
         Name
       >;
+      getAllKeyResultsPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            createdAt: number;
+            deletedAt?: number;
+            externalId: string;
+            forecastValue?: number;
+            indicatorExternalId: string;
+            metadata?: any;
+            objectiveExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
+            slug: string;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            targetValue?: number;
+            teamExternalId: string;
+            updatedAt?: number;
+            weight?: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getAllMilestones: FunctionReference<
         "query",
         "internal",
@@ -1728,14 +3274,59 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           externalId: string;
           forecastDate?: number;
           indicatorExternalId: string;
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
           status: "ON_TIME" | "OVERDUE" | "ACHIEVED_ON_TIME" | "ACHIEVED_LATE";
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           updatedAt?: number;
           value: number;
         }>,
         Name
       >;
+      getAllMilestonesPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            achievedAt?: number;
+            createdAt: number;
+            deletedAt?: number;
+            description: string;
+            externalId: string;
+            forecastDate?: number;
+            indicatorExternalId: string;
+            remoteRevision?: number;
+            revision?: number;
+            slug: string;
+            status:
+              | "ON_TIME"
+              | "OVERDUE"
+              | "ACHIEVED_ON_TIME"
+              | "ACHIEVED_LATE";
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            updatedAt?: number;
+            value: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getAllObjectives: FunctionReference<
         "query",
         "internal",
@@ -1747,14 +3338,53 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           deletedAt?: number;
           description: string;
           externalId: string;
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           title: string;
           updatedAt?: number;
         }>,
         Name
       >;
+      getAllObjectivesPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            createdAt: number;
+            deletedAt?: number;
+            description: string;
+            externalId: string;
+            metadata?: any;
+            remoteRevision?: number;
+            revision?: number;
+            slug: string;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            teamExternalId: string;
+            title: string;
+            updatedAt?: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getAllRisks: FunctionReference<
         "query",
         "internal",
@@ -1770,8 +3400,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           isRed?: boolean;
           keyResultExternalId: string;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           triggerValue?: number;
           triggeredIfLower?: boolean;
@@ -1779,26 +3411,118 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         }>,
         Name
       >;
-      getInitiativeByExternalId: FunctionReference<
+      getAllRisksPaginated: FunctionReference<
         "query",
         "internal",
-        { externalId: string },
         {
-          _creationTime: number;
-          _id: string;
-          assigneeExternalId: string;
-          createdAt: number;
-          createdByExternalId: string;
-          deletedAt?: number;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            createdAt: number;
+            deletedAt?: number;
+            description: string;
+            externalId: string;
+            indicatorExternalId?: string;
+            isRed?: boolean;
+            keyResultExternalId: string;
+            metadata?: any;
+            priority: "lowest" | "low" | "medium" | "high" | "highest";
+            remoteRevision?: number;
+            revision?: number;
+            slug: string;
+            syncStatus: "pending" | "synced" | "failed" | "conflict";
+            teamExternalId: string;
+            triggerValue?: number;
+            triggeredIfLower?: boolean;
+            useForecastAsTrigger?: boolean;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      getCircuitState: FunctionReference<
+        "query",
+        "internal",
+        {},
+        {
+          consecutiveFailures: number;
+          openedAt?: number;
+          retryAt?: number;
+          state: "closed" | "open" | "half_open";
+        },
+        Name
+      >;
+      getEntityHistory: FunctionReference<
+        "query",
+        "internal",
+        {
+          externalId: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            action: "create" | "update" | "delete" | "restore";
+            actor?: string;
+            after?: any;
+            before?: any;
+            changedAt: number;
+            entityType: string;
+            externalId: string;
+            sourceUrl?: string;
+            teamExternalId?: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      getInitiativeByExternalId: FunctionReference<
+        "query",
+        "internal",
+        { externalId: string },
+        {
+          _creationTime: number;
+          _id: string;
+          assigneeExternalId: string;
+          createdAt: number;
+          createdByExternalId: string;
+          deletedAt?: number;
           description: string;
+          dueDate?: number;
           externalId: string;
           finishedAt?: number;
           metadata?: any;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           riskExternalId: string;
           slug: string;
           status: "ON_TIME" | "OVERDUE" | "FINISHED";
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           updatedAt?: number;
         } | null,
@@ -1816,14 +3540,17 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           createdByExternalId: string;
           deletedAt?: number;
           description: string;
+          dueDate?: number;
           externalId: string;
           finishedAt?: number;
           metadata?: any;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           riskExternalId: string;
           slug: string;
           status: "ON_TIME" | "OVERDUE" | "FINISHED";
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           updatedAt?: number;
         }>,
@@ -1841,14 +3568,17 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           createdByExternalId: string;
           deletedAt?: number;
           description: string;
+          dueDate?: number;
           externalId: string;
           finishedAt?: number;
           metadata?: any;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           riskExternalId: string;
           slug: string;
           status: "ON_TIME" | "OVERDUE" | "FINISHED";
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           updatedAt?: number;
         }>,
@@ -1866,14 +3596,17 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           createdByExternalId: string;
           deletedAt?: number;
           description: string;
+          dueDate?: number;
           externalId: string;
           finishedAt?: number;
           metadata?: any;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           riskExternalId: string;
           slug: string;
           status: "ON_TIME" | "OVERDUE" | "FINISHED";
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           updatedAt?: number;
         }>,
@@ -1893,11 +3626,32 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           indicatorExternalId: string;
           metadata?: any;
           objectiveExternalId: string;
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           targetValue?: number;
           teamExternalId: string;
           updatedAt?: number;
+          weight?: number;
+        } | null,
+        Name
+      >;
+      getKeyResultProgress: FunctionReference<
+        "query",
+        "internal",
+        { externalId: string },
+        {
+          currentValue?: number;
+          currentValueDate?: number;
+          forecastProgress: number | null;
+          forecastValue?: number;
+          indicatorExternalId: string;
+          isReverse: boolean;
+          keyResultExternalId: string;
+          progress: number | null;
+          targetValue?: number;
+          weight?: number;
         } | null,
         Name
       >;
@@ -1914,11 +3668,34 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           forecastValue?: number;
           indicatorExternalId: string;
           objectiveExternalId: string;
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           targetValue?: number;
           teamExternalId: string;
           updatedAt?: number;
+          weight?: number;
+        }>,
+        Name
+      >;
+      getLinkHubId: FunctionReference<
+        "query",
+        "internal",
+        { externalId: string },
+        string | null,
+        Name
+      >;
+      getLinkHubMappings: FunctionReference<
+        "query",
+        "internal",
+        { externalIds: Array<string> },
+        Array<{
+          entityType: string;
+          externalId: string;
+          firstSyncedAt: number;
+          lastSyncedAt: number;
+          linkHubId: string;
         }>,
         Name
       >;
@@ -1934,14 +3711,38 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           description: string;
           externalId: string;
           metadata?: any;
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           title: string;
           updatedAt?: number;
         } | null,
         Name
       >;
+      getObjectiveProgress: FunctionReference<
+        "query",
+        "internal",
+        { externalId: string },
+        {
+          keyResults: Array<{
+            currentValue?: number;
+            currentValueDate?: number;
+            forecastProgress: number | null;
+            forecastValue?: number;
+            indicatorExternalId: string;
+            isReverse: boolean;
+            keyResultExternalId: string;
+            progress: number | null;
+            targetValue?: number;
+            weight?: number;
+          }>;
+          objectiveExternalId: string;
+          progress: number | null;
+        } | null,
+        Name
+      >;
       getObjectivesByTeam: FunctionReference<
         "query",
         "internal",
@@ -1953,14 +3754,267 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           deletedAt?: number;
           description: string;
           externalId: string;
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           title: string;
           updatedAt?: number;
         }>,
         Name
       >;
+      getOkrTree: FunctionReference<
+        "query",
+        "internal",
+        {
+          depth?: number;
+          fields?: Record<string, Array<string>>;
+          teamExternalId: string;
+        },
+        Array<{
+          keyResults?: Array<{
+            indicator: {
+              indicator: {
+                _creationTime?: number;
+                _id?: string;
+                companyExternalId?: string;
+                createdAt?: number;
+                deletedAt?: number;
+                description?: string;
+                externalId: string;
+                isReverse?: boolean;
+                metadata?: any;
+                periodicity?:
+                  | "weekly"
+                  | "monthly"
+                  | "quarterly"
+                  | "semesterly"
+                  | "yearly";
+                remoteRevision?: number;
+                revision?: number;
+                slug?: string;
+                symbol?: string;
+                syncStatus?: "pending" | "synced" | "failed" | "conflict";
+              };
+              latestForecast: {
+                _creationTime?: number;
+                _id?: string;
+                createdAt?: number;
+                date?: number;
+                deletedAt?: number;
+                externalId: string;
+                indicatorExternalId?: string;
+                remoteRevision?: number;
+                revision?: number;
+                syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                value?: number;
+              } | null;
+              latestValue: {
+                _creationTime?: number;
+                _id?: string;
+                createdAt?: number;
+                date?: number;
+                deletedAt?: number;
+                externalId: string;
+                indicatorExternalId?: string;
+                remoteRevision?: number;
+                revision?: number;
+                syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                value?: number;
+              } | null;
+              milestones: Array<{
+                _creationTime?: number;
+                _id?: string;
+                achievedAt?: number;
+                createdAt?: number;
+                deletedAt?: number;
+                description?: string;
+                externalId: string;
+                forecastDate?: number;
+                indicatorExternalId?: string;
+                remoteRevision?: number;
+                revision?: number;
+                slug?: string;
+                status?:
+                  | "ON_TIME"
+                  | "OVERDUE"
+                  | "ACHIEVED_ON_TIME"
+                  | "ACHIEVED_LATE";
+                syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                updatedAt?: number;
+                value?: number;
+              }>;
+            } | null;
+            keyResult: {
+              _creationTime?: number;
+              _id?: string;
+              createdAt?: number;
+              deletedAt?: number;
+              externalId: string;
+              forecastValue?: number;
+              indicatorExternalId?: string;
+              metadata?: any;
+              objectiveExternalId?: string;
+              remoteRevision?: number;
+              revision?: number;
+              slug?: string;
+              syncStatus?: "pending" | "synced" | "failed" | "conflict";
+              targetValue?: number;
+              teamExternalId?: string;
+              updatedAt?: number;
+              weight?: number;
+            };
+            risks?: Array<{
+              initiatives?: Array<{
+                _creationTime?: number;
+                _id?: string;
+                assigneeExternalId?: string;
+                createdAt?: number;
+                createdByExternalId?: string;
+                deletedAt?: number;
+                description?: string;
+                dueDate?: number;
+                externalId: string;
+                finishedAt?: number;
+                metadata?: any;
+                priority?: "lowest" | "low" | "medium" | "high" | "highest";
+                remoteRevision?: number;
+                revision?: number;
+                riskExternalId?: string;
+                slug?: string;
+                status?: "ON_TIME" | "OVERDUE" | "FINISHED";
+                syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                teamExternalId?: string;
+                updatedAt?: number;
+              }>;
+              risk: {
+                _creationTime?: number;
+                _id?: string;
+                createdAt?: number;
+                deletedAt?: number;
+                description?: string;
+                externalId: string;
+                indicatorExternalId?: string;
+                isRed?: boolean;
+                keyResultExternalId?: string;
+                metadata?: any;
+                priority?: "lowest" | "low" | "medium" | "high" | "highest";
+                remoteRevision?: number;
+                revision?: number;
+                slug?: string;
+                syncStatus?: "pending" | "synced" | "failed" | "conflict";
+                teamExternalId?: string;
+                triggerValue?: number;
+                triggeredIfLower?: boolean;
+                useForecastAsTrigger?: boolean;
+              };
+            }>;
+          }>;
+          objective: {
+            _creationTime?: number;
+            _id?: string;
+            createdAt?: number;
+            deletedAt?: number;
+            description?: string;
+            externalId: string;
+            metadata?: any;
+            remoteRevision?: number;
+            revision?: number;
+            slug?: string;
+            syncStatus?: "pending" | "synced" | "failed" | "conflict";
+            teamExternalId?: string;
+            title?: string;
+            updatedAt?: number;
+          };
+        }>,
+        Name
+      >;
+      getOrphanedEntities: FunctionReference<
+        "query",
+        "internal",
+        {
+          entityType?: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            entityType: string;
+            externalId: string;
+            parentEntityType: string;
+            parentExternalId: string;
+            reason: "missing" | "deleted";
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      getOverdueInitiativesByAssignee: FunctionReference<
+        "query",
+        "internal",
+        { assigneeExternalId: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          assigneeExternalId: string;
+          createdAt: number;
+          createdByExternalId: string;
+          deletedAt?: number;
+          description: string;
+          dueDate?: number;
+          externalId: string;
+          finishedAt?: number;
+          metadata?: any;
+          priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
+          riskExternalId: string;
+          slug: string;
+          status: "ON_TIME" | "OVERDUE" | "FINISHED";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
+          teamExternalId: string;
+          updatedAt?: number;
+        }>,
+        Name
+      >;
+      getOverdueInitiativesByTeam: FunctionReference<
+        "query",
+        "internal",
+        { teamExternalId: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          assigneeExternalId: string;
+          createdAt: number;
+          createdByExternalId: string;
+          deletedAt?: number;
+          description: string;
+          dueDate?: number;
+          externalId: string;
+          finishedAt?: number;
+          metadata?: any;
+          priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
+          riskExternalId: string;
+          slug: string;
+          status: "ON_TIME" | "OVERDUE" | "FINISHED";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
+          teamExternalId: string;
+          updatedAt?: number;
+        }>,
+        Name
+      >;
       getPendingSyncItems: FunctionReference<
         "query",
         "internal",
@@ -1969,11 +4023,23 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           _creationTime: number;
           _id: string;
           attempts: number;
+          blockedBy?: string;
+          coalescedCount?: number;
           createdAt: number;
           entityType: string;
           errorMessage?: string;
           externalId: string;
           lastAttemptAt?: number;
+          lastError?: {
+            code?: string;
+            fieldErrors?: Array<{ field: string; message: string }>;
+            httpStatus?: number;
+            message: string;
+            retryable: boolean;
+          };
+          nextAttemptAt?: number;
+          operation?: "upsert" | "delete" | "restore" | "patch";
+          reclaimCount?: number;
           status: string;
         }>,
         Name
@@ -1994,8 +4060,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           keyResultExternalId: string;
           metadata?: any;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           triggerValue?: number;
           triggeredIfLower?: boolean;
@@ -2018,8 +4086,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           isRed?: boolean;
           keyResultExternalId: string;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           triggerValue?: number;
           triggeredIfLower?: boolean;
@@ -2043,8 +4113,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           keyResultExternalId: string;
           metadata?: any;
           priority: "lowest" | "low" | "medium" | "high" | "highest";
+          remoteRevision?: number;
+          revision?: number;
           slug: string;
-          syncStatus: "pending" | "synced" | "failed";
+          syncStatus: "pending" | "synced" | "failed" | "conflict";
           teamExternalId: string;
           triggerValue?: number;
           triggeredIfLower?: boolean;
@@ -2052,58 +4124,499 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         }>,
         Name
       >;
-      processSyncQueue: FunctionReference<
-        "action",
+      getRiskTriggerEvents: FunctionReference<
+        "query",
         "internal",
-        {
-          apiKeyPrefix?: string;
-          batchSize?: number;
-          endpointUrl?: string;
-          signingSecret?: string;
-        },
-        { failed: number; processed: number; succeeded: number },
+        { limit?: number; riskExternalId: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          indicatorExternalId: string;
+          isRed: boolean;
+          riskExternalId: string;
+          source: "value" | "forecast";
+          sourceExternalId: string;
+          triggerValue: number;
+          triggeredAt: number;
+          triggeredIfLower: boolean;
+          value: number;
+        }>,
         Name
       >;
-      updateIndicator: FunctionReference<
-        "mutation",
+      getSyncState: FunctionReference<
+        "query",
         "internal",
+        {},
         {
-          description?: string;
-          externalId: string;
-          isReverse?: boolean;
-          metadata?: any;
-          periodicity?:
-            | "weekly"
-            | "monthly"
-            | "quarterly"
-            | "semesterly"
-            | "yearly";
-          symbol?: string;
-        },
-        {
-          error?: string;
-          externalId: string;
-          queueId?: string;
-          success: boolean;
+          autoSyncEnabled: boolean;
+          configured: boolean;
+          paused: boolean;
+          pausedEntityTypes: Array<string>;
         },
         Name
       >;
-      updateIndicatorForecast: FunctionReference<
-        "mutation",
+      getTeamHistory: FunctionReference<
+        "query",
         "internal",
-        { date?: number; externalId: string; value?: number },
         {
-          error?: string;
-          externalId: string;
-          queueId?: string;
-          success: boolean;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          teamExternalId: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            action: "create" | "update" | "delete" | "restore";
+            actor?: string;
+            after?: any;
+            before?: any;
+            changedAt: number;
+            entityType: string;
+            externalId: string;
+            sourceUrl?: string;
+            teamExternalId?: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
         },
         Name
       >;
-      updateIndicatorValue: FunctionReference<
-        "mutation",
+      listDeadLetters: FunctionReference<
+        "query",
+        "internal",
+        { entityType?: string; limit?: number },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          attempts: number;
+          deadLetteredAt: number;
+          entityType: string;
+          errors: Array<{
+            attemptedAt: number;
+            httpStatus?: number;
+            message: string;
+          }>;
+          externalId: string;
+          lastHttpStatus?: number;
+          operation?: "upsert" | "delete" | "restore" | "patch";
+          payload: string;
+          queuedAt: number;
+        }>,
+        Name
+      >;
+      listFailedSyncItems: FunctionReference<
+        "query",
+        "internal",
+        { entityType?: string; limit?: number },
+        Array<{
+          _id: string;
+          attempts: number;
+          createdAt: number;
+          entityType: string;
+          externalId: string;
+          lastAttemptAt?: number;
+          lastError?: {
+            code?: string;
+            fieldErrors?: Array<{ field: string; message: string }>;
+            httpStatus?: number;
+            message: string;
+            retryable: boolean;
+          };
+          operation?: "upsert" | "delete" | "restore" | "patch";
+          payload: string;
+        }>,
+        Name
+      >;
+      listSyncConflicts: FunctionReference<
+        "query",
+        "internal",
+        { entityType?: string; limit?: number },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          baseRevision?: number;
+          detectedAt: number;
+          entityType: string;
+          externalId: string;
+          localPayload: string;
+          operation?: "upsert" | "delete" | "restore" | "patch";
+          queuedAt: number;
+          remotePayload: string;
+          remoteRevision?: number;
+        }>,
+        Name
+      >;
+      pauseSync: FunctionReference<
+        "mutation",
+        "internal",
+        { entityTypes?: Array<string> },
+        null,
+        Name
+      >;
+      processSyncQueue: FunctionReference<
+        "action",
+        "internal",
+        {
+          apiKeyPrefix?: string;
+          batchSize?: number;
+          endpointUrl?: string;
+          selfSchedule?: boolean;
+          signingSecret?: string;
+        },
+        {
+          circuitOpen?: boolean;
+          failed: number;
+          processed: number;
+          succeeded: number;
+        },
+        Name
+      >;
+      purgeDeadLetter: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string },
+        { error?: string; success: boolean },
+        Name
+      >;
+      purgeDeadLetters: FunctionReference<
+        "mutation",
+        "internal",
+        { entityType?: string; limit?: number; olderThan?: number },
+        { hasMore: boolean; purged: number },
+        Name
+      >;
+      receiveLinkHubWebhook: FunctionReference<
+        "action",
+        "internal",
+        {
+          body: string;
+          signature: string;
+          signingSecret?: string;
+          timestamp: string;
+        },
+        {
+          applied: number;
+          error?: string;
+          ignored: number;
+          status: number;
+          success: boolean;
+        },
+        Name
+      >;
+      reconcile: FunctionReference<
+        "action",
+        "internal",
+        {
+          apiKeyPrefix?: string;
+          endpointUrl?: string;
+          entityTypes?: Array<string>;
+          requeueLocalWinners?: boolean;
+          signingSecret?: string;
+          sourceApp?: string;
+        },
+        {
+          checkedAt: number;
+          divergent: Array<{
+            entityType: string;
+            externalId: string;
+            fields: Array<string>;
+          }>;
+          entityTypes: Array<string>;
+          errors: Array<string>;
+          missingLocally: Array<{
+            deletedLocally: boolean;
+            entityType: string;
+            externalId: string;
+          }>;
+          missingRemotely: Array<{ entityType: string; externalId: string }>;
+          requeued: number;
+          success: boolean;
+        },
+        Name
+      >;
+      replayDeadLetter: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string },
+        { error?: string; queueId?: string; success: boolean },
+        Name
+      >;
+      replayDeadLetters: FunctionReference<
+        "mutation",
+        "internal",
+        { entityType?: string; limit?: number },
+        { hasMore: boolean; replayed: number },
+        Name
+      >;
+      replayFailedSyncItem: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string },
+        { error?: string; queueId?: string; success: boolean },
+        Name
+      >;
+      replayFailedSyncItems: FunctionReference<
+        "mutation",
+        "internal",
+        { entityType?: string; limit?: number },
+        { hasMore: boolean; replayed: number },
+        Name
+      >;
+      resolveConflictKeepLocal: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string },
+        { error?: string; queueId?: string; success: boolean },
+        Name
+      >;
+      resolveConflictMerge: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string; remoteFields: Array<string> },
+        { error?: string; queueId?: string; success: boolean },
+        Name
+      >;
+      resolveConflictTakeRemote: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string },
+        { error?: string; queueId?: string; success: boolean },
+        Name
+      >;
+      restoreIndicator: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          restoreChildren?: boolean;
+          sourceUrl?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          restoredCount?: number;
+          success: boolean;
+        },
+        Name
+      >;
+      restoreIndicatorForecast: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          restoreChildren?: boolean;
+          sourceUrl?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          restoredCount?: number;
+          success: boolean;
+        },
+        Name
+      >;
+      restoreIndicatorValue: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          restoreChildren?: boolean;
+          sourceUrl?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          restoredCount?: number;
+          success: boolean;
+        },
+        Name
+      >;
+      restoreInitiative: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          restoreChildren?: boolean;
+          sourceUrl?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          restoredCount?: number;
+          success: boolean;
+        },
+        Name
+      >;
+      restoreKeyResult: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          restoreChildren?: boolean;
+          sourceUrl?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          restoredCount?: number;
+          success: boolean;
+        },
+        Name
+      >;
+      restoreMilestone: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          restoreChildren?: boolean;
+          sourceUrl?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          restoredCount?: number;
+          success: boolean;
+        },
+        Name
+      >;
+      restoreObjective: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          restoreChildren?: boolean;
+          sourceUrl?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          restoredCount?: number;
+          success: boolean;
+        },
+        Name
+      >;
+      restoreRisk: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          externalId: string;
+          restoreChildren?: boolean;
+          sourceUrl?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          restoredCount?: number;
+          success: boolean;
+        },
+        Name
+      >;
+      resumeSync: FunctionReference<
+        "mutation",
+        "internal",
+        { entityTypes?: Array<string> },
+        null,
+        Name
+      >;
+      searchOkr: FunctionReference<
+        "query",
+        "internal",
+        {
+          includeDeleted?: boolean;
+          limit?: number;
+          query: string;
+          teamExternalId?: string;
+        },
+        Array<{
+          deletedAt?: number;
+          description: string;
+          entityType: string;
+          externalId: string;
+          score: number;
+          teamExternalId?: string;
+          title?: string;
+        }>,
+        Name
+      >;
+      updateIndicator: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          description?: string;
+          externalId: string;
+          isReverse?: boolean;
+          metadata?: any;
+          periodicity?:
+            | "weekly"
+            | "monthly"
+            | "quarterly"
+            | "semesterly"
+            | "yearly";
+          sourceUrl?: string;
+          symbol?: string;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      updateIndicatorForecast: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actor?: string;
+          date?: number;
+          externalId: string;
+          sourceUrl?: string;
+          value?: number;
+        },
+        {
+          error?: string;
+          externalId: string;
+          queueId?: string;
+          success: boolean;
+        },
+        Name
+      >;
+      updateIndicatorValue: FunctionReference<
+        "mutation",
         "internal",
-        { date?: number; externalId: string; value?: number },
+        {
+          actor?: string;
+          date?: number;
+          externalId: string;
+          sourceUrl?: string;
+          value?: number;
+        },
         {
           error?: string;
           externalId: string;
@@ -2116,13 +4629,16 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           assigneeExternalId?: string;
           description?: string;
+          dueDate?: number;
           externalId: string;
           finishedAt?: number;
           metadata?: any;
           priority?: "lowest" | "low" | "medium" | "high" | "highest";
           riskExternalId?: string;
+          sourceUrl?: string;
           status?: "ON_TIME" | "OVERDUE" | "FINISHED";
         },
         {
@@ -2137,10 +4653,12 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           externalId: string;
           forecastValue?: number;
           metadata?: any;
           objectiveExternalId?: string;
+          sourceUrl?: string;
           targetValue?: number;
         },
         {
@@ -2156,9 +4674,11 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           achievedAt?: number;
+          actor?: string;
           description?: string;
           externalId: string;
           forecastDate?: number;
+          sourceUrl?: string;
           status?: "ON_TIME" | "OVERDUE" | "ACHIEVED_ON_TIME" | "ACHIEVED_LATE";
           value?: number;
         },
@@ -2174,9 +4694,11 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           description?: string;
           externalId: string;
           metadata?: any;
+          sourceUrl?: string;
           title?: string;
         },
         {
@@ -2191,6 +4713,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          actor?: string;
           description?: string;
           externalId: string;
           indicatorExternalId?: string;
@@ -2198,6 +4721,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           keyResultExternalId?: string;
           metadata?: any;
           priority?: "lowest" | "low" | "medium" | "high" | "highest";
+          sourceUrl?: string;
           triggerValue?: number;
           triggeredIfLower?: boolean;
           useForecastAsTrigger?: boolean;
@@ -2212,7 +4736,195 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       >;
     };
     sync: {
+      circuitBreaker: {
+        getCircuitState: FunctionReference<
+          "query",
+          "internal",
+          {},
+          {
+            consecutiveFailures: number;
+            openedAt?: number;
+            retryAt?: number;
+            state: "closed" | "open" | "half_open";
+          },
+          Name
+        >;
+      };
+      conflicts: {
+        listSyncConflicts: FunctionReference<
+          "query",
+          "internal",
+          { entityType?: string; limit?: number },
+          Array<{
+            _creationTime: number;
+            _id: string;
+            baseRevision?: number;
+            detectedAt: number;
+            entityType: string;
+            externalId: string;
+            localPayload: string;
+            operation?: "upsert" | "delete" | "restore" | "patch";
+            queuedAt: number;
+            remotePayload: string;
+            remoteRevision?: number;
+          }>,
+          Name
+        >;
+        resolveConflictKeepLocal: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+        resolveConflictMerge: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string; remoteFields: Array<string> },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+        resolveConflictTakeRemote: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+      };
+      deadLetters: {
+        listDeadLetters: FunctionReference<
+          "query",
+          "internal",
+          { entityType?: string; limit?: number },
+          Array<{
+            _creationTime: number;
+            _id: string;
+            attempts: number;
+            deadLetteredAt: number;
+            entityType: string;
+            errors: Array<{
+              attemptedAt: number;
+              httpStatus?: number;
+              message: string;
+            }>;
+            externalId: string;
+            lastHttpStatus?: number;
+            operation?: "upsert" | "delete" | "restore" | "patch";
+            payload: string;
+            queuedAt: number;
+          }>,
+          Name
+        >;
+        purgeDeadLetter: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; success: boolean },
+          Name
+        >;
+        purgeDeadLetters: FunctionReference<
+          "mutation",
+          "internal",
+          { entityType?: string; limit?: number; olderThan?: number },
+          { hasMore: boolean; purged: number },
+          Name
+        >;
+        replayDeadLetter: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+        replayDeadLetters: FunctionReference<
+          "mutation",
+          "internal",
+          { entityType?: string; limit?: number },
+          { hasMore: boolean; replayed: number },
+          Name
+        >;
+      };
+      failedItems: {
+        discardFailedSyncItem: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; success: boolean },
+          Name
+        >;
+        discardFailedSyncItems: FunctionReference<
+          "mutation",
+          "internal",
+          { entityType?: string; limit?: number },
+          { discarded: number; hasMore: boolean },
+          Name
+        >;
+        listFailedSyncItems: FunctionReference<
+          "query",
+          "internal",
+          { entityType?: string; limit?: number },
+          Array<{
+            _id: string;
+            attempts: number;
+            createdAt: number;
+            entityType: string;
+            externalId: string;
+            lastAttemptAt?: number;
+            lastError?: {
+              code?: string;
+              fieldErrors?: Array<{ field: string; message: string }>;
+              httpStatus?: number;
+              message: string;
+              retryable: boolean;
+            };
+            operation?: "upsert" | "delete" | "restore" | "patch";
+            payload: string;
+          }>,
+          Name
+        >;
+        replayFailedSyncItem: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+        replayFailedSyncItems: FunctionReference<
+          "mutation",
+          "internal",
+          { entityType?: string; limit?: number },
+          { hasMore: boolean; replayed: number },
+          Name
+        >;
+      };
       http: {
+        getMyTeams: FunctionReference<
+          "action",
+          "internal",
+          {
+            apiKeyPrefix: string;
+            email: string;
+            endpointUrl: string;
+            signingSecret: string;
+          },
+          {
+            circuitOpen?: boolean;
+            error?: string;
+            httpStatus?: number;
+            message?: string;
+            retryAt?: number;
+            success: boolean;
+            teams: Array<{
+              externalId?: string;
+              id: string;
+              name: string;
+              slug: string;
+              type: string;
+            }>;
+          },
+          Name
+        >;
         sendBatchToLinkHub: FunctionReference<
           "action",
           "internal",
@@ -2223,15 +4935,34 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             signingSecret: string;
           },
           {
+            circuitOpen?: boolean;
             errors: Array<string>;
+            httpStatus?: number;
             results: Array<{
               action?: "create" | "update";
+              conflict?: { remotePayload: string; remoteRevision?: number };
               entityType: string;
               error?: string;
               externalId: string;
               linkHubId?: string;
+              revision?: number;
+              syncError?: {
+                code?: string;
+                fieldErrors?: Array<{ field: string; message: string }>;
+                httpStatus?: number;
+                message: string;
+                retryable: boolean;
+              };
             }>;
+            retryAt?: number;
             success: boolean;
+            syncError?: {
+              code?: string;
+              fieldErrors?: Array<{ field: string; message: string }>;
+              httpStatus?: number;
+              message: string;
+              retryable: boolean;
+            };
           },
           Name
         >;
@@ -2242,20 +4973,151 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             apiKeyPrefix: string;
             endpointUrl: string;
             entityType: string;
+            operation?: "upsert" | "delete" | "restore" | "patch";
             payload: string;
             signingSecret: string;
           },
           {
             action?: "create" | "update";
+            circuitOpen?: boolean;
+            conflict?: { remotePayload: string; remoteRevision?: number };
             error?: string;
             externalId: string;
+            httpStatus?: number;
             linkHubId?: string;
+            retryAt?: number;
+            revision?: number;
+            success: boolean;
+            syncError?: {
+              code?: string;
+              fieldErrors?: Array<{ field: string; message: string }>;
+              httpStatus?: number;
+              message: string;
+              retryable: boolean;
+            };
+          },
+          Name
+        >;
+      };
+      inbound: {
+        receiveLinkHubWebhook: FunctionReference<
+          "action",
+          "internal",
+          {
+            body: string;
+            signature: string;
+            signingSecret?: string;
+            timestamp: string;
+          },
+          {
+            applied: number;
+            error?: string;
+            ignored: number;
+            status: number;
             success: boolean;
           },
           Name
         >;
       };
       index: {
+        discardFailedSyncItem: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; success: boolean },
+          Name
+        >;
+        discardFailedSyncItems: FunctionReference<
+          "mutation",
+          "internal",
+          { entityType?: string; limit?: number },
+          { discarded: number; hasMore: boolean },
+          Name
+        >;
+        drainNow: FunctionReference<
+          "action",
+          "internal",
+          {
+            apiKeyPrefix?: string;
+            batchSize?: number;
+            endpointUrl?: string;
+            signingSecret?: string;
+            timeBudgetMs?: number;
+          },
+          {
+            elapsedMs: number;
+            failed: number;
+            processed: number;
+            remaining: number;
+            runs: number;
+            stoppedBy:
+              | "drained"
+              | "held"
+              | "timeBudget"
+              | "paused"
+              | "circuitOpen";
+            succeeded: number;
+          },
+          Name
+        >;
+        getCircuitState: FunctionReference<
+          "query",
+          "internal",
+          {},
+          {
+            consecutiveFailures: number;
+            openedAt?: number;
+            retryAt?: number;
+            state: "closed" | "open" | "half_open";
+          },
+          Name
+        >;
+        getLinkHubId: FunctionReference<
+          "query",
+          "internal",
+          { externalId: string },
+          string | null,
+          Name
+        >;
+        getLinkHubMappings: FunctionReference<
+          "query",
+          "internal",
+          { externalIds: Array<string> },
+          Array<{
+            entityType: string;
+            externalId: string;
+            firstSyncedAt: number;
+            lastSyncedAt: number;
+            linkHubId: string;
+          }>,
+          Name
+        >;
+        getMyTeams: FunctionReference<
+          "action",
+          "internal",
+          {
+            apiKeyPrefix: string;
+            email: string;
+            endpointUrl: string;
+            signingSecret: string;
+          },
+          {
+            circuitOpen?: boolean;
+            error?: string;
+            httpStatus?: number;
+            message?: string;
+            retryAt?: number;
+            success: boolean;
+            teams: Array<{
+              externalId?: string;
+              id: string;
+              name: string;
+              slug: string;
+              type: string;
+            }>;
+          },
+          Name
+        >;
         getPendingSyncItems: FunctionReference<
           "query",
           "internal",
@@ -2264,15 +5126,92 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             _creationTime: number;
             _id: string;
             attempts: number;
+            blockedBy?: string;
+            coalescedCount?: number;
             createdAt: number;
             entityType: string;
             errorMessage?: string;
             externalId: string;
             lastAttemptAt?: number;
+            lastError?: {
+              code?: string;
+              fieldErrors?: Array<{ field: string; message: string }>;
+              httpStatus?: number;
+              message: string;
+              retryable: boolean;
+            };
+            nextAttemptAt?: number;
+            operation?: "upsert" | "delete" | "restore" | "patch";
+            reclaimCount?: number;
             status: string;
           }>,
           Name
         >;
+        listDeadLetters: FunctionReference<
+          "query",
+          "internal",
+          { entityType?: string; limit?: number },
+          Array<{
+            _creationTime: number;
+            _id: string;
+            attempts: number;
+            deadLetteredAt: number;
+            entityType: string;
+            errors: Array<{
+              attemptedAt: number;
+              httpStatus?: number;
+              message: string;
+            }>;
+            externalId: string;
+            lastHttpStatus?: number;
+            operation?: "upsert" | "delete" | "restore" | "patch";
+            payload: string;
+            queuedAt: number;
+          }>,
+          Name
+        >;
+        listFailedSyncItems: FunctionReference<
+          "query",
+          "internal",
+          { entityType?: string; limit?: number },
+          Array<{
+            _id: string;
+            attempts: number;
+            createdAt: number;
+            entityType: string;
+            externalId: string;
+            lastAttemptAt?: number;
+            lastError?: {
+              code?: string;
+              fieldErrors?: Array<{ field: string; message: string }>;
+              httpStatus?: number;
+              message: string;
+              retryable: boolean;
+            };
+            operation?: "upsert" | "delete" | "restore" | "patch";
+            payload: string;
+          }>,
+          Name
+        >;
+        listSyncConflicts: FunctionReference<
+          "query",
+          "internal",
+          { entityType?: string; limit?: number },
+          Array<{
+            _creationTime: number;
+            _id: string;
+            baseRevision?: number;
+            detectedAt: number;
+            entityType: string;
+            externalId: string;
+            localPayload: string;
+            operation?: "upsert" | "delete" | "restore" | "patch";
+            queuedAt: number;
+            remotePayload: string;
+            remoteRevision?: number;
+          }>,
+          Name
+        >;
         processSyncQueue: FunctionReference<
           "action",
           "internal",
@@ -2280,9 +5219,127 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             apiKeyPrefix?: string;
             batchSize?: number;
             endpointUrl?: string;
+            selfSchedule?: boolean;
+            signingSecret?: string;
+          },
+          {
+            circuitOpen?: boolean;
+            failed: number;
+            processed: number;
+            succeeded: number;
+          },
+          Name
+        >;
+        purgeDeadLetter: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; success: boolean },
+          Name
+        >;
+        purgeDeadLetters: FunctionReference<
+          "mutation",
+          "internal",
+          { entityType?: string; limit?: number; olderThan?: number },
+          { hasMore: boolean; purged: number },
+          Name
+        >;
+        receiveLinkHubWebhook: FunctionReference<
+          "action",
+          "internal",
+          {
+            body: string;
+            signature: string;
+            signingSecret?: string;
+            timestamp: string;
+          },
+          {
+            applied: number;
+            error?: string;
+            ignored: number;
+            status: number;
+            success: boolean;
+          },
+          Name
+        >;
+        reconcile: FunctionReference<
+          "action",
+          "internal",
+          {
+            apiKeyPrefix?: string;
+            endpointUrl?: string;
+            entityTypes?: Array<string>;
+            requeueLocalWinners?: boolean;
             signingSecret?: string;
+            sourceApp?: string;
+          },
+          {
+            checkedAt: number;
+            divergent: Array<{
+              entityType: string;
+              externalId: string;
+              fields: Array<string>;
+            }>;
+            entityTypes: Array<string>;
+            errors: Array<string>;
+            missingLocally: Array<{
+              deletedLocally: boolean;
+              entityType: string;
+              externalId: string;
+            }>;
+            missingRemotely: Array<{ entityType: string; externalId: string }>;
+            requeued: number;
+            success: boolean;
           },
-          { failed: number; processed: number; succeeded: number },
+          Name
+        >;
+        replayDeadLetter: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+        replayDeadLetters: FunctionReference<
+          "mutation",
+          "internal",
+          { entityType?: string; limit?: number },
+          { hasMore: boolean; replayed: number },
+          Name
+        >;
+        replayFailedSyncItem: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+        replayFailedSyncItems: FunctionReference<
+          "mutation",
+          "internal",
+          { entityType?: string; limit?: number },
+          { hasMore: boolean; replayed: number },
+          Name
+        >;
+        resolveConflictKeepLocal: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+        resolveConflictMerge: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string; remoteFields: Array<string> },
+          { error?: string; queueId?: string; success: boolean },
+          Name
+        >;
+        resolveConflictTakeRemote: FunctionReference<
+          "mutation",
+          "internal",
+          { id: string },
+          { error?: string; queueId?: string; success: boolean },
           Name
         >;
         sendBatchToLinkHub: FunctionReference<
@@ -2295,15 +5352,34 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             signingSecret: string;
           },
           {
+            circuitOpen?: boolean;
             errors: Array<string>;
+            httpStatus?: number;
             results: Array<{
               action?: "create" | "update";
+              conflict?: { remotePayload: string; remoteRevision?: number };
               entityType: string;
               error?: string;
               externalId: string;
               linkHubId?: string;
+              revision?: number;
+              syncError?: {
+                code?: string;
+                fieldErrors?: Array<{ field: string; message: string }>;
+                httpStatus?: number;
+                message: string;
+                retryable: boolean;
+              };
             }>;
+            retryAt?: number;
             success: boolean;
+            syncError?: {
+              code?: string;
+              fieldErrors?: Array<{ field: string; message: string }>;
+              httpStatus?: number;
+              message: string;
+              retryable: boolean;
+            };
           },
           Name
         >;
@@ -2314,20 +5390,81 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             apiKeyPrefix: string;
             endpointUrl: string;
             entityType: string;
+            operation?: "upsert" | "delete" | "restore" | "patch";
             payload: string;
             signingSecret: string;
           },
           {
             action?: "create" | "update";
+            circuitOpen?: boolean;
+            conflict?: { remotePayload: string; remoteRevision?: number };
             error?: string;
             externalId: string;
+            httpStatus?: number;
             linkHubId?: string;
+            retryAt?: number;
+            revision?: number;
             success: boolean;
+            syncError?: {
+              code?: string;
+              fieldErrors?: Array<{ field: string; message: string }>;
+              httpStatus?: number;
+              message: string;
+              retryable: boolean;
+            };
           },
           Name
         >;
       };
+      mappings: {
+        getLinkHubId: FunctionReference<
+          "query",
+          "internal",
+          { externalId: string },
+          string | null,
+          Name
+        >;
+        getLinkHubMappings: FunctionReference<
+          "query",
+          "internal",
+          { externalIds: Array<string> },
+          Array<{
+            entityType: string;
+            externalId: string;
+            firstSyncedAt: number;
+            lastSyncedAt: number;
+            linkHubId: string;
+          }>,
+          Name
+        >;
+      };
       processor: {
+        drainNow: FunctionReference<
+          "action",
+          "internal",
+          {
+            apiKeyPrefix?: string;
+            batchSize?: number;
+            endpointUrl?: string;
+            signingSecret?: string;
+            timeBudgetMs?: number;
+          },
+          {
+            elapsedMs: number;
+            failed: number;
+            processed: number;
+            remaining: number;
+            runs: number;
+            stoppedBy:
+              | "drained"
+              | "held"
+              | "timeBudget"
+              | "paused"
+              | "circuitOpen";
+            succeeded: number;
+          },
+          Name
+        >;
         processSyncQueue: FunctionReference<
           "action",
           "internal",
@@ -2335,9 +5472,15 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             apiKeyPrefix?: string;
             batchSize?: number;
             endpointUrl?: string;
+            selfSchedule?: boolean;
             signingSecret?: string;
           },
-          { failed: number; processed: number; succeeded: number },
+          {
+            circuitOpen?: boolean;
+            failed: number;
+            processed: number;
+            succeeded: number;
+          },
           Name
         >;
       };
@@ -2350,15 +5493,60 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             _creationTime: number;
             _id: string;
             attempts: number;
+            blockedBy?: string;
+            coalescedCount?: number;
             createdAt: number;
             entityType: string;
             errorMessage?: string;
             externalId: string;
             lastAttemptAt?: number;
+            lastError?: {
+              code?: string;
+              fieldErrors?: Array<{ field: string; message: string }>;
+              httpStatus?: number;
+              message: string;
+              retryable: boolean;
+            };
+            nextAttemptAt?: number;
+            operation?: "upsert" | "delete" | "restore" | "patch";
+            reclaimCount?: number;
             status: string;
           }>,
           Name
         >;
       };
+      reconcile: {
+        reconcile: FunctionReference<
+          "action",
+          "internal",
+          {
+            apiKeyPrefix?: string;
+            endpointUrl?: string;
+            entityTypes?: Array<string>;
+            requeueLocalWinners?: boolean;
+            signingSecret?: string;
+            sourceApp?: string;
+          },
+          {
+            checkedAt: number;
+            divergent: Array<{
+              entityType: string;
+              externalId: string;
+              fields: Array<string>;
+            }>;
+            entityTypes: Array<string>;
+            errors: Array<string>;
+            missingLocally: Array<{
+              deletedLocally: boolean;
+              entityType: string;
+              externalId: string;
+            }>;
+            missingRemotely: Array<{ entityType: string; externalId: string }>;
+            requeued: number;
+            success: boolean;
+          },
+          Name
+        >;
+      };
     };
   };
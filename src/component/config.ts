@@ -7,14 +7,23 @@
  */
 
 import { v } from "convex/values";
-import { mutation, internalQuery } from "./_generated/server.js";
+import { api } from "./_generated/api.js";
+import { mutation, query, internalQuery } from "./_generated/server.js";
+import { DEFAULT_CIRCUIT_BREAKER_POLICY } from "./lib/circuitBreaker.js";
+import { DEFAULT_RETRY_POLICY } from "./lib/retry.js";
+import { cancelHeartbeat, restartHeartbeat } from "./sync/heartbeat.js";
 
 /**
  * Upsert the component configuration.
  * Call this once during setup to store LinkHub connection details.
  * If config already exists, it will be updated.
- * `syncIntervalMs` is kept for backward compatibility, but the sync engine
- * now prefers event-driven drain mode (no periodic polling when idle).
+ * Processing is event-driven (drain mode); on top of that, while
+ * autoSyncEnabled is true a heartbeat checks for due items every
+ * `syncIntervalMs`. Every call restarts the heartbeat, or stops it when
+ * autoSync is disabled. The first call beats right away, so items queued
+ * before the component was configured are sent.
+ * The `retry*` fields control exponential backoff for failed sync items,
+ * the `circuit*` fields the circuit breaker around LinkHub calls.
  */
 export const configure = mutation({
   args: {
@@ -24,6 +33,12 @@ export const configure = mutation({
     autoSyncEnabled: v.optional(v.boolean()),
     syncIntervalMs: v.optional(v.number()),
     sourceApp: v.optional(v.string()),
+    retryMaxAttempts: v.optional(v.number()),
+    retryBaseDelayMs: v.optional(v.number()),
+    retryMaxDelayMs: v.optional(v.number()),
+    retryJitterRatio: v.optional(v.number()),
+    circuitFailureThreshold: v.optional(v.number()),
+    circuitCooldownMs: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -35,14 +50,25 @@ export const configure = mutation({
       autoSyncEnabled: args.autoSyncEnabled ?? true,
       syncIntervalMs: args.syncIntervalMs ?? 60000,
       sourceApp: args.sourceApp,
+      retryMaxAttempts: args.retryMaxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+      retryBaseDelayMs: args.retryBaseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+      retryMaxDelayMs: args.retryMaxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+      retryJitterRatio: args.retryJitterRatio ?? DEFAULT_RETRY_POLICY.jitterRatio,
+      circuitFailureThreshold:
+        args.circuitFailureThreshold ??
+        DEFAULT_CIRCUIT_BREAKER_POLICY.failureThreshold,
+      circuitCooldownMs:
+        args.circuitCooldownMs ?? DEFAULT_CIRCUIT_BREAKER_POLICY.cooldownMs,
       updatedAt: Date.now(),
     };
 
-    if (existing) {
-      await ctx.db.patch(existing._id, data);
+    let configId = existing?._id;
+    if (configId) {
+      await ctx.db.patch(configId, data);
     } else {
-      await ctx.db.insert("config", data);
+      configId = await ctx.db.insert("config", data);
     }
+    await restartHeartbeat(ctx, configId, { beatNow: !existing });
 
     return null;
   },
@@ -51,7 +77,6 @@ export const configure = mutation({
 /**
  * Internal query to read the stored configuration.
  * Used by processSyncQueue and other internal functions.
- * Note: `syncIntervalMs` is legacy compatibility metadata.
  */
 export const getConfig = internalQuery({
   args: {},
@@ -63,6 +88,14 @@ export const getConfig = internalQuery({
       autoSyncEnabled: v.boolean(),
       syncIntervalMs: v.number(),
       sourceApp: v.optional(v.string()),
+      retryMaxAttempts: v.optional(v.number()),
+      retryBaseDelayMs: v.optional(v.number()),
+      retryMaxDelayMs: v.optional(v.number()),
+      retryJitterRatio: v.optional(v.number()),
+      circuitFailureThreshold: v.optional(v.number()),
+      circuitCooldownMs: v.optional(v.number()),
+      syncPaused: v.optional(v.boolean()),
+      pausedEntityTypes: v.optional(v.array(v.string())),
     }),
     v.null()
   ),
@@ -76,12 +109,121 @@ export const getConfig = internalQuery({
       autoSyncEnabled: config.autoSyncEnabled,
       syncIntervalMs: config.syncIntervalMs,
       sourceApp: config.sourceApp,
+      retryMaxAttempts: config.retryMaxAttempts,
+      retryBaseDelayMs: config.retryBaseDelayMs,
+      retryMaxDelayMs: config.retryMaxDelayMs,
+      retryJitterRatio: config.retryJitterRatio,
+      circuitFailureThreshold: config.circuitFailureThreshold,
+      circuitCooldownMs: config.circuitCooldownMs,
+      syncPaused: config.syncPaused,
+      pausedEntityTypes: config.pausedEntityTypes,
+    };
+  },
+});
+
+// ============================================================================
+// PAUSE / RESUME
+// ============================================================================
+
+/**
+ * Pauses sync, for example during a LinkHub maintenance window. Without
+ * `entityTypes` everything is paused; with them, only those entity types.
+ * The queue keeps accepting items and the credentials are kept.
+ */
+export const pauseSync = mutation({
+  args: {
+    entityTypes: v.optional(v.array(v.string())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const config = await ctx.db.query("config").first();
+    if (!config) {
+      throw new Error("OKRHub not configured: call configure() first.");
+    }
+
+    if (args.entityTypes) {
+      const paused = new Set([
+        ...(config.pausedEntityTypes ?? []),
+        ...args.entityTypes,
+      ]);
+      await ctx.db.patch(config._id, { pausedEntityTypes: [...paused] });
+    } else {
+      await ctx.db.patch(config._id, { syncPaused: true });
+    }
+
+    console.log(
+      `[okrhub] sync paused entityTypes=${args.entityTypes?.join(",") ?? "all"}`
+    );
+    return null;
+  },
+});
+
+/**
+ * Resumes sync paused by pauseSync. Without `entityTypes` every pause is
+ * lifted; with them, only those entity types. With autoSyncEnabled, a
+ * processor run is started for the items queued in the meantime.
+ */
+export const resumeSync = mutation({
+  args: {
+    entityTypes: v.optional(v.array(v.string())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const config = await ctx.db.query("config").first();
+    if (!config) {
+      throw new Error("OKRHub not configured: call configure() first.");
+    }
+
+    const { entityTypes } = args;
+    if (entityTypes) {
+      await ctx.db.patch(config._id, {
+        pausedEntityTypes: (config.pausedEntityTypes ?? []).filter(
+          (entityType) => !entityTypes.includes(entityType)
+        ),
+      });
+    } else {
+      await ctx.db.patch(config._id, {
+        syncPaused: false,
+        pausedEntityTypes: [],
+      });
+    }
+
+    if (config.autoSyncEnabled) {
+      await ctx.scheduler.runAfter(0, api.sync.processor.processSyncQueue, {});
+    }
+
+    console.log(
+      `[okrhub] sync resumed entityTypes=${entityTypes?.join(",") ?? "all"}`
+    );
+    return null;
+  },
+});
+
+/**
+ * Reports whether sync is configured, enabled and paused
+ */
+export const getSyncState = query({
+  args: {},
+  returns: v.object({
+    configured: v.boolean(),
+    autoSyncEnabled: v.boolean(),
+    paused: v.boolean(),
+    pausedEntityTypes: v.array(v.string()),
+  }),
+  handler: async (ctx) => {
+    const config = await ctx.db.query("config").first();
+    return {
+      configured: config !== null,
+      autoSyncEnabled: config?.autoSyncEnabled ?? false,
+      paused: config?.syncPaused ?? false,
+      pausedEntityTypes: config?.pausedEntityTypes ?? [],
     };
   },
 });
 
 /**
  * Remove the stored configuration (for reset/cleanup).
+ * Also stops the heartbeat.
  */
 export const clearConfig = mutation({
   args: {},
@@ -89,6 +231,7 @@ export const clearConfig = mutation({
   handler: async (ctx) => {
     const existing = await ctx.db.query("config").first();
     if (existing) {
+      await cancelHeartbeat(ctx, existing);
       await ctx.db.delete(existing._id);
     }
     return null;
@@ -0,0 +1,34 @@
+/**
+ * Scheduled Jobs for OKRHub Component
+ */
+
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api.js";
+
+const crons = cronJobs();
+
+// Return sync queue items held by crashed processor runs to pending
+crons.interval(
+  "sweep expired sync leases",
+  { minutes: 5 },
+  internal.sync.queue.sweepExpiredLeases,
+  {}
+);
+
+// Move milestones to achieved or overdue as indicator values and dates move
+crons.interval(
+  "evaluate milestone statuses",
+  { hours: 1 },
+  internal.entities.milestoneStatus.evaluateMilestoneStatuses,
+  {}
+);
+
+// Move unfinished initiatives past their due date to OVERDUE
+crons.interval(
+  "mark overdue initiatives",
+  { hours: 1 },
+  internal.entities.initiativeStatus.markOverdueInitiatives,
+  {}
+);
+
+export default crons;
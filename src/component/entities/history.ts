@@ -0,0 +1,143 @@
+/**
+ * Entity History for OKRHub Component
+ *
+ * Audit trail written by the create*, update*, delete* and restore*
+ * mutations: who changed which fields of an entity, from where, and when.
+ * Unlike syncLog, which records successful sends, history records every
+ * local change as the user made it.
+ */
+
+import {
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
+import { v } from "convex/values";
+import type { Id } from "../_generated/dataModel.js";
+import { query, type MutationCtx } from "../_generated/server.js";
+import type {
+  LocalEntityDoc,
+  LocalEntityTable,
+  LocalEntityType,
+} from "../lib/entityTables.js";
+import { diffSnapshots } from "../lib/patches.js";
+import { HistoryActionSchema, type HistoryAction } from "../schema.js";
+
+/**
+ * Who made a change and from where, passed down by the mutations
+ */
+export type EntityAudit = {
+  actor?: string;
+  sourceUrl?: string;
+};
+
+// Row fields that track storage or sync state rather than entity values
+const BOOKKEEPING_FIELDS = [
+  "_id",
+  "_creationTime",
+  "syncStatus",
+  "revision",
+  "remoteRevision",
+  "updatedAt",
+];
+
+const entityHistoryValidator = v.object({
+  _id: v.id("entityHistory"),
+  _creationTime: v.number(),
+  entityType: v.string(),
+  externalId: v.string(),
+  teamExternalId: v.optional(v.string()),
+  action: HistoryActionSchema,
+  before: v.optional(v.any()),
+  after: v.optional(v.any()),
+  actor: v.optional(v.string()),
+  sourceUrl: v.optional(v.string()),
+  changedAt: v.number(),
+});
+
+function toHistoryValues(entity: LocalEntityDoc): Record<string, unknown> {
+  const values: Record<string, unknown> = { ...entity };
+  for (const field of BOOKKEEPING_FIELDS) {
+    delete values[field];
+  }
+  return values;
+}
+
+/**
+ * Records a change to an entity. `before` is the row as read before the
+ * change (null for a create); the row after the change is read back by
+ * id. Creates store every value, other actions only the changed fields.
+ */
+export async function recordEntityHistory(
+  ctx: MutationCtx,
+  entityType: LocalEntityType,
+  action: HistoryAction,
+  before: LocalEntityDoc | null,
+  entityId: Id<LocalEntityTable>,
+  audit: EntityAudit
+): Promise<void> {
+  const entity = await ctx.db.get(entityId);
+  if (!entity) {
+    return;
+  }
+
+  const after = toHistoryValues(entity);
+  const diff = before
+    ? diffSnapshots(entity.externalId, toHistoryValues(before), after)
+    : null;
+
+  await ctx.db.insert("entityHistory", {
+    entityType,
+    externalId: entity.externalId,
+    teamExternalId:
+      "teamExternalId" in entity ? entity.teamExternalId : undefined,
+    action,
+    before: diff?.previous,
+    after: diff ? diff.changes : after,
+    actor: audit.actor,
+    sourceUrl: audit.sourceUrl,
+    changedAt: Date.now(),
+  });
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Pages through the history of one entity, most recent first
+ */
+export const getEntityHistory = query({
+  args: {
+    externalId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(entityHistoryValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("entityHistory")
+      .withIndex("by_external_id", (q) => q.eq("externalId", args.externalId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Pages through the history of every entity that belongs to a team
+ * (objectives, key results, risks and initiatives), most recent first
+ */
+export const getTeamHistory = query({
+  args: {
+    teamExternalId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(entityHistoryValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("entityHistory")
+      .withIndex("by_team", (q) =>
+        q.eq("teamExternalId", args.teamExternalId)
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
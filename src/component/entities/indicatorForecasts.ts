@@ -5,11 +5,22 @@
  */
 
 import { v } from "convex/values";
-import { anyApi } from "convex/server";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
 import { mutation, query } from "../_generated/server.js";
 import { generateIndicatorTimeSeriesExternalId } from "../externalId.js";
 import { assertValidExternalId } from "../lib/validation.js";
-import { SyncStatusSchema } from "../schema.js";
+import { SyncStatusSchema, DeleteModeSchema } from "../schema.js";
+import {
+  deleteWithMode,
+  queueEntityUpdate,
+  restoreEntity,
+} from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
+import { evaluateRisksForIndicator } from "./riskTriggers.js";
 
 // ============================================================================
 // LOCAL CRUD MUTATIONS
@@ -25,6 +36,7 @@ export const createIndicatorForecast = mutation({
     indicatorExternalId: v.string(),
     value: v.number(),
     date: v.number(),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -90,6 +102,14 @@ export const createIndicatorForecast = mutation({
         syncStatus: "pending",
         createdAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "indicatorForecast",
+        "create",
+        null,
+        localId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       const payload = JSON.stringify({
         externalId,
@@ -109,6 +129,12 @@ export const createIndicatorForecast = mutation({
         }
       );
 
+      // The new forecast can turn risks on the indicator red, or back
+      await evaluateRisksForIndicator(ctx, indicatorExternalId, {
+        actor: args.actor,
+        sourceUrl: args.sourceUrl,
+      });
+
       return {
         success: true,
         externalId,
@@ -140,6 +166,176 @@ export const createIndicatorForecast = mutation({
 // UPDATE MUTATIONS
 // ============================================================================
 
+/**
+ * Soft-deletes an indicator forecast by setting deletedAt and queues a tombstone
+ * so LinkHub deletes it too.
+ * `mode` decides what happens to its children (default "orphan").
+ */
+export const deleteIndicatorForecast = mutation({
+  args: {
+    externalId: v.string(),
+    mode: v.optional(DeleteModeSchema),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    cascadedCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const indicatorForecast = await ctx.db
+        .query("indicatorForecasts")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!indicatorForecast) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator forecast not found: ${externalId}`,
+        };
+      }
+
+      // Already deleted: the tombstone was queued the first time
+      if (indicatorForecast.deletedAt !== undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await deleteWithMode(
+        ctx,
+        "indicatorForecast",
+        indicatorForecast,
+        args.mode ?? "orphan",
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      // Without this forecast an earlier one may be the latest again
+      await evaluateRisksForIndicator(ctx, indicatorForecast.indicatorExternalId, {
+        actor: args.actor,
+        sourceUrl: args.sourceUrl,
+      });
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        cascadedCount: result.cascadedCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
+/**
+ * Restores a soft-deleted indicator forecast and queues the restore for sync.
+ * With `restoreChildren`, children deleted in the same cascade come back too.
+ */
+export const restoreIndicatorForecast = mutation({
+  args: {
+    externalId: v.string(),
+    restoreChildren: v.optional(v.boolean()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    restoredCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const indicatorForecast = await ctx.db
+        .query("indicatorForecasts")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!indicatorForecast) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator forecast not found: ${externalId}`,
+        };
+      }
+
+      // Not deleted: nothing to restore
+      if (indicatorForecast.deletedAt === undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await restoreEntity(
+        ctx,
+        "indicatorForecast",
+        indicatorForecast,
+        args.restoreChildren ?? false,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      await evaluateRisksForIndicator(ctx, indicatorForecast.indicatorExternalId, {
+        actor: args.actor,
+        sourceUrl: args.sourceUrl,
+      });
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        restoredCount: result.restoredCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
 /**
  * Updates an indicator forecast locally and queues for sync
  * Resets syncStatus to "pending"
@@ -149,6 +345,8 @@ export const updateIndicatorForecast = mutation({
     externalId: v.string(),
     value: v.optional(v.number()),
     date: v.optional(v.number()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -174,6 +372,15 @@ export const updateIndicatorForecast = mutation({
         };
       }
 
+      // Restore it first: an update would re-send the deleted entity as live
+      if (indicatorForecast.deletedAt !== undefined) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator forecast is deleted: ${externalId}`,
+        };
+      }
+
       const now = Date.now();
 
       // Update the indicator forecast
@@ -182,6 +389,14 @@ export const updateIndicatorForecast = mutation({
         ...(date !== undefined && { date }),
         syncStatus: "pending",
       });
+      await recordEntityHistory(
+        ctx,
+        "indicatorForecast",
+        "update",
+        indicatorForecast,
+        indicatorForecast._id,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Create payload for sync with updated values
       const updatedIndicatorForecast = {
@@ -191,16 +406,13 @@ export const updateIndicatorForecast = mutation({
         date: date ?? indicatorForecast.date,
       };
 
-      const payload = JSON.stringify(updatedIndicatorForecast);
+      // Queue a patch, or the full payload while LinkHub lacks the entity
+      const queueId = await queueEntityUpdate(ctx, "indicatorForecast", indicatorForecast, updatedIndicatorForecast);
 
-      // Add to sync queue
-      const queueId = await ctx.runMutation(
-        (anyApi as any).sync.queue.addToSyncQueue,
-        {
-          entityType: "indicatorForecast",
-          externalId,
-          payload,
-        }
+      await evaluateRisksForIndicator(
+        ctx,
+        indicatorForecast.indicatorExternalId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
       );
 
       return {
@@ -238,9 +450,46 @@ export const getAllIndicatorForecasts = query({
       date: v.number(),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
-    return await ctx.db.query("indicatorForecasts").collect();
+    return await ctx.db
+      .query("indicatorForecasts")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .collect();
+  },
+});
+
+/**
+ * Pages through local indicator forecasts, excluding deleted ones.
+ * Index-backed, for use with usePaginatedQuery.
+ */
+export const getAllIndicatorForecastsPaginated = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("indicatorForecasts"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      indicatorExternalId: v.string(),
+      value: v.number(),
+      date: v.number(),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("indicatorForecasts")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(args.paginationOpts);
   },
 });
@@ -5,11 +5,22 @@
  */
 
 import { v } from "convex/values";
-import { anyApi } from "convex/server";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
 import { mutation, query } from "../_generated/server.js";
 import { generateIndicatorTimeSeriesExternalId } from "../externalId.js";
 import { assertValidExternalId } from "../lib/validation.js";
-import { SyncStatusSchema } from "../schema.js";
+import { SyncStatusSchema, DeleteModeSchema } from "../schema.js";
+import {
+  deleteWithMode,
+  queueEntityUpdate,
+  restoreEntity,
+} from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
+import { evaluateRisksForIndicator } from "./riskTriggers.js";
 
 // ============================================================================
 // LOCAL CRUD MUTATIONS
@@ -25,6 +36,7 @@ export const createIndicatorValue = mutation({
     indicatorExternalId: v.string(),
     value: v.number(),
     date: v.number(),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -90,6 +102,14 @@ export const createIndicatorValue = mutation({
         syncStatus: "pending",
         createdAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "indicatorValue",
+        "create",
+        null,
+        localId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       const payload = JSON.stringify({
         externalId,
@@ -109,6 +129,12 @@ export const createIndicatorValue = mutation({
         }
       );
 
+      // The new value can turn risks on the indicator red, or back
+      await evaluateRisksForIndicator(ctx, indicatorExternalId, {
+        actor: args.actor,
+        sourceUrl: args.sourceUrl,
+      });
+
       return {
         success: true,
         externalId,
@@ -151,10 +177,47 @@ export const getAllIndicatorValues = query({
       date: v.number(),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
-    return await ctx.db.query("indicatorValues").collect();
+    return await ctx.db
+      .query("indicatorValues")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .collect();
+  },
+});
+
+/**
+ * Pages through local indicator values, excluding deleted ones.
+ * Index-backed, for use with usePaginatedQuery.
+ */
+export const getAllIndicatorValuesPaginated = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("indicatorValues"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      indicatorExternalId: v.string(),
+      value: v.number(),
+      date: v.number(),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("indicatorValues")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(args.paginationOpts);
   },
 });
 
@@ -162,6 +225,176 @@ export const getAllIndicatorValues = query({
 // UPDATE MUTATIONS
 // ============================================================================
 
+/**
+ * Soft-deletes an indicator value by setting deletedAt and queues a tombstone
+ * so LinkHub deletes it too.
+ * `mode` decides what happens to its children (default "orphan").
+ */
+export const deleteIndicatorValue = mutation({
+  args: {
+    externalId: v.string(),
+    mode: v.optional(DeleteModeSchema),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    cascadedCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const indicatorValue = await ctx.db
+        .query("indicatorValues")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!indicatorValue) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator value not found: ${externalId}`,
+        };
+      }
+
+      // Already deleted: the tombstone was queued the first time
+      if (indicatorValue.deletedAt !== undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await deleteWithMode(
+        ctx,
+        "indicatorValue",
+        indicatorValue,
+        args.mode ?? "orphan",
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      // Without this value an earlier one may be the latest again
+      await evaluateRisksForIndicator(ctx, indicatorValue.indicatorExternalId, {
+        actor: args.actor,
+        sourceUrl: args.sourceUrl,
+      });
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        cascadedCount: result.cascadedCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
+/**
+ * Restores a soft-deleted indicator value and queues the restore for sync.
+ * With `restoreChildren`, children deleted in the same cascade come back too.
+ */
+export const restoreIndicatorValue = mutation({
+  args: {
+    externalId: v.string(),
+    restoreChildren: v.optional(v.boolean()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    restoredCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const indicatorValue = await ctx.db
+        .query("indicatorValues")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!indicatorValue) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator value not found: ${externalId}`,
+        };
+      }
+
+      // Not deleted: nothing to restore
+      if (indicatorValue.deletedAt === undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await restoreEntity(
+        ctx,
+        "indicatorValue",
+        indicatorValue,
+        args.restoreChildren ?? false,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      await evaluateRisksForIndicator(ctx, indicatorValue.indicatorExternalId, {
+        actor: args.actor,
+        sourceUrl: args.sourceUrl,
+      });
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        restoredCount: result.restoredCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
 /**
  * Updates an indicator value locally and queues for sync
  * Resets syncStatus to "pending"
@@ -171,6 +404,8 @@ export const updateIndicatorValue = mutation({
     externalId: v.string(),
     value: v.optional(v.number()),
     date: v.optional(v.number()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -196,6 +431,15 @@ export const updateIndicatorValue = mutation({
         };
       }
 
+      // Restore it first: an update would re-send the deleted entity as live
+      if (indicatorValue.deletedAt !== undefined) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator value is deleted: ${externalId}`,
+        };
+      }
+
       const now = Date.now();
 
       // Update the indicator value
@@ -204,6 +448,14 @@ export const updateIndicatorValue = mutation({
         ...(date !== undefined && { date }),
         syncStatus: "pending",
       });
+      await recordEntityHistory(
+        ctx,
+        "indicatorValue",
+        "update",
+        indicatorValue,
+        indicatorValue._id,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Create payload for sync with updated values
       const updatedIndicatorValue = {
@@ -213,16 +465,13 @@ export const updateIndicatorValue = mutation({
         date: date ?? indicatorValue.date,
       };
 
-      const payload = JSON.stringify(updatedIndicatorValue);
+      // Queue a patch, or the full payload while LinkHub lacks the entity
+      const queueId = await queueEntityUpdate(ctx, "indicatorValue", indicatorValue, updatedIndicatorValue);
 
-      // Add to sync queue
-      const queueId = await ctx.runMutation(
-        (anyApi as any).sync.queue.addToSyncQueue,
-        {
-          entityType: "indicatorValue",
-          externalId,
-          payload,
-        }
+      await evaluateRisksForIndicator(
+        ctx,
+        indicatorValue.indicatorExternalId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
       );
 
       return {
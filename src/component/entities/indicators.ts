@@ -5,14 +5,25 @@
  */
 
 import { v } from "convex/values";
-import { anyApi } from "convex/server";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
 import { mutation, query } from "../_generated/server.js";
 import { generateScopedDescriptionExternalId } from "../externalId.js";
 import { assertValidExternalId, generateSlug } from "../lib/validation.js";
 import {
   PeriodicitySchema,
   SyncStatusSchema,
+  DeleteModeSchema,
 } from "../schema.js";
+import {
+  deleteWithMode,
+  queueEntityUpdate,
+  restoreEntity,
+} from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
 
 // ============================================================================
 // LOCAL CRUD MUTATIONS
@@ -31,6 +42,7 @@ export const createIndicator = mutation({
     periodicity: PeriodicitySchema,
     isReverse: v.optional(v.boolean()),
     metadata: v.optional(v.any()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -91,6 +103,14 @@ export const createIndicator = mutation({
         syncStatus: "pending",
         createdAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "indicator",
+        "create",
+        null,
+        localId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       const payload = JSON.stringify({
         externalId,
@@ -158,20 +178,216 @@ export const getAllIndicators = query({
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
     return await ctx.db
       .query("indicators")
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
       .collect();
   },
 });
 
+/**
+ * Pages through local indicators, excluding deleted ones.
+ * Index-backed, for use with usePaginatedQuery.
+ */
+export const getAllIndicatorsPaginated = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("indicators"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      companyExternalId: v.string(),
+      description: v.string(),
+      symbol: v.string(),
+      periodicity: PeriodicitySchema,
+      isReverse: v.optional(v.boolean()),
+      slug: v.string(),
+      metadata: v.optional(v.any()),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("indicators")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(args.paginationOpts);
+  },
+});
+
 // ============================================================================
 // UPDATE MUTATIONS
 // ============================================================================
 
+/**
+ * Soft-deletes an indicator by setting deletedAt and queues a tombstone
+ * so LinkHub deletes it too.
+ * `mode` decides what happens to its children (default "orphan").
+ */
+export const deleteIndicator = mutation({
+  args: {
+    externalId: v.string(),
+    mode: v.optional(DeleteModeSchema),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    cascadedCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const indicator = await ctx.db
+        .query("indicators")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!indicator) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator not found: ${externalId}`,
+        };
+      }
+
+      // Already deleted: the tombstone was queued the first time
+      if (indicator.deletedAt !== undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await deleteWithMode(
+        ctx,
+        "indicator",
+        indicator,
+        args.mode ?? "orphan",
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        cascadedCount: result.cascadedCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
+/**
+ * Restores a soft-deleted indicator and queues the restore for sync.
+ * With `restoreChildren`, children deleted in the same cascade come back too.
+ */
+export const restoreIndicator = mutation({
+  args: {
+    externalId: v.string(),
+    restoreChildren: v.optional(v.boolean()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    restoredCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const indicator = await ctx.db
+        .query("indicators")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!indicator) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator not found: ${externalId}`,
+        };
+      }
+
+      // Not deleted: nothing to restore
+      if (indicator.deletedAt === undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await restoreEntity(
+        ctx,
+        "indicator",
+        indicator,
+        args.restoreChildren ?? false,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        restoredCount: result.restoredCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
 /**
  * Updates an indicator locally and queues for sync
  * Resets syncStatus to "pending"
@@ -184,6 +400,8 @@ export const updateIndicator = mutation({
     periodicity: v.optional(PeriodicitySchema),
     isReverse: v.optional(v.boolean()),
     metadata: v.optional(v.any()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -215,6 +433,15 @@ export const updateIndicator = mutation({
         };
       }
 
+      // Restore it first: an update would re-send the deleted entity as live
+      if (indicator.deletedAt !== undefined) {
+        return {
+          success: false,
+          externalId,
+          error: `Indicator is deleted: ${externalId}`,
+        };
+      }
+
       const now = Date.now();
 
       // Update the indicator
@@ -226,6 +453,14 @@ export const updateIndicator = mutation({
         ...(args.metadata !== undefined && { metadata: args.metadata }),
         syncStatus: "pending",
       });
+      await recordEntityHistory(
+        ctx,
+        "indicator",
+        "update",
+        indicator,
+        indicator._id,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Create payload for sync with updated values
       const updatedIndicator = {
@@ -237,17 +472,8 @@ export const updateIndicator = mutation({
         isReverse: isReverse ?? indicator.isReverse,
       };
 
-      const payload = JSON.stringify(updatedIndicator);
-
-      // Add to sync queue
-      const queueId = await ctx.runMutation(
-        (anyApi as any).sync.queue.addToSyncQueue,
-        {
-          entityType: "indicator",
-          externalId,
-          payload,
-        }
-      );
+      // Queue a patch, or the full payload while LinkHub lacks the entity
+      const queueId = await queueEntityUpdate(ctx, "indicator", indicator, updatedIndicator);
 
       return {
         success: true,
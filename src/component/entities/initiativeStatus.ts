@@ -0,0 +1,76 @@
+/**
+ * Initiative Status for OKRHub Component
+ *
+ * Moves unfinished initiatives past their dueDate to OVERDUE. Run on a
+ * schedule from crons.ts; FINISHED is set by updateInitiative when
+ * finishedAt is set.
+ */
+
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server.js";
+import { buildEntitySnapshot, queueEntityUpdate } from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
+
+// ============================================================================
+// SCHEDULED EVALUATION
+// ============================================================================
+
+/**
+ * Marks ON_TIME initiatives whose dueDate has passed as OVERDUE and
+ * queues them for sync
+ */
+export const markOverdueInitiatives = internalMutation({
+  args: {},
+  returns: v.object({
+    updated: v.number(),
+  }),
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const due = await ctx.db
+      .query("initiatives")
+      .withIndex("by_status_due_date", (q) =>
+        q.eq("status", "ON_TIME").lt("dueDate", now)
+      )
+      .filter((q) =>
+        q.and(
+          q.neq(q.field("dueDate"), undefined),
+          q.eq(q.field("finishedAt"), undefined),
+          q.eq(q.field("deletedAt"), undefined)
+        )
+      )
+      .collect();
+
+    for (const initiative of due) {
+      await ctx.db.patch(initiative._id, {
+        status: "OVERDUE",
+        syncStatus: "pending",
+        updatedAt: now,
+      });
+      await recordEntityHistory(
+        ctx,
+        "initiative",
+        "update",
+        initiative,
+        initiative._id,
+        {}
+      );
+      await queueEntityUpdate(
+        ctx,
+        "initiative",
+        initiative,
+        buildEntitySnapshot(
+          "initiative",
+          { ...initiative, status: "OVERDUE" },
+          now
+        )
+      );
+    }
+
+    if (due.length > 0) {
+      console.log(`[okrhub] initiatives marked overdue=${due.length}`);
+    }
+
+    return { updated: due.length };
+  },
+});
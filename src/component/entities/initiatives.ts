@@ -5,7 +5,11 @@
  */
 
 import { v } from "convex/values";
-import { anyApi } from "convex/server";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
 import { mutation, query } from "../_generated/server.js";
 import { generateScopedDescriptionExternalId } from "../externalId.js";
 import { assertValidExternalId, generateSlug } from "../lib/validation.js";
@@ -14,7 +18,14 @@ import {
   PrioritySchema,
   InitiativeStatusSchema,
   SyncStatusSchema,
+  DeleteModeSchema,
 } from "../schema.js";
+import {
+  deleteWithMode,
+  queueEntityUpdate,
+  restoreEntity,
+} from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
 
 // ============================================================================
 // LOCAL CRUD MUTATIONS
@@ -36,7 +47,9 @@ export const createInitiative = mutation({
     status: v.optional(InitiativeStatusSchema), // Optional in input, default ON_TIME
     priority: PrioritySchema,
     finishedAt: v.optional(v.number()),
+    dueDate: v.optional(v.number()),
     metadata: v.optional(v.any()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -58,6 +71,7 @@ export const createInitiative = mutation({
       status,
       priority,
       finishedAt,
+      dueDate,
     } = args;
 
     try {
@@ -108,6 +122,9 @@ export const createInitiative = mutation({
       // externalId already resolved above
       const slug = generateSlug(sourceApp, description.substring(0, 30));
       const now = Date.now();
+      // A finished initiative is FINISHED whatever status was passed
+      const initialStatus =
+        finishedAt !== undefined ? "FINISHED" : (status ?? "ON_TIME");
 
       const localId = await ctx.db.insert("initiatives", {
         externalId,
@@ -116,14 +133,23 @@ export const createInitiative = mutation({
         riskExternalId,
         assigneeExternalId,
         createdByExternalId,
-        status: status ?? "ON_TIME", // Default to ON_TIME
+        status: initialStatus,
         priority,
         finishedAt,
+        dueDate,
         slug,
         metadata: args.metadata,
         syncStatus: "pending",
         createdAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "initiative",
+        "create",
+        null,
+        localId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       const payload = JSON.stringify(stripLinkHubManagedFields("initiative", {
         externalId,
@@ -132,9 +158,10 @@ export const createInitiative = mutation({
         riskExternalId,
         assigneeExternalId,
         createdByExternalId,
-        status: status ?? "ON_TIME", // Default to ON_TIME
+        status: initialStatus,
         priority,
         finishedAt,
+        dueDate,
         sourceUrl,
         createdAt: now,
       }));
@@ -195,12 +222,15 @@ export const getInitiativeByExternalId = query({
       status: InitiativeStatusSchema,
       priority: PrioritySchema,
       finishedAt: v.optional(v.number()),
+      dueDate: v.optional(v.number()),
       slug: v.string(),
       metadata: v.optional(v.any()),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     }),
     v.null()
   ),
@@ -232,19 +262,23 @@ export const getInitiativesByRisk = query({
       status: InitiativeStatusSchema,
       priority: PrioritySchema,
       finishedAt: v.optional(v.number()),
+      dueDate: v.optional(v.number()),
       slug: v.string(),
       metadata: v.optional(v.any()),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("initiatives")
-      .withIndex("by_risk", (q) => q.eq("riskExternalId", args.riskExternalId))
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_risk_deleted_at", (q) =>
+        q.eq("riskExternalId", args.riskExternalId).eq("deletedAt", undefined)
+      )
       .collect();
   },
 });
@@ -269,19 +303,23 @@ export const getInitiativesByTeam = query({
       status: InitiativeStatusSchema,
       priority: PrioritySchema,
       finishedAt: v.optional(v.number()),
+      dueDate: v.optional(v.number()),
       slug: v.string(),
       metadata: v.optional(v.any()),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("initiatives")
-      .withIndex("by_team", (q) => q.eq("teamExternalId", args.teamExternalId))
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_team_deleted_at", (q) =>
+        q.eq("teamExternalId", args.teamExternalId).eq("deletedAt", undefined)
+      )
       .collect();
   },
 });
@@ -306,20 +344,120 @@ export const getInitiativesByAssignee = query({
       status: InitiativeStatusSchema,
       priority: PrioritySchema,
       finishedAt: v.optional(v.number()),
+      dueDate: v.optional(v.number()),
       slug: v.string(),
       metadata: v.optional(v.any()),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("initiatives")
-      .withIndex("by_assignee", (q) => q.eq("assigneeExternalId", args.assigneeExternalId))
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_assignee_deleted_at", (q) =>
+        q
+          .eq("assigneeExternalId", args.assigneeExternalId)
+          .eq("deletedAt", undefined)
+      )
+      .collect();
+  },
+});
+
+/**
+ * Gets a team's overdue initiatives, earliest due date first
+ */
+export const getOverdueInitiativesByTeam = query({
+  args: {
+    teamExternalId: v.string(),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("initiatives"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      description: v.string(),
+      teamExternalId: v.string(),
+      riskExternalId: v.string(),
+      assigneeExternalId: v.string(),
+      createdByExternalId: v.string(),
+      status: InitiativeStatusSchema,
+      priority: PrioritySchema,
+      finishedAt: v.optional(v.number()),
+      dueDate: v.optional(v.number()),
+      slug: v.string(),
+      metadata: v.optional(v.any()),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      updatedAt: v.optional(v.number()),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const initiatives = await ctx.db
+      .query("initiatives")
+      .withIndex("by_team_status_deleted_at", (q) =>
+        q
+          .eq("teamExternalId", args.teamExternalId)
+          .eq("status", "OVERDUE")
+          .eq("deletedAt", undefined)
+      )
+      .collect();
+    return initiatives.sort(
+      (a, b) => (a.dueDate ?? Infinity) - (b.dueDate ?? Infinity)
+    );
+  },
+});
+
+/**
+ * Gets an assignee's overdue initiatives, earliest due date first
+ */
+export const getOverdueInitiativesByAssignee = query({
+  args: {
+    assigneeExternalId: v.string(),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("initiatives"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      description: v.string(),
+      teamExternalId: v.string(),
+      riskExternalId: v.string(),
+      assigneeExternalId: v.string(),
+      createdByExternalId: v.string(),
+      status: InitiativeStatusSchema,
+      priority: PrioritySchema,
+      finishedAt: v.optional(v.number()),
+      dueDate: v.optional(v.number()),
+      slug: v.string(),
+      metadata: v.optional(v.any()),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      updatedAt: v.optional(v.number()),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const initiatives = await ctx.db
+      .query("initiatives")
+      .withIndex("by_assignee_status_deleted_at", (q) =>
+        q
+          .eq("assigneeExternalId", args.assigneeExternalId)
+          .eq("status", "OVERDUE")
+          .eq("deletedAt", undefined)
+      )
       .collect();
+    return initiatives.sort(
+      (a, b) => (a.dueDate ?? Infinity) - (b.dueDate ?? Infinity)
+    );
   },
 });
 
@@ -341,35 +479,164 @@ export const getAllInitiatives = query({
       status: InitiativeStatusSchema, // Required
       priority: PrioritySchema,
       finishedAt: v.optional(v.number()),
+      dueDate: v.optional(v.number()),
       slug: v.string(),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
     return await ctx.db
       .query("initiatives")
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
       .collect();
   },
 });
 
+/**
+ * Pages through local initiatives, excluding deleted ones.
+ * Index-backed, for use with usePaginatedQuery.
+ */
+export const getAllInitiativesPaginated = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("initiatives"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      description: v.string(),
+      teamExternalId: v.string(),
+      riskExternalId: v.string(), // Required
+      assigneeExternalId: v.string(),
+      createdByExternalId: v.string(),
+      status: InitiativeStatusSchema, // Required
+      priority: PrioritySchema,
+      finishedAt: v.optional(v.number()),
+      dueDate: v.optional(v.number()),
+      slug: v.string(),
+      metadata: v.optional(v.any()),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      updatedAt: v.optional(v.number()),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("initiatives")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(args.paginationOpts);
+  },
+});
+
 // ============================================================================
 // UPDATE MUTATIONS
 // ============================================================================
 
 /**
- * Soft-deletes an initiative by setting deletedAt
+ * Soft-deletes an initiative by setting deletedAt and queues a tombstone
+ * so LinkHub deletes it too.
+ * `mode` decides what happens to its children (default "orphan").
  */
 export const deleteInitiative = mutation({
   args: {
     externalId: v.string(),
+    mode: v.optional(DeleteModeSchema),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    cascadedCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const initiative = await ctx.db
+        .query("initiatives")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!initiative) {
+        return {
+          success: false,
+          externalId,
+          error: `Initiative not found: ${externalId}`,
+        };
+      }
+
+      // Already deleted: the tombstone was queued the first time
+      if (initiative.deletedAt !== undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await deleteWithMode(
+        ctx,
+        "initiative",
+        initiative,
+        args.mode ?? "orphan",
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        cascadedCount: result.cascadedCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
+/**
+ * Restores a soft-deleted initiative and queues the restore for sync.
+ * With `restoreChildren`, children deleted in the same cascade come back too.
+ */
+export const restoreInitiative = mutation({
+  args: {
+    externalId: v.string(),
+    restoreChildren: v.optional(v.boolean()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
     externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    restoredCount: v.optional(v.number()),
     error: v.optional(v.string()),
   }),
   handler: async (ctx, args) => {
@@ -389,11 +656,34 @@ export const deleteInitiative = mutation({
         };
       }
 
-      await ctx.db.patch(initiative._id, { deletedAt: Date.now() });
+      // Not deleted: nothing to restore
+      if (initiative.deletedAt === undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await restoreEntity(
+        ctx,
+        "initiative",
+        initiative,
+        args.restoreChildren ?? false,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
 
       return {
         success: true,
         externalId,
+        queueId: result.queueId,
+        restoredCount: result.restoredCount,
       };
     } catch (error) {
       const errorMessage =
@@ -423,7 +713,10 @@ export const updateInitiative = mutation({
     status: v.optional(InitiativeStatusSchema),
     priority: v.optional(PrioritySchema),
     finishedAt: v.optional(v.number()),
+    dueDate: v.optional(v.number()),
     metadata: v.optional(v.any()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -440,6 +733,7 @@ export const updateInitiative = mutation({
       status,
       priority,
       finishedAt,
+      dueDate,
     } = args;
 
     try {
@@ -457,6 +751,15 @@ export const updateInitiative = mutation({
         };
       }
 
+      // Restore it first: an update would re-send the deleted entity as live
+      if (initiative.deletedAt !== undefined) {
+        return {
+          success: false,
+          externalId,
+          error: `Initiative is deleted: ${externalId}`,
+        };
+      }
+
       // Validate external IDs if provided
       if (riskExternalId) {
         assertValidExternalId(riskExternalId, "riskExternalId");
@@ -467,18 +770,39 @@ export const updateInitiative = mutation({
 
       const now = Date.now();
 
+      // Setting finishedAt finishes the initiative; moving the due date
+      // of an overdue one into the future puts it back on time
+      const nextStatus =
+        finishedAt !== undefined
+          ? "FINISHED"
+          : (status ??
+            (dueDate !== undefined &&
+            dueDate > now &&
+            initiative.status === "OVERDUE"
+              ? "ON_TIME"
+              : undefined));
+
       // Update the initiative
       await ctx.db.patch(initiative._id, {
         ...(description !== undefined && { description }),
         ...(riskExternalId !== undefined && { riskExternalId }),
         ...(assigneeExternalId !== undefined && { assigneeExternalId }),
-        ...(status !== undefined && { status }),
+        ...(nextStatus !== undefined && { status: nextStatus }),
         ...(priority !== undefined && { priority }),
         ...(finishedAt !== undefined && { finishedAt }),
+        ...(dueDate !== undefined && { dueDate }),
         ...(args.metadata !== undefined && { metadata: args.metadata }),
         syncStatus: "pending",
         updatedAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "initiative",
+        "update",
+        initiative,
+        initiative._id,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Build full payload from current state, then apply managed-field policy
       const updatedInitiative = stripLinkHubManagedFields("initiative", {
@@ -488,23 +812,15 @@ export const updateInitiative = mutation({
         riskExternalId: riskExternalId ?? initiative.riskExternalId,
         assigneeExternalId: assigneeExternalId ?? initiative.assigneeExternalId,
         createdByExternalId: initiative.createdByExternalId,
-        status: status ?? initiative.status,
+        status: nextStatus ?? initiative.status,
         priority: priority ?? initiative.priority,
         finishedAt: finishedAt ?? initiative.finishedAt,
+        dueDate: dueDate ?? initiative.dueDate,
         updatedAt: now,
       });
 
-      const payload = JSON.stringify(updatedInitiative);
-
-      // Add to sync queue
-      const queueId = await ctx.runMutation(
-        (anyApi as any).sync.queue.addToSyncQueue,
-        {
-          entityType: "initiative",
-          externalId,
-          payload,
-        }
-      );
+      // Queue a patch, or the full payload while LinkHub lacks the entity
+      const queueId = await queueEntityUpdate(ctx, "initiative", initiative, updatedInitiative);
 
       return {
         success: true,
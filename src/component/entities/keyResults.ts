@@ -5,12 +5,22 @@
  */
 
 import { v } from "convex/values";
-import { anyApi } from "convex/server";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
 import { mutation, query } from "../_generated/server.js";
 import { generateKeyResultDeterministicExternalId } from "../externalId.js";
 import { assertValidExternalId, generateSlug } from "../lib/validation.js";
 import { stripLinkHubManagedFields } from "../lib/payloadPolicy.js";
-import { SyncStatusSchema } from "../schema.js";
+import { SyncStatusSchema, DeleteModeSchema } from "../schema.js";
+import {
+  deleteWithMode,
+  queueEntityUpdate,
+  restoreEntity,
+} from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
 
 // ============================================================================
 // LOCAL CRUD MUTATIONS
@@ -30,6 +40,7 @@ export const createKeyResult = mutation({
     forecastValue: v.optional(v.number()),
     targetValue: v.optional(v.number()),
     metadata: v.optional(v.any()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -130,6 +141,14 @@ export const createKeyResult = mutation({
         syncStatus: "pending",
         createdAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "keyResult",
+        "create",
+        null,
+        localId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Build full payload, then apply managed-field policy
       const payload = JSON.stringify(stripLinkHubManagedFields("keyResult", {
@@ -197,12 +216,15 @@ export const getKeyResultByExternalId = query({
       teamExternalId: v.string(),
       forecastValue: v.optional(v.number()),
       targetValue: v.optional(v.number()),
+      weight: v.optional(v.number()),
       slug: v.string(),
       metadata: v.optional(v.any()),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     }),
     v.null()
   ),
@@ -231,20 +253,24 @@ export const getKeyResultsByObjective = query({
       teamExternalId: v.string(),
       forecastValue: v.optional(v.number()),
       targetValue: v.optional(v.number()),
+      weight: v.optional(v.number()),
       slug: v.string(),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("keyResults")
-      .withIndex("by_objective", (q) =>
-        q.eq("objectiveExternalId", args.objectiveExternalId)
+      .withIndex("by_objective_deleted_at", (q) =>
+        q
+          .eq("objectiveExternalId", args.objectiveExternalId)
+          .eq("deletedAt", undefined)
       )
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
   },
 });
@@ -264,25 +290,224 @@ export const getAllKeyResults = query({
       teamExternalId: v.string(),
       forecastValue: v.optional(v.number()),
       targetValue: v.optional(v.number()),
+      weight: v.optional(v.number()),
       slug: v.string(),
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
     return await ctx.db
       .query("keyResults")
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
       .collect();
   },
 });
 
+/**
+ * Pages through local key results, excluding deleted ones.
+ * Index-backed, for use with usePaginatedQuery.
+ */
+export const getAllKeyResultsPaginated = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("keyResults"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      objectiveExternalId: v.string(), // Required
+      indicatorExternalId: v.string(),
+      teamExternalId: v.string(),
+      forecastValue: v.optional(v.number()),
+      targetValue: v.optional(v.number()),
+      weight: v.optional(v.number()),
+      slug: v.string(),
+      metadata: v.optional(v.any()),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      updatedAt: v.optional(v.number()),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("keyResults")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(args.paginationOpts);
+  },
+});
+
 // ============================================================================
 // UPDATE MUTATIONS
 // ============================================================================
 
+/**
+ * Soft-deletes a key result by setting deletedAt and queues a tombstone
+ * so LinkHub deletes it too.
+ * `mode` decides what happens to its children (default "orphan").
+ */
+export const deleteKeyResult = mutation({
+  args: {
+    externalId: v.string(),
+    mode: v.optional(DeleteModeSchema),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    cascadedCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const keyResult = await ctx.db
+        .query("keyResults")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!keyResult) {
+        return {
+          success: false,
+          externalId,
+          error: `Key result not found: ${externalId}`,
+        };
+      }
+
+      // Already deleted: the tombstone was queued the first time
+      if (keyResult.deletedAt !== undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await deleteWithMode(
+        ctx,
+        "keyResult",
+        keyResult,
+        args.mode ?? "orphan",
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        cascadedCount: result.cascadedCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
+/**
+ * Restores a soft-deleted key result and queues the restore for sync.
+ * With `restoreChildren`, children deleted in the same cascade come back too.
+ */
+export const restoreKeyResult = mutation({
+  args: {
+    externalId: v.string(),
+    restoreChildren: v.optional(v.boolean()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    restoredCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const keyResult = await ctx.db
+        .query("keyResults")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!keyResult) {
+        return {
+          success: false,
+          externalId,
+          error: `Key result not found: ${externalId}`,
+        };
+      }
+
+      // Not deleted: nothing to restore
+      if (keyResult.deletedAt === undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await restoreEntity(
+        ctx,
+        "keyResult",
+        keyResult,
+        args.restoreChildren ?? false,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        restoredCount: result.restoredCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
 /**
  * Updates a key result locally and queues for sync
  * Resets syncStatus to "pending"
@@ -294,6 +519,8 @@ export const updateKeyResult = mutation({
     forecastValue: v.optional(v.number()),
     targetValue: v.optional(v.number()),
     metadata: v.optional(v.any()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -319,6 +546,15 @@ export const updateKeyResult = mutation({
         };
       }
 
+      // Restore it first: an update would re-send the deleted entity as live
+      if (keyResult.deletedAt !== undefined) {
+        return {
+          success: false,
+          externalId,
+          error: `Key result is deleted: ${externalId}`,
+        };
+      }
+
       // Validate objectiveExternalId if provided
       if (objectiveExternalId) {
         assertValidExternalId(objectiveExternalId, "objectiveExternalId");
@@ -335,6 +571,14 @@ export const updateKeyResult = mutation({
         syncStatus: "pending",
         updatedAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "keyResult",
+        "update",
+        keyResult,
+        keyResult._id,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       const existingWeight =
         typeof (keyResult as Record<string, unknown>).weight === "number"
@@ -353,17 +597,8 @@ export const updateKeyResult = mutation({
         updatedAt: now,
       });
 
-      const payload = JSON.stringify(updatedKeyResult);
-
-      // Add to sync queue
-      const queueId = await ctx.runMutation(
-        (anyApi as any).sync.queue.addToSyncQueue,
-        {
-          entityType: "keyResult",
-          externalId,
-          payload,
-        }
-      );
+      // Queue a patch, or the full payload while LinkHub lacks the entity
+      const queueId = await queueEntityUpdate(ctx, "keyResult", keyResult, updatedKeyResult);
 
       return {
         success: true,
@@ -0,0 +1,284 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "../_generated/api.js";
+import { initConvexTest } from "../setup.test.js";
+
+const team = "okrhub:test:team:1";
+const objective = "okrhub:test:objective:1";
+const keyResult = "okrhub:test:keyResult:1";
+const indicator = "okrhub:test:indicator:1";
+const risk = "okrhub:test:risk:1";
+const otherRisk = "okrhub:test:risk:2";
+const milestone = "okrhub:test:milestone:1";
+
+/**
+ * Seeds an indicator and objective → key result → two risks, all active
+ */
+async function seedTree(t: ReturnType<typeof initConvexTest>) {
+  await t.run(async (ctx) => {
+    const createdAt = Date.now();
+    await ctx.db.insert("indicators", {
+      externalId: indicator,
+      companyExternalId: "okrhub:test:company:1",
+      description: "Revenue",
+      symbol: "€",
+      periodicity: "monthly",
+      slug: "revenue",
+      syncStatus: "synced",
+      createdAt,
+    });
+    await ctx.db.insert("objectives", {
+      externalId: objective,
+      title: "Grow",
+      description: "Grow revenue",
+      teamExternalId: team,
+      slug: "grow",
+      syncStatus: "synced",
+      createdAt,
+    });
+    await ctx.db.insert("keyResults", {
+      externalId: keyResult,
+      objectiveExternalId: objective,
+      indicatorExternalId: indicator,
+      teamExternalId: team,
+      slug: "revenue",
+      syncStatus: "synced",
+      createdAt,
+    });
+    for (const externalId of [risk, otherRisk]) {
+      await ctx.db.insert("risks", {
+        externalId,
+        description: `Risk ${externalId}`,
+        teamExternalId: team,
+        keyResultExternalId: keyResult,
+        priority: "high",
+        slug: externalId,
+        syncStatus: "synced",
+        createdAt,
+      });
+    }
+  });
+}
+
+async function deletedAtOf(t: ReturnType<typeof initConvexTest>) {
+  return await t.run(async (ctx) => {
+    const [objectiveRow] = await ctx.db.query("objectives").collect();
+    const [keyResultRow] = await ctx.db.query("keyResults").collect();
+    const risks = await ctx.db.query("risks").collect();
+    return {
+      objective: objectiveRow.deletedAt,
+      keyResult: keyResultRow.deletedAt,
+      risk: risks.find((row) => row.externalId === risk)?.deletedAt,
+      otherRisk: risks.find((row) => row.externalId === otherRisk)?.deletedAt,
+    };
+  });
+}
+
+describe("delete modes", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("restrict refuses while active children exist", async () => {
+    const t = initConvexTest();
+    await seedTree(t);
+
+    const result = await t.mutation(api.entities.objectives.deleteObjective, {
+      externalId: objective,
+      mode: "restrict",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`keyResult ${keyResult}`);
+    expect((await deletedAtOf(t)).objective).toBeUndefined();
+  });
+
+  test("orphan deletes only the entity and reports its children", async () => {
+    const t = initConvexTest();
+    await seedTree(t);
+
+    await t.mutation(api.entities.objectives.deleteObjective, {
+      externalId: objective,
+    });
+
+    const deleted = await deletedAtOf(t);
+    expect(deleted.objective).toBe(Date.now());
+    expect(deleted.keyResult).toBeUndefined();
+    const orphans = await t.query(api.entities.lifecycle.getOrphanedEntities, {
+      entityType: "keyResult",
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(orphans.page).toEqual([
+      {
+        entityType: "keyResult",
+        externalId: keyResult,
+        parentEntityType: "objective",
+        parentExternalId: objective,
+        reason: "deleted",
+      },
+    ]);
+  });
+
+  test("the orphan report walks every child type with one cursor", async () => {
+    const t = initConvexTest();
+    await seedTree(t);
+    await t.mutation(api.entities.objectives.deleteObjective, {
+      externalId: objective,
+    });
+    await t.mutation(api.entities.keyResults.deleteKeyResult, {
+      externalId: keyResult,
+    });
+    await t.run(async (ctx) => {
+      await ctx.db.insert("milestones", {
+        externalId: milestone,
+        indicatorExternalId: "okrhub:test:indicator:missing",
+        description: "Halfway",
+        value: 50,
+        status: "ON_TIME",
+        slug: "halfway",
+        syncStatus: "synced",
+        createdAt: Date.now(),
+      });
+    });
+
+    const orphans = [];
+    let cursor: string | null = null;
+    do {
+      const result: {
+        page: { externalId: string; parentExternalId: string }[];
+        isDone: boolean;
+        continueCursor: string;
+      } = await t.query(api.entities.lifecycle.getOrphanedEntities, {
+        paginationOpts: { numItems: 1, cursor },
+      });
+      orphans.push(...result.page);
+      cursor = result.isDone ? null : result.continueCursor;
+    } while (cursor);
+
+    expect(
+      orphans.map((orphan) => [orphan.externalId, orphan.parentExternalId])
+    ).toEqual([
+      [risk, keyResult],
+      [otherRisk, keyResult],
+      [milestone, "okrhub:test:indicator:missing"],
+    ]);
+  });
+
+  test("cascade deletes every descendant with the same deletedAt", async () => {
+    const t = initConvexTest();
+    await seedTree(t);
+    const deletedAt = Date.now();
+
+    const result = await t.mutation(api.entities.objectives.deleteObjective, {
+      externalId: objective,
+      mode: "cascade",
+    });
+
+    expect(result).toMatchObject({ success: true, cascadedCount: 3 });
+    expect(await deletedAtOf(t)).toEqual({
+      objective: deletedAt,
+      keyResult: deletedAt,
+      risk: deletedAt,
+      otherRisk: deletedAt,
+    });
+    const queued = await t.run(
+      async (ctx) => await ctx.db.query("syncQueue").collect()
+    );
+    expect(queued).toHaveLength(4);
+    expect(queued.every((item) => item.operation === "delete")).toBe(true);
+  });
+});
+
+describe("restores", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("restoreChildren brings back only what the cascade deleted", async () => {
+    const t = initConvexTest();
+    await seedTree(t);
+
+    // Deleted on its own before the cascade, so it stays deleted
+    await t.mutation(api.entities.risks.deleteRisk, { externalId: otherRisk });
+    const otherRiskDeletedAt = Date.now();
+    vi.setSystemTime(otherRiskDeletedAt + 1000);
+    await t.mutation(api.entities.objectives.deleteObjective, {
+      externalId: objective,
+      mode: "cascade",
+    });
+
+    const result = await t.mutation(api.entities.objectives.restoreObjective, {
+      externalId: objective,
+      restoreChildren: true,
+    });
+
+    expect(result).toMatchObject({ success: true, restoredCount: 2 });
+    expect(await deletedAtOf(t)).toEqual({
+      objective: undefined,
+      keyResult: undefined,
+      risk: undefined,
+      otherRisk: otherRiskDeletedAt,
+    });
+  });
+
+  test("a child cannot be restored while its parent is deleted", async () => {
+    const t = initConvexTest();
+    await seedTree(t);
+    await t.mutation(api.entities.objectives.deleteObjective, {
+      externalId: objective,
+      mode: "cascade",
+    });
+
+    const result = await t.mutation(api.entities.keyResults.restoreKeyResult, {
+      externalId: keyResult,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`parent objective ${objective} is deleted`);
+    expect((await deletedAtOf(t)).keyResult).toBeDefined();
+  });
+
+  test("a deleted entity cannot be updated until it is restored", async () => {
+    const t = initConvexTest();
+    await seedTree(t);
+    await t.mutation(api.entities.objectives.deleteObjective, {
+      externalId: objective,
+    });
+
+    const result = await t.mutation(api.entities.objectives.updateObjective, {
+      externalId: objective,
+      title: "Grow faster",
+    });
+
+    const queued = await t.run(
+      async (ctx) => await ctx.db.query("syncQueue").collect()
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("is deleted");
+    expect(queued.map((item) => item.operation)).toEqual(["delete"]);
+  });
+
+  test("restoring without restoreChildren leaves the children deleted", async () => {
+    const t = initConvexTest();
+    await seedTree(t);
+    await t.mutation(api.entities.objectives.deleteObjective, {
+      externalId: objective,
+      mode: "cascade",
+    });
+
+    await t.mutation(api.entities.objectives.restoreObjective, {
+      externalId: objective,
+    });
+
+    const deleted = await deletedAtOf(t);
+    expect(deleted.objective).toBeUndefined();
+    expect(deleted.keyResult).toBeDefined();
+  });
+});
@@ -0,0 +1,750 @@
+/**
+ * Entity Lifecycle for OKRHub Component
+ *
+ * Parent → child relations between the local OKR tables, shared by the
+ * delete* mutations (cascade / restrict / orphan), the restore* mutations
+ * and the orphan report, plus the update payloads queued by update*.
+ */
+
+import { v } from "convex/values";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
+import type { Doc, Id } from "../_generated/dataModel.js";
+import {
+  query,
+  type DatabaseReader,
+  type MutationCtx,
+} from "../_generated/server.js";
+import {
+  findEntityByExternalId,
+  getEntityTable,
+  hasUpdatedAt,
+  type LocalEntityDoc,
+  type LocalEntityType,
+} from "../lib/entityTables.js";
+import { diffSnapshots } from "../lib/patches.js";
+import { stripLinkHubManagedFields } from "../lib/payloadPolicy.js";
+import { hasLinkHubMapping } from "../sync/mappings.js";
+import { recordEntityHistory, type EntityAudit } from "./history.js";
+import type { DeleteMode } from "../schema.js";
+
+/**
+ * A child entity type and the payload field that references its parent
+ */
+type ChildRelation = {
+  entityType: LocalEntityType;
+  field:
+    | "objectiveExternalId"
+    | "keyResultExternalId"
+    | "riskExternalId"
+    | "indicatorExternalId";
+};
+
+const CHILD_RELATIONS: Record<LocalEntityType, ChildRelation[]> = {
+  objective: [{ entityType: "keyResult", field: "objectiveExternalId" }],
+  keyResult: [{ entityType: "risk", field: "keyResultExternalId" }],
+  risk: [{ entityType: "initiative", field: "riskExternalId" }],
+  indicator: [
+    { entityType: "keyResult", field: "indicatorExternalId" },
+    { entityType: "risk", field: "indicatorExternalId" },
+    { entityType: "milestone", field: "indicatorExternalId" },
+    { entityType: "indicatorValue", field: "indicatorExternalId" },
+    { entityType: "indicatorForecast", field: "indicatorExternalId" },
+  ],
+  initiative: [],
+  milestone: [],
+  indicatorValue: [],
+  indicatorForecast: [],
+};
+
+const PARENT_TYPE_BY_FIELD: Record<ChildRelation["field"], LocalEntityType> = {
+  objectiveExternalId: "objective",
+  keyResultExternalId: "keyResult",
+  riskExternalId: "risk",
+  indicatorExternalId: "indicator",
+};
+
+/**
+ * An entity together with its type
+ */
+type TypedEntity = {
+  entityType: LocalEntityType;
+  entity: LocalEntityDoc;
+};
+
+/**
+ * Finds the children of one relation, including deleted ones
+ */
+async function findChildren(
+  db: DatabaseReader,
+  relation: ChildRelation,
+  parentExternalId: string
+): Promise<LocalEntityDoc[]> {
+  const { entityType, field } = relation;
+  if (entityType === "keyResult" && field === "objectiveExternalId") {
+    return await db
+      .query("keyResults")
+      .withIndex("by_objective", (q) =>
+        q.eq("objectiveExternalId", parentExternalId)
+      )
+      .collect();
+  }
+  if (entityType === "keyResult") {
+    return await db
+      .query("keyResults")
+      .withIndex("by_indicator", (q) =>
+        q.eq("indicatorExternalId", parentExternalId)
+      )
+      .collect();
+  }
+  if (entityType === "risk" && field === "keyResultExternalId") {
+    return await db
+      .query("risks")
+      .withIndex("by_key_result", (q) =>
+        q.eq("keyResultExternalId", parentExternalId)
+      )
+      .collect();
+  }
+  if (entityType === "risk") {
+    return await db
+      .query("risks")
+      .withIndex("by_indicator", (q) =>
+        q.eq("indicatorExternalId", parentExternalId)
+      )
+      .collect();
+  }
+  if (entityType === "initiative") {
+    return await db
+      .query("initiatives")
+      .withIndex("by_risk", (q) => q.eq("riskExternalId", parentExternalId))
+      .collect();
+  }
+  // Milestones, values and forecasts all hang off an indicator
+  const table = getEntityTable(entityType) as "milestones";
+  return await db
+    .query(table)
+    .withIndex("by_indicator", (q) =>
+      q.eq("indicatorExternalId", parentExternalId)
+    )
+    .collect();
+}
+
+/**
+ * Finds the direct children of an entity that are not deleted
+ */
+export async function findActiveChildren(
+  db: DatabaseReader,
+  entityType: LocalEntityType,
+  externalId: string
+): Promise<TypedEntity[]> {
+  const children: TypedEntity[] = [];
+  for (const relation of CHILD_RELATIONS[entityType]) {
+    const entities = await findChildren(db, relation, externalId);
+    for (const entity of entities) {
+      if (entity.deletedAt === undefined) {
+        children.push({ entityType: relation.entityType, entity });
+      }
+    }
+  }
+  return children;
+}
+
+/**
+ * Builds the error returned when a restrict delete finds active children
+ */
+export function describeActiveChildren(
+  entityType: LocalEntityType,
+  externalId: string,
+  children: TypedEntity[]
+): string {
+  const listed = children
+    .slice(0, 5)
+    .map((child) => `${child.entityType} ${child.entity.externalId}`)
+    .join(", ");
+  const more = children.length > 5 ? ` and ${children.length - 5} more` : "";
+  return `Cannot delete ${entityType} ${externalId}: ${children.length} active children (${listed}${more})`;
+}
+
+/**
+ * Soft-deletes a single entity, records it in the history and queues its
+ * tombstone for sync. Returns undefined when nothing needs to be sent,
+ * because LinkHub never received the entity (see `addToSyncQueue`).
+ */
+export async function softDeleteEntity(
+  ctx: MutationCtx,
+  entityType: LocalEntityType,
+  entity: LocalEntityDoc,
+  deletedAt: number,
+  audit: EntityAudit
+): Promise<Id<"syncQueue"> | undefined> {
+  await ctx.db.patch(entity._id, {
+    deletedAt,
+    syncStatus: "pending",
+    ...(hasUpdatedAt(entityType) && { updatedAt: deletedAt }),
+  });
+  await recordEntityHistory(
+    ctx,
+    entityType,
+    "delete",
+    entity,
+    entity._id,
+    audit
+  );
+
+  const queueId = await ctx.runMutation(
+    (anyApi as any).sync.queue.addToSyncQueue,
+    {
+      entityType,
+      externalId: entity.externalId,
+      payload: JSON.stringify({ externalId: entity.externalId, deletedAt }),
+      operation: "delete",
+    }
+  );
+  return queueId ?? undefined;
+}
+
+/**
+ * Soft-deletes every active descendant of an entity with the parent's
+ * `deletedAt`, so a later restore can tell which children went with it.
+ * Returns the number of descendants deleted.
+ */
+export async function cascadeDelete(
+  ctx: MutationCtx,
+  entityType: LocalEntityType,
+  externalId: string,
+  deletedAt: number,
+  audit: EntityAudit
+): Promise<number> {
+  let deleted = 0;
+  const children = await findActiveChildren(ctx.db, entityType, externalId);
+  for (const child of children) {
+    // A child reachable through two relations may already be gone
+    const current = await ctx.db.get(child.entity._id);
+    if (!current || current.deletedAt !== undefined) continue;
+
+    await softDeleteEntity(
+      ctx,
+      child.entityType,
+      child.entity,
+      deletedAt,
+      audit
+    );
+    deleted++;
+    deleted += await cascadeDelete(
+      ctx,
+      child.entityType,
+      child.entity.externalId,
+      deletedAt,
+      audit
+    );
+  }
+  return deleted;
+}
+
+/**
+ * Applies a delete mode to an entity that is not deleted yet.
+ * Returns an error for a restrict delete with active children.
+ */
+export async function deleteWithMode(
+  ctx: MutationCtx,
+  entityType: LocalEntityType,
+  entity: LocalEntityDoc,
+  mode: DeleteMode,
+  audit: EntityAudit
+): Promise<
+  | { success: true; queueId?: Id<"syncQueue">; cascadedCount?: number }
+  | { success: false; error: string }
+> {
+  if (mode === "restrict") {
+    const children = await findActiveChildren(
+      ctx.db,
+      entityType,
+      entity.externalId
+    );
+    if (children.length > 0) {
+      return {
+        success: false,
+        error: describeActiveChildren(entityType, entity.externalId, children),
+      };
+    }
+  }
+
+  const deletedAt = Date.now();
+  const queueId = await softDeleteEntity(
+    ctx,
+    entityType,
+    entity,
+    deletedAt,
+    audit
+  );
+
+  if (mode === "cascade") {
+    const cascadedCount = await cascadeDelete(
+      ctx,
+      entityType,
+      entity.externalId,
+      deletedAt,
+      audit
+    );
+    console.log(
+      `[okrhub] cascade delete entityType=${entityType} externalId=${entity.externalId} cascaded=${cascadedCount}`
+    );
+    return { success: true, queueId, cascadedCount };
+  }
+
+  return { success: true, queueId };
+}
+
+// ============================================================================
+// RESTORE
+// ============================================================================
+
+/**
+ * Builds the full sync payload for an entity, matching what its update
+ * mutation sends. Also used by reconciliation to compare with LinkHub.
+ */
+export function buildEntitySnapshot(
+  entityType: LocalEntityType,
+  entity: LocalEntityDoc,
+  now: number
+): Record<string, unknown> {
+  switch (entityType) {
+    case "objective": {
+      const objective = entity as Doc<"objectives">;
+      return {
+        externalId: objective.externalId,
+        title: objective.title,
+        description: objective.description,
+        teamExternalId: objective.teamExternalId,
+        updatedAt: now,
+      };
+    }
+    case "keyResult": {
+      const keyResult = entity as Doc<"keyResults">;
+      return stripLinkHubManagedFields("keyResult", {
+        externalId: keyResult.externalId,
+        objectiveExternalId: keyResult.objectiveExternalId,
+        indicatorExternalId: keyResult.indicatorExternalId,
+        teamExternalId: keyResult.teamExternalId,
+        forecastValue: keyResult.forecastValue,
+        targetValue: keyResult.targetValue,
+        updatedAt: now,
+      });
+    }
+    case "risk": {
+      const risk = entity as Doc<"risks">;
+      return stripLinkHubManagedFields("risk", {
+        externalId: risk.externalId,
+        description: risk.description,
+        teamExternalId: risk.teamExternalId,
+        keyResultExternalId: risk.keyResultExternalId,
+        priority: risk.priority,
+        indicatorExternalId: risk.indicatorExternalId,
+        triggerValue: risk.triggerValue,
+        triggeredIfLower: risk.triggeredIfLower,
+        useForecastAsTrigger: risk.useForecastAsTrigger,
+        isRed: risk.isRed,
+      });
+    }
+    case "initiative": {
+      const initiative = entity as Doc<"initiatives">;
+      return stripLinkHubManagedFields("initiative", {
+        externalId: initiative.externalId,
+        description: initiative.description,
+        teamExternalId: initiative.teamExternalId,
+        riskExternalId: initiative.riskExternalId,
+        assigneeExternalId: initiative.assigneeExternalId,
+        createdByExternalId: initiative.createdByExternalId,
+        status: initiative.status,
+        priority: initiative.priority,
+        finishedAt: initiative.finishedAt,
+        dueDate: initiative.dueDate,
+        updatedAt: now,
+      });
+    }
+    case "indicator": {
+      const indicator = entity as Doc<"indicators">;
+      return {
+        externalId: indicator.externalId,
+        companyExternalId: indicator.companyExternalId,
+        description: indicator.description,
+        symbol: indicator.symbol,
+        periodicity: indicator.periodicity,
+        isReverse: indicator.isReverse,
+      };
+    }
+    case "milestone": {
+      const milestone = entity as Doc<"milestones">;
+      return {
+        externalId: milestone.externalId,
+        indicatorExternalId: milestone.indicatorExternalId,
+        description: milestone.description,
+        value: milestone.value,
+        forecastDate: milestone.forecastDate,
+        status: milestone.status,
+        achievedAt: milestone.achievedAt,
+        updatedAt: now,
+      };
+    }
+    case "indicatorValue":
+    case "indicatorForecast": {
+      const point = entity as Doc<"indicatorValues">;
+      return {
+        externalId: point.externalId,
+        indicatorExternalId: point.indicatorExternalId,
+        value: point.value,
+        date: point.date,
+      };
+    }
+  }
+}
+
+/**
+ * Finds a local parent of the entity that is currently deleted
+ */
+async function findDeletedParent(
+  db: DatabaseReader,
+  entityType: LocalEntityType,
+  entity: LocalEntityDoc
+): Promise<{ entityType: LocalEntityType; externalId: string } | null> {
+  for (const relations of Object.values(CHILD_RELATIONS)) {
+    for (const relation of relations) {
+      if (relation.entityType !== entityType) continue;
+      const parentExternalId = (entity as Record<string, unknown>)[
+        relation.field
+      ];
+      if (typeof parentExternalId !== "string") continue;
+
+      const parentEntityType = PARENT_TYPE_BY_FIELD[relation.field];
+      const parent = await findEntityByExternalId(
+        db,
+        parentEntityType,
+        parentExternalId
+      );
+      if (parent && parent.deletedAt !== undefined) {
+        return { entityType: parentEntityType, externalId: parentExternalId };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Clears deletedAt on a single entity, records it in the history and
+ * queues a restore with its full snapshot for sync. An entity LinkHub
+ * never acknowledged is sent as a plain upsert instead.
+ */
+async function restoreSingle(
+  ctx: MutationCtx,
+  entityType: LocalEntityType,
+  entity: LocalEntityDoc,
+  audit: EntityAudit
+): Promise<Id<"syncQueue">> {
+  const now = Date.now();
+  await ctx.db.patch(entity._id, {
+    deletedAt: undefined,
+    syncStatus: "pending",
+    ...(hasUpdatedAt(entityType) && { updatedAt: now }),
+  });
+  await recordEntityHistory(
+    ctx,
+    entityType,
+    "restore",
+    entity,
+    entity._id,
+    audit
+  );
+
+  return await ctx.runMutation((anyApi as any).sync.queue.addToSyncQueue, {
+    entityType,
+    externalId: entity.externalId,
+    payload: JSON.stringify(buildEntitySnapshot(entityType, entity, now)),
+    ...((await hasLinkHubMapping(ctx.db, entity.externalId)) && {
+      operation: "restore",
+    }),
+  });
+}
+
+/**
+ * Restores the descendants that were cascade-deleted together with a
+ * parent, i.e. that share its `deletedAt`. Children that still have
+ * another deleted parent stay deleted. Returns the number restored.
+ */
+async function cascadeRestore(
+  ctx: MutationCtx,
+  entityType: LocalEntityType,
+  externalId: string,
+  deletedAt: number,
+  audit: EntityAudit
+): Promise<number> {
+  let restored = 0;
+  for (const relation of CHILD_RELATIONS[entityType]) {
+    const children = await findChildren(ctx.db, relation, externalId);
+    for (const child of children) {
+      if (child.deletedAt !== deletedAt) continue;
+      if (await findDeletedParent(ctx.db, relation.entityType, child)) continue;
+
+      await restoreSingle(ctx, relation.entityType, child, audit);
+      restored++;
+      restored += await cascadeRestore(
+        ctx,
+        relation.entityType,
+        child.externalId,
+        deletedAt,
+        audit
+      );
+    }
+  }
+  return restored;
+}
+
+/**
+ * Restores a deleted entity, and optionally the children deleted with it.
+ * Refuses while one of the entity's parents is deleted.
+ */
+export async function restoreEntity(
+  ctx: MutationCtx,
+  entityType: LocalEntityType,
+  entity: LocalEntityDoc,
+  restoreChildren: boolean,
+  audit: EntityAudit
+): Promise<
+  | { success: true; queueId: Id<"syncQueue">; restoredCount?: number }
+  | { success: false; error: string }
+> {
+  const deletedParent = await findDeletedParent(ctx.db, entityType, entity);
+  if (deletedParent) {
+    return {
+      success: false,
+      error: `Cannot restore ${entityType} ${entity.externalId}: parent ${deletedParent.entityType} ${deletedParent.externalId} is deleted`,
+    };
+  }
+
+  const deletedAt = entity.deletedAt;
+  const queueId = await restoreSingle(ctx, entityType, entity, audit);
+
+  if (restoreChildren && deletedAt !== undefined) {
+    const restoredCount = await cascadeRestore(
+      ctx,
+      entityType,
+      entity.externalId,
+      deletedAt,
+      audit
+    );
+    console.log(
+      `[okrhub] cascade restore entityType=${entityType} externalId=${entity.externalId} restored=${restoredCount}`
+    );
+    return { success: true, queueId, restoredCount };
+  }
+
+  return { success: true, queueId };
+}
+
+// ============================================================================
+// UPDATES
+// ============================================================================
+
+/**
+ * Queues an update for sync. Once LinkHub has the entity, only the changed
+ * fields are sent, as a patch with their previous values; until then the
+ * full snapshot is sent. `before` is the row as read before the update and
+ * `snapshot` the full payload after it.
+ */
+export async function queueEntityUpdate(
+  ctx: MutationCtx,
+  entityType: LocalEntityType,
+  before: LocalEntityDoc,
+  snapshot: Record<string, unknown>
+): Promise<Id<"syncQueue">> {
+  const baseKnown = await hasLinkHubMapping(ctx.db, before.externalId);
+  const payload = baseKnown
+    ? diffSnapshots(
+        before.externalId,
+        buildEntitySnapshot(entityType, before, 0),
+        snapshot
+      )
+    : snapshot;
+
+  return await ctx.runMutation((anyApi as any).sync.queue.addToSyncQueue, {
+    entityType,
+    externalId: before.externalId,
+    payload: JSON.stringify(payload),
+    ...(baseKnown && { operation: "patch" }),
+  });
+}
+
+// ============================================================================
+// ORPHAN REPORT
+// ============================================================================
+
+// Child types in hierarchy order, the order the orphan report walks them
+const ORPHAN_ENTITY_TYPES = [
+  ...new Set(
+    Object.values(CHILD_RELATIONS).flatMap((relations) =>
+      relations.map((relation) => relation.entityType)
+    )
+  ),
+];
+
+/**
+ * Position of the orphan report: the child type being paged through and
+ * the cursor within its table
+ */
+type OrphanCursor = {
+  entityType: LocalEntityType;
+  cursor: string | null;
+};
+
+function encodeOrphanCursor(position: OrphanCursor): string {
+  return JSON.stringify(position);
+}
+
+function decodeOrphanCursor(cursor: string): OrphanCursor {
+  try {
+    const position = JSON.parse(cursor) as OrphanCursor;
+    if (ORPHAN_ENTITY_TYPES.includes(position.entityType)) {
+      return position;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid orphan report cursor: ${cursor}`);
+}
+
+/**
+ * Every field of a child type that points at a parent
+ */
+function getParentFields(
+  entityType: LocalEntityType
+): ChildRelation["field"][] {
+  const fields: ChildRelation["field"][] = [];
+  for (const relations of Object.values(CHILD_RELATIONS)) {
+    for (const relation of relations) {
+      if (
+        relation.entityType === entityType &&
+        !fields.includes(relation.field)
+      ) {
+        fields.push(relation.field);
+      }
+    }
+  }
+  return fields;
+}
+
+/**
+ * Finds active entities whose parent externalId is missing locally or
+ * points at a deleted parent, across the whole hierarchy, or for one
+ * child `entityType`.
+ *
+ * Walks the child tables in hierarchy order (key results, risks,
+ * initiatives, milestones, indicator values, indicator forecasts) with one
+ * cursor. Each page reports the orphans among `numItems` active children
+ * of a single table, so a page may hold fewer orphans than that, or none,
+ * before `isDone`.
+ */
+export const getOrphanedEntities = query({
+  args: {
+    entityType: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      entityType: v.string(),
+      externalId: v.string(),
+      parentEntityType: v.string(),
+      parentExternalId: v.string(),
+      reason: v.union(v.literal("missing"), v.literal("deleted")),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const entityTypes = args.entityType
+      ? [args.entityType as LocalEntityType]
+      : ORPHAN_ENTITY_TYPES;
+    if (!ORPHAN_ENTITY_TYPES.includes(entityTypes[0])) {
+      throw new Error(`Entity type has no parent: ${args.entityType}`);
+    }
+
+    const { cursor, endCursor } = args.paginationOpts;
+    const position: OrphanCursor = cursor
+      ? decodeOrphanCursor(cursor)
+      : { entityType: entityTypes[0], cursor: null };
+    const end = endCursor ? decodeOrphanCursor(endCursor) : undefined;
+    const entityType = position.entityType;
+    const fields = getParentFields(entityType);
+    const table = getEntityTable(entityType) as "keyResults";
+
+    // Cursors of the table itself, unwrapped from the report's cursors
+    const tableOpts = {
+      ...args.paginationOpts,
+      cursor: position.cursor,
+      endCursor: end?.entityType === entityType ? end.cursor : undefined,
+    };
+    const result = await ctx.db
+      .query(table)
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(tableOpts);
+
+    const parentCache = new Map<string, LocalEntityDoc | null>();
+    const orphans: {
+      entityType: string;
+      externalId: string;
+      parentEntityType: string;
+      parentExternalId: string;
+      reason: "missing" | "deleted";
+    }[] = [];
+
+    for (const child of result.page) {
+      for (const field of fields) {
+        const parentExternalId = (child as Record<string, unknown>)[field];
+        if (typeof parentExternalId !== "string") continue;
+
+        const parentEntityType = PARENT_TYPE_BY_FIELD[field];
+        const cacheKey = `${parentEntityType}:${parentExternalId}`;
+        if (!parentCache.has(cacheKey)) {
+          parentCache.set(
+            cacheKey,
+            await findEntityByExternalId(
+              ctx.db,
+              parentEntityType,
+              parentExternalId
+            )
+          );
+        }
+        const parent = parentCache.get(cacheKey);
+        if (parent && parent.deletedAt === undefined) continue;
+
+        orphans.push({
+          entityType,
+          externalId: child.externalId,
+          parentEntityType,
+          parentExternalId,
+          reason: parent ? "deleted" : "missing",
+        });
+      }
+    }
+
+    // Move on to the next child type once this table is done
+    const nextEntityType = entityTypes[entityTypes.indexOf(entityType) + 1];
+    if (result.isDone && nextEntityType) {
+      return {
+        page: orphans,
+        isDone: false,
+        continueCursor: encodeOrphanCursor({
+          entityType: nextEntityType,
+          cursor: null,
+        }),
+      };
+    }
+    return {
+      page: orphans,
+      isDone: result.isDone,
+      continueCursor: encodeOrphanCursor({
+        entityType,
+        cursor: result.continueCursor,
+      }),
+    };
+  },
+});
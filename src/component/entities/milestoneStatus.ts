@@ -0,0 +1,208 @@
+/**
+ * Milestone Status for OKRHub Component
+ *
+ * Moves milestones between statuses from their indicator's values: a
+ * milestone is achieved once the latest value reaches its `value` (or
+ * drops to it, for reverse indicators), on time if that happened by its
+ * forecastDate, and overdue while it is still open past that date.
+ * Run on a schedule from crons.ts; each run handles one page of open
+ * milestones and schedules the next.
+ */
+
+import { v } from "convex/values";
+import { internal } from "../_generated/api.js";
+import type { Doc } from "../_generated/dataModel.js";
+import { internalMutation, type QueryCtx } from "../_generated/server.js";
+import { computePercentToTarget } from "../lib/progress.js";
+import type { MilestoneStatus } from "../schema.js";
+import { buildEntitySnapshot, queueEntityUpdate } from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
+
+// Open milestones evaluated per run
+const MILESTONE_PAGE_SIZE = 100;
+
+// Open statuses, in the order a sweep goes through them
+const OPEN_STATUSES = ["ON_TIME", "OVERDUE"] as const;
+
+type IndicatorState = {
+  isReverse: boolean;
+  latestValue: Doc<"indicatorValues"> | null;
+};
+
+/**
+ * Loads whether an indicator is reversed and its latest value by date.
+ * Returns null when the indicator is missing or deleted.
+ */
+async function loadIndicatorState(
+  ctx: QueryCtx,
+  indicatorExternalId: string
+): Promise<IndicatorState | null> {
+  const indicator = await ctx.db
+    .query("indicators")
+    .withIndex("by_external_id", (q) =>
+      q.eq("externalId", indicatorExternalId)
+    )
+    .first();
+  if (!indicator || indicator.deletedAt !== undefined) {
+    return null;
+  }
+
+  const latestValue = await ctx.db
+    .query("indicatorValues")
+    .withIndex("by_indicator_date", (q) =>
+      q.eq("indicatorExternalId", indicatorExternalId)
+    )
+    .order("desc")
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .first();
+
+  return { isReverse: indicator.isReverse ?? false, latestValue };
+}
+
+/**
+ * Works out the status an open milestone should have now
+ */
+function evaluateMilestone(
+  milestone: Doc<"milestones">,
+  indicator: IndicatorState,
+  now: number
+): { status: MilestoneStatus; achievedAt?: number } {
+  const { latestValue } = indicator;
+  const reached =
+    latestValue !== null &&
+    computePercentToTarget(
+      latestValue.value,
+      milestone.value,
+      indicator.isReverse
+    ) === 100;
+
+  if (reached) {
+    const achievedAt = latestValue.date;
+    const late =
+      milestone.forecastDate !== undefined &&
+      achievedAt > milestone.forecastDate;
+    return {
+      status: late ? "ACHIEVED_LATE" : "ACHIEVED_ON_TIME",
+      achievedAt,
+    };
+  }
+
+  const overdue =
+    milestone.forecastDate !== undefined && now > milestone.forecastDate;
+  return { status: overdue ? "OVERDUE" : "ON_TIME" };
+}
+
+// ============================================================================
+// SCHEDULED EVALUATION
+// ============================================================================
+
+/**
+ * Re-evaluates one page of open (ON_TIME or OVERDUE) milestones. Milestones
+ * whose status changes are updated and queued for sync. Achieved
+ * milestones are final and left alone.
+ *
+ * The cron starts a sweep with no args; each run schedules the next page,
+ * first through the ON_TIME milestones, then the OVERDUE ones. A milestone
+ * that turns OVERDUE during the sweep may be evaluated again, which leaves
+ * it unchanged.
+ */
+export const evaluateMilestoneStatuses = internalMutation({
+  args: {
+    status: v.optional(v.union(v.literal("ON_TIME"), v.literal("OVERDUE"))),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.object({
+    evaluated: v.number(),
+    updated: v.number(),
+  }),
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ evaluated: number; updated: number }> => {
+    const now = Date.now();
+    const indicators = new Map<string, IndicatorState | null>();
+    let evaluated = 0;
+    let updated = 0;
+
+    const openStatus = args.status ?? OPEN_STATUSES[0];
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("milestones")
+      .withIndex("by_status_deleted_at", (q) =>
+        q.eq("status", openStatus).eq("deletedAt", undefined)
+      )
+      .paginate({
+        numItems: MILESTONE_PAGE_SIZE,
+        cursor: args.cursor ?? null,
+      });
+
+    for (const milestone of page) {
+      const { indicatorExternalId } = milestone;
+      if (!indicators.has(indicatorExternalId)) {
+        indicators.set(
+          indicatorExternalId,
+          await loadIndicatorState(ctx, indicatorExternalId)
+        );
+      }
+      const indicator = indicators.get(indicatorExternalId);
+      if (!indicator) continue;
+      evaluated++;
+
+      const { status, achievedAt } = evaluateMilestone(
+        milestone,
+        indicator,
+        now
+      );
+      if (status === milestone.status) continue;
+
+      await ctx.db.patch(milestone._id, {
+        status,
+        achievedAt,
+        syncStatus: "pending",
+        updatedAt: now,
+      });
+      await recordEntityHistory(
+        ctx,
+        "milestone",
+        "update",
+        milestone,
+        milestone._id,
+        {}
+      );
+      await queueEntityUpdate(
+        ctx,
+        "milestone",
+        milestone,
+        buildEntitySnapshot(
+          "milestone",
+          { ...milestone, status, achievedAt },
+          now
+        )
+      );
+      updated++;
+    }
+
+    // Continue with the next page, or the next open status
+    const nextStatus = OPEN_STATUSES[OPEN_STATUSES.indexOf(openStatus) + 1];
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.entities.milestoneStatus.evaluateMilestoneStatuses,
+        { status: openStatus, cursor: continueCursor }
+      );
+    } else if (nextStatus) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.entities.milestoneStatus.evaluateMilestoneStatuses,
+        { status: nextStatus, cursor: null }
+      );
+    }
+
+    if (updated > 0) {
+      console.log(
+        `[okrhub] milestone statuses evaluated=${evaluated} updated=${updated}`
+      );
+    }
+
+    return { evaluated, updated };
+  },
+});
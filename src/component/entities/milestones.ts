@@ -5,14 +5,25 @@
  */
 
 import { v } from "convex/values";
-import { anyApi } from "convex/server";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
 import { mutation, query } from "../_generated/server.js";
 import { generateScopedDescriptionExternalId } from "../externalId.js";
 import { assertValidExternalId, generateSlug } from "../lib/validation.js";
 import {
   MilestoneStatusSchema,
   SyncStatusSchema,
+  DeleteModeSchema,
 } from "../schema.js";
+import {
+  deleteWithMode,
+  queueEntityUpdate,
+  restoreEntity,
+} from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
 
 // ============================================================================
 // LOCAL CRUD MUTATIONS
@@ -31,6 +42,7 @@ export const createMilestone = mutation({
     forecastDate: v.optional(v.number()),
     status: v.optional(MilestoneStatusSchema),
     achievedAt: v.optional(v.number()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -110,6 +122,14 @@ export const createMilestone = mutation({
         syncStatus: "pending",
         createdAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "milestone",
+        "create",
+        null,
+        localId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       const payload = JSON.stringify({
         externalId,
@@ -180,20 +200,217 @@ export const getAllMilestones = query({
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
     return await ctx.db
       .query("milestones")
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
       .collect();
   },
 });
 
+/**
+ * Pages through local milestones, excluding deleted ones.
+ * Index-backed, for use with usePaginatedQuery.
+ */
+export const getAllMilestonesPaginated = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("milestones"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      indicatorExternalId: v.string(),
+      description: v.string(),
+      value: v.number(),
+      forecastDate: v.optional(v.number()),
+      status: MilestoneStatusSchema, // Required
+      achievedAt: v.optional(v.number()),
+      slug: v.string(),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      updatedAt: v.optional(v.number()),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("milestones")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(args.paginationOpts);
+  },
+});
+
 // ============================================================================
 // UPDATE MUTATIONS
 // ============================================================================
 
+/**
+ * Soft-deletes a milestone by setting deletedAt and queues a tombstone
+ * so LinkHub deletes it too.
+ * `mode` decides what happens to its children (default "orphan").
+ */
+export const deleteMilestone = mutation({
+  args: {
+    externalId: v.string(),
+    mode: v.optional(DeleteModeSchema),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    cascadedCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const milestone = await ctx.db
+        .query("milestones")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!milestone) {
+        return {
+          success: false,
+          externalId,
+          error: `Milestone not found: ${externalId}`,
+        };
+      }
+
+      // Already deleted: the tombstone was queued the first time
+      if (milestone.deletedAt !== undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await deleteWithMode(
+        ctx,
+        "milestone",
+        milestone,
+        args.mode ?? "orphan",
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        cascadedCount: result.cascadedCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
+/**
+ * Restores a soft-deleted milestone and queues the restore for sync.
+ * With `restoreChildren`, children deleted in the same cascade come back too.
+ */
+export const restoreMilestone = mutation({
+  args: {
+    externalId: v.string(),
+    restoreChildren: v.optional(v.boolean()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    restoredCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const milestone = await ctx.db
+        .query("milestones")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!milestone) {
+        return {
+          success: false,
+          externalId,
+          error: `Milestone not found: ${externalId}`,
+        };
+      }
+
+      // Not deleted: nothing to restore
+      if (milestone.deletedAt === undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await restoreEntity(
+        ctx,
+        "milestone",
+        milestone,
+        args.restoreChildren ?? false,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        restoredCount: result.restoredCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
 /**
  * Updates a milestone locally and queues for sync
  * Resets syncStatus to "pending"
@@ -206,6 +423,8 @@ export const updateMilestone = mutation({
     forecastDate: v.optional(v.number()),
     status: v.optional(MilestoneStatusSchema),
     achievedAt: v.optional(v.number()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -232,6 +451,15 @@ export const updateMilestone = mutation({
         };
       }
 
+      // Restore it first: an update would re-send the deleted entity as live
+      if (milestone.deletedAt !== undefined) {
+        return {
+          success: false,
+          externalId,
+          error: `Milestone is deleted: ${externalId}`,
+        };
+      }
+
       const now = Date.now();
 
       // Update the milestone
@@ -244,6 +472,14 @@ export const updateMilestone = mutation({
         syncStatus: "pending",
         updatedAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "milestone",
+        "update",
+        milestone,
+        milestone._id,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Create payload for sync with updated values
       const updatedMilestone = {
@@ -257,17 +493,8 @@ export const updateMilestone = mutation({
         updatedAt: now,
       };
 
-      const payload = JSON.stringify(updatedMilestone);
-
-      // Add to sync queue
-      const queueId = await ctx.runMutation(
-        (anyApi as any).sync.queue.addToSyncQueue,
-        {
-          entityType: "milestone",
-          externalId,
-          payload,
-        }
-      );
+      // Queue a patch, or the full payload while LinkHub lacks the entity
+      const queueId = await queueEntityUpdate(ctx, "milestone", milestone, updatedMilestone);
 
       return {
         success: true,
@@ -5,11 +5,21 @@
  */
 
 import { v } from "convex/values";
-import { anyApi } from "convex/server";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
 import { mutation, query } from "../_generated/server.js";
 import { generateScopedDescriptionExternalId } from "../externalId.js";
 import { assertValidExternalId, generateSlug } from "../lib/validation.js";
-import { SyncStatusSchema } from "../schema.js";
+import { SyncStatusSchema, DeleteModeSchema } from "../schema.js";
+import {
+  deleteWithMode,
+  queueEntityUpdate,
+  restoreEntity,
+} from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
 
 // ============================================================================
 // LOCAL CRUD MUTATIONS
@@ -26,6 +36,7 @@ export const createObjective = mutation({
     description: v.string(),
     teamExternalId: v.string(),
     metadata: v.optional(v.any()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -78,6 +89,14 @@ export const createObjective = mutation({
         syncStatus: "pending",
         createdAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "objective",
+        "create",
+        null,
+        localId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Create payload for sync
       const payload = JSON.stringify({
@@ -147,6 +166,8 @@ export const getObjectiveByExternalId = query({
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     }),
     v.null()
   ),
@@ -178,13 +199,16 @@ export const getObjectivesByTeam = query({
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("objectives")
-      .withIndex("by_team", (q) => q.eq("teamExternalId", args.teamExternalId))
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_team_deleted_at", (q) =>
+        q.eq("teamExternalId", args.teamExternalId).eq("deletedAt", undefined)
+      )
       .collect();
   },
 });
@@ -207,20 +231,215 @@ export const getAllObjectives = query({
       createdAt: v.number(),
       updatedAt: v.optional(v.number()),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
     return await ctx.db
       .query("objectives")
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
       .collect();
   },
 });
 
+/**
+ * Pages through local objectives, excluding deleted ones.
+ * Index-backed, for use with usePaginatedQuery.
+ */
+export const getAllObjectivesPaginated = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("objectives"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      title: v.string(),
+      description: v.string(),
+      teamExternalId: v.string(),
+      slug: v.string(),
+      metadata: v.optional(v.any()),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      updatedAt: v.optional(v.number()),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("objectives")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(args.paginationOpts);
+  },
+});
+
 // ============================================================================
 // UPDATE MUTATIONS
 // ============================================================================
 
+/**
+ * Soft-deletes an objective by setting deletedAt and queues a tombstone
+ * so LinkHub deletes it too.
+ * `mode` decides what happens to its children (default "orphan").
+ */
+export const deleteObjective = mutation({
+  args: {
+    externalId: v.string(),
+    mode: v.optional(DeleteModeSchema),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    cascadedCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const objective = await ctx.db
+        .query("objectives")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!objective) {
+        return {
+          success: false,
+          externalId,
+          error: `Objective not found: ${externalId}`,
+        };
+      }
+
+      // Already deleted: the tombstone was queued the first time
+      if (objective.deletedAt !== undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await deleteWithMode(
+        ctx,
+        "objective",
+        objective,
+        args.mode ?? "orphan",
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        cascadedCount: result.cascadedCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
+/**
+ * Restores a soft-deleted objective and queues the restore for sync.
+ * With `restoreChildren`, children deleted in the same cascade come back too.
+ */
+export const restoreObjective = mutation({
+  args: {
+    externalId: v.string(),
+    restoreChildren: v.optional(v.boolean()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    restoredCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const objective = await ctx.db
+        .query("objectives")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!objective) {
+        return {
+          success: false,
+          externalId,
+          error: `Objective not found: ${externalId}`,
+        };
+      }
+
+      // Not deleted: nothing to restore
+      if (objective.deletedAt === undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await restoreEntity(
+        ctx,
+        "objective",
+        objective,
+        args.restoreChildren ?? false,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        restoredCount: result.restoredCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
 /**
  * Updates an objective locally and queues for sync
  * Resets syncStatus to "pending"
@@ -231,6 +450,8 @@ export const updateObjective = mutation({
     title: v.optional(v.string()),
     description: v.optional(v.string()),
     metadata: v.optional(v.any()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -256,6 +477,15 @@ export const updateObjective = mutation({
         };
       }
 
+      // Restore it first: an update would re-send the deleted entity as live
+      if (objective.deletedAt !== undefined) {
+        return {
+          success: false,
+          externalId,
+          error: `Objective is deleted: ${externalId}`,
+        };
+      }
+
       const now = Date.now();
 
       // Update the objective
@@ -266,6 +496,14 @@ export const updateObjective = mutation({
         syncStatus: "pending",
         updatedAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "objective",
+        "update",
+        objective,
+        objective._id,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Create payload for sync with updated values
       const updatedObjective = {
@@ -276,17 +514,8 @@ export const updateObjective = mutation({
         updatedAt: now,
       };
 
-      const payload = JSON.stringify(updatedObjective);
-
-      // Add to sync queue
-      const queueId = await ctx.runMutation(
-        (anyApi as any).sync.queue.addToSyncQueue,
-        {
-          entityType: "objective",
-          externalId,
-          payload,
-        }
-      );
+      // Queue a patch, or the full payload while LinkHub lacks the entity
+      const queueId = await queueEntityUpdate(ctx, "objective", objective, updatedObjective);
 
       return {
         success: true,
@@ -0,0 +1,149 @@
+/**
+ * Progress for OKRHub Component
+ *
+ * Key result progress is the latest value of the key result's indicator
+ * as a percent of its targetValue. Objective progress is the weighted
+ * average of its key results' progress.
+ */
+
+import { v } from "convex/values";
+import type { Doc } from "../_generated/dataModel.js";
+import { query, type QueryCtx } from "../_generated/server.js";
+import { computePercentToTarget, rollUpProgress } from "../lib/progress.js";
+
+const keyResultProgressValidator = v.object({
+  keyResultExternalId: v.string(),
+  indicatorExternalId: v.string(),
+  isReverse: v.boolean(),
+  targetValue: v.optional(v.number()),
+  forecastValue: v.optional(v.number()),
+  currentValue: v.optional(v.number()),
+  currentValueDate: v.optional(v.number()),
+  weight: v.optional(v.number()),
+  // null when the key result has no target or its indicator no value yet
+  progress: v.union(v.number(), v.null()),
+  forecastProgress: v.union(v.number(), v.null()),
+});
+
+type KeyResultProgress = typeof keyResultProgressValidator.type;
+
+const objectiveProgressValidator = v.object({
+  objectiveExternalId: v.string(),
+  progress: v.union(v.number(), v.null()),
+  keyResults: v.array(keyResultProgressValidator),
+});
+
+/**
+ * Computes a key result's progress from its indicator's latest value
+ */
+async function computeKeyResultProgress(
+  ctx: QueryCtx,
+  keyResult: Doc<"keyResults">
+): Promise<KeyResultProgress> {
+  const { indicatorExternalId, targetValue, forecastValue } = keyResult;
+
+  const indicator = await ctx.db
+    .query("indicators")
+    .withIndex("by_external_id", (q) =>
+      q.eq("externalId", indicatorExternalId)
+    )
+    .first();
+  const isReverse = indicator?.isReverse ?? false;
+
+  const latestValue = await ctx.db
+    .query("indicatorValues")
+    .withIndex("by_indicator_date", (q) =>
+      q.eq("indicatorExternalId", indicatorExternalId)
+    )
+    .order("desc")
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .first();
+
+  return {
+    keyResultExternalId: keyResult.externalId,
+    indicatorExternalId,
+    isReverse,
+    targetValue,
+    forecastValue,
+    currentValue: latestValue?.value,
+    currentValueDate: latestValue?.date,
+    weight: keyResult.weight,
+    progress:
+      latestValue && targetValue !== undefined
+        ? computePercentToTarget(latestValue.value, targetValue, isReverse)
+        : null,
+    forecastProgress:
+      forecastValue !== undefined && targetValue !== undefined
+        ? computePercentToTarget(forecastValue, targetValue, isReverse)
+        : null,
+  };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Gets a key result's progress towards its targetValue (0-100), from the
+ * latest value of its indicator. Reverse indicators count a value at or
+ * below the target as done. Returns null for unknown or deleted key
+ * results.
+ */
+export const getKeyResultProgress = query({
+  args: {
+    externalId: v.string(),
+  },
+  returns: v.union(keyResultProgressValidator, v.null()),
+  handler: async (ctx, args) => {
+    const keyResult = await ctx.db
+      .query("keyResults")
+      .withIndex("by_external_id", (q) => q.eq("externalId", args.externalId))
+      .first();
+    if (!keyResult || keyResult.deletedAt !== undefined) {
+      return null;
+    }
+    return await computeKeyResultProgress(ctx, keyResult);
+  },
+});
+
+/**
+ * Gets an objective's progress (0-100): the average of its key results'
+ * progress, weighted by the weight LinkHub assigns to each key result.
+ * Key results without progress are listed but left out of the average.
+ * Returns null for unknown or deleted objectives.
+ */
+export const getObjectiveProgress = query({
+  args: {
+    externalId: v.string(),
+  },
+  returns: v.union(objectiveProgressValidator, v.null()),
+  handler: async (ctx, args) => {
+    const objective = await ctx.db
+      .query("objectives")
+      .withIndex("by_external_id", (q) => q.eq("externalId", args.externalId))
+      .first();
+    if (!objective || objective.deletedAt !== undefined) {
+      return null;
+    }
+
+    const keyResults = await ctx.db
+      .query("keyResults")
+      .withIndex("by_objective_deleted_at", (q) =>
+        q
+          .eq("objectiveExternalId", objective.externalId)
+          .eq("deletedAt", undefined)
+      )
+      .collect();
+
+    const keyResultProgress: KeyResultProgress[] = [];
+    for (const keyResult of keyResults) {
+      keyResultProgress.push(await computeKeyResultProgress(ctx, keyResult));
+    }
+
+    return {
+      objectiveExternalId: objective.externalId,
+      progress: rollUpProgress(keyResultProgress),
+      keyResults: keyResultProgress,
+    };
+  },
+});
@@ -0,0 +1,152 @@
+/**
+ * Risk Triggers for OKRHub Component
+ *
+ * A risk with an indicator and a triggerValue turns red when the
+ * indicator's latest value (or latest forecast, with useForecastAsTrigger)
+ * crosses the trigger: below it with triggeredIfLower, above it otherwise.
+ * Creating, updating, deleting or restoring an indicator value or forecast
+ * re-evaluates the risks on that indicator, so red risks show up locally without waiting for LinkHub.
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "../_generated/server.js";
+import { RiskTriggerSourceSchema, type RiskTriggerSource } from "../schema.js";
+import { buildEntitySnapshot, queueEntityUpdate } from "./lifecycle.js";
+import { recordEntityHistory, type EntityAudit } from "./history.js";
+
+const riskTriggerEventValidator = v.object({
+  _id: v.id("riskTriggerEvents"),
+  _creationTime: v.number(),
+  riskExternalId: v.string(),
+  indicatorExternalId: v.string(),
+  source: RiskTriggerSourceSchema,
+  sourceExternalId: v.string(),
+  value: v.number(),
+  triggerValue: v.number(),
+  triggeredIfLower: v.boolean(),
+  isRed: v.boolean(),
+  triggeredAt: v.number(),
+});
+
+/**
+ * Returns the most recent (by date) non-deleted value or forecast of an
+ * indicator
+ */
+async function getLatestPoint(
+  ctx: QueryCtx,
+  indicatorExternalId: string,
+  source: RiskTriggerSource
+): Promise<{ externalId: string; value: number } | null> {
+  const table = source === "forecast" ? "indicatorForecasts" : "indicatorValues";
+  return await ctx.db
+    .query(table as "indicatorValues")
+    .withIndex("by_indicator_date", (q) =>
+      q.eq("indicatorExternalId", indicatorExternalId)
+    )
+    .order("desc")
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .first();
+}
+
+/**
+ * Re-evaluates every active risk with a triggerValue on an indicator.
+ * Risks whose isRed changes are updated, queued for sync and get a
+ * trigger event. Returns the number of risks that flipped.
+ */
+export async function evaluateRisksForIndicator(
+  ctx: MutationCtx,
+  indicatorExternalId: string,
+  audit: EntityAudit
+): Promise<number> {
+  const risks = await ctx.db
+    .query("risks")
+    .withIndex("by_indicator_deleted_at", (q) =>
+      q
+        .eq("indicatorExternalId", indicatorExternalId)
+        .eq("deletedAt", undefined)
+    )
+    .collect();
+
+  const latest = new Map<
+    RiskTriggerSource,
+    { externalId: string; value: number } | null
+  >();
+  let flipped = 0;
+
+  for (const risk of risks) {
+    const { triggerValue } = risk;
+    if (triggerValue === undefined) continue;
+
+    const source: RiskTriggerSource = risk.useForecastAsTrigger
+      ? "forecast"
+      : "value";
+    if (!latest.has(source)) {
+      latest.set(
+        source,
+        await getLatestPoint(ctx, indicatorExternalId, source)
+      );
+    }
+    const point = latest.get(source);
+    if (!point) continue;
+
+    const triggeredIfLower = risk.triggeredIfLower ?? false;
+    const isRed = triggeredIfLower
+      ? point.value < triggerValue
+      : point.value > triggerValue;
+    if (isRed === (risk.isRed ?? false)) continue;
+
+    const now = Date.now();
+    await ctx.db.patch(risk._id, { isRed, syncStatus: "pending" });
+    await recordEntityHistory(ctx, "risk", "update", risk, risk._id, audit);
+    await queueEntityUpdate(
+      ctx,
+      "risk",
+      risk,
+      buildEntitySnapshot("risk", { ...risk, isRed }, now)
+    );
+    await ctx.db.insert("riskTriggerEvents", {
+      riskExternalId: risk.externalId,
+      indicatorExternalId,
+      source,
+      sourceExternalId: point.externalId,
+      value: point.value,
+      triggerValue,
+      triggeredIfLower,
+      isRed,
+      triggeredAt: now,
+    });
+    flipped++;
+
+    console.log(
+      `[okrhub] risk trigger externalId=${risk.externalId} isRed=${isRed} ${source}=${point.value} triggerValue=${triggerValue}`
+    );
+  }
+
+  return flipped;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Lists the trigger events of a risk, most recent first
+ */
+export const getRiskTriggerEvents = query({
+  args: {
+    riskExternalId: v.string(),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(riskTriggerEventValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("riskTriggerEvents")
+      .withIndex("by_risk", (q) => q.eq("riskExternalId", args.riskExternalId))
+      .order("desc")
+      .take(args.limit ?? 50);
+  },
+});
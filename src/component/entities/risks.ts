@@ -5,7 +5,11 @@
  */
 
 import { v } from "convex/values";
-import { anyApi } from "convex/server";
+import {
+  anyApi,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
 import { mutation, query } from "../_generated/server.js";
 import { generateScopedDescriptionExternalId } from "../externalId.js";
 import { assertValidExternalId, generateSlug } from "../lib/validation.js";
@@ -13,7 +17,14 @@ import { stripLinkHubManagedFields } from "../lib/payloadPolicy.js";
 import {
   PrioritySchema,
   SyncStatusSchema,
+  DeleteModeSchema,
 } from "../schema.js";
+import {
+  deleteWithMode,
+  queueEntityUpdate,
+  restoreEntity,
+} from "./lifecycle.js";
+import { recordEntityHistory } from "./history.js";
 
 // ============================================================================
 // LOCAL CRUD MUTATIONS
@@ -36,6 +47,7 @@ export const createRisk = mutation({
     useForecastAsTrigger: v.optional(v.boolean()),
     isRed: v.optional(v.boolean()),
     metadata: v.optional(v.any()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -126,6 +138,14 @@ export const createRisk = mutation({
         syncStatus: "pending",
         createdAt: now,
       });
+      await recordEntityHistory(
+        ctx,
+        "risk",
+        "create",
+        null,
+        localId,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       const payload = JSON.stringify(stripLinkHubManagedFields("risk", {
         externalId,
@@ -204,6 +224,8 @@ export const getRiskByExternalId = query({
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     }),
     v.null()
   ),
@@ -241,13 +263,16 @@ export const getRisksByTeam = query({
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("risks")
-      .withIndex("by_team", (q) => q.eq("teamExternalId", args.teamExternalId))
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_team_deleted_at", (q) =>
+        q.eq("teamExternalId", args.teamExternalId).eq("deletedAt", undefined)
+      )
       .collect();
   },
 });
@@ -277,15 +302,18 @@ export const getRisksByKeyResult = query({
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("risks")
-      .withIndex("by_key_result", (q) =>
-        q.eq("keyResultExternalId", args.keyResultExternalId)
+      .withIndex("by_key_result_deleted_at", (q) =>
+        q
+          .eq("keyResultExternalId", args.keyResultExternalId)
+          .eq("deletedAt", undefined)
       )
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
   },
 });
@@ -313,30 +341,157 @@ export const getAllRisks = query({
       syncStatus: SyncStatusSchema,
       createdAt: v.number(),
       deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
     return await ctx.db
       .query("risks")
-      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
       .collect();
   },
 });
 
+/**
+ * Pages through local risks, excluding deleted ones.
+ * Index-backed, for use with usePaginatedQuery.
+ */
+export const getAllRisksPaginated = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("risks"),
+      _creationTime: v.number(),
+      externalId: v.string(),
+      description: v.string(),
+      teamExternalId: v.string(),
+      keyResultExternalId: v.string(), // Required
+      priority: PrioritySchema,
+      indicatorExternalId: v.optional(v.string()),
+      triggerValue: v.optional(v.number()),
+      triggeredIfLower: v.optional(v.boolean()),
+      useForecastAsTrigger: v.optional(v.boolean()),
+      isRed: v.optional(v.boolean()),
+      slug: v.string(),
+      metadata: v.optional(v.any()),
+      syncStatus: SyncStatusSchema,
+      createdAt: v.number(),
+      deletedAt: v.optional(v.number()),
+      revision: v.optional(v.number()),
+      remoteRevision: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("risks")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .paginate(args.paginationOpts);
+  },
+});
+
 // ============================================================================
 // UPDATE MUTATIONS
 // ============================================================================
 
 /**
- * Soft-deletes a risk by setting deletedAt
+ * Soft-deletes a risk by setting deletedAt and queues a tombstone
+ * so LinkHub deletes it too.
+ * `mode` decides what happens to its children (default "orphan").
  */
 export const deleteRisk = mutation({
   args: {
     externalId: v.string(),
+    mode: v.optional(DeleteModeSchema),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    cascadedCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { externalId } = args;
+
+    try {
+      const risk = await ctx.db
+        .query("risks")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+
+      if (!risk) {
+        return {
+          success: false,
+          externalId,
+          error: `Risk not found: ${externalId}`,
+        };
+      }
+
+      // Already deleted: the tombstone was queued the first time
+      if (risk.deletedAt !== undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await deleteWithMode(
+        ctx,
+        "risk",
+        risk,
+        args.mode ?? "orphan",
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        externalId,
+        queueId: result.queueId,
+        cascadedCount: result.cascadedCount,
+      };
+    } catch (error) {
+      const errorMessage =
+        error && typeof error === "object" && "message" in error
+          ? (error.message as string)
+          : "Unknown error";
+
+      return {
+        success: false,
+        externalId,
+        error: errorMessage,
+      };
+    }
+  },
+});
+
+/**
+ * Restores a soft-deleted risk and queues the restore for sync.
+ * With `restoreChildren`, children deleted in the same cascade come back too.
+ */
+export const restoreRisk = mutation({
+  args: {
+    externalId: v.string(),
+    restoreChildren: v.optional(v.boolean()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
     externalId: v.string(),
+    queueId: v.optional(v.id("syncQueue")),
+    restoredCount: v.optional(v.number()),
     error: v.optional(v.string()),
   }),
   handler: async (ctx, args) => {
@@ -356,11 +511,34 @@ export const deleteRisk = mutation({
         };
       }
 
-      await ctx.db.patch(risk._id, { deletedAt: Date.now() });
+      // Not deleted: nothing to restore
+      if (risk.deletedAt === undefined) {
+        return {
+          success: true,
+          externalId,
+        };
+      }
+
+      const result = await restoreEntity(
+        ctx,
+        "risk",
+        risk,
+        args.restoreChildren ?? false,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
+      if (!result.success) {
+        return {
+          success: false,
+          externalId,
+          error: result.error,
+        };
+      }
 
       return {
         success: true,
         externalId,
+        queueId: result.queueId,
+        restoredCount: result.restoredCount,
       };
     } catch (error) {
       const errorMessage =
@@ -393,6 +571,8 @@ export const updateRisk = mutation({
     useForecastAsTrigger: v.optional(v.boolean()),
     isRed: v.optional(v.boolean()),
     metadata: v.optional(v.any()),
+    sourceUrl: v.optional(v.string()),
+    actor: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -428,6 +608,15 @@ export const updateRisk = mutation({
         };
       }
 
+      // Restore it first: an update would re-send the deleted entity as live
+      if (risk.deletedAt !== undefined) {
+        return {
+          success: false,
+          externalId,
+          error: `Risk is deleted: ${externalId}`,
+        };
+      }
+
       // Validate external IDs if provided
       if (keyResultExternalId) {
         assertValidExternalId(keyResultExternalId, "keyResultExternalId");
@@ -451,6 +640,14 @@ export const updateRisk = mutation({
         ...(args.metadata !== undefined && { metadata: args.metadata }),
         syncStatus: "pending",
       });
+      await recordEntityHistory(
+        ctx,
+        "risk",
+        "update",
+        risk,
+        risk._id,
+        { actor: args.actor, sourceUrl: args.sourceUrl }
+      );
 
       // Build full payload from current state, then apply managed-field policy
       const updatedRisk = stripLinkHubManagedFields("risk", {
@@ -466,17 +663,8 @@ export const updateRisk = mutation({
         isRed: isRed ?? risk.isRed,
       });
 
-      const payload = JSON.stringify(updatedRisk);
-
-      // Add to sync queue
-      const queueId = await ctx.runMutation(
-        (anyApi as any).sync.queue.addToSyncQueue,
-        {
-          entityType: "risk",
-          externalId,
-          payload,
-        }
-      );
+      // Queue a patch, or the full payload while LinkHub lacks the entity
+      const queueId = await queueEntityUpdate(ctx, "risk", risk, updatedRisk);
 
       return {
         success: true,
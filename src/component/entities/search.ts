@@ -0,0 +1,211 @@
+/**
+ * Full-text Search for OKRHub Component
+ *
+ * Searches objective titles and the descriptions of objectives, risks,
+ * initiatives and milestones through Convex search indexes, and merges
+ * the hits of every index into one ranked list.
+ */
+
+import { v } from "convex/values";
+import { query, type QueryCtx } from "../_generated/server.js";
+
+const searchHitValidator = v.object({
+  entityType: v.string(),
+  externalId: v.string(),
+  title: v.optional(v.string()),
+  description: v.string(),
+  teamExternalId: v.optional(v.string()),
+  deletedAt: v.optional(v.number()),
+  score: v.number(),
+});
+
+type SearchHit = typeof searchHitValidator.type;
+
+// Hits on an objective title count double: titles are short and chosen
+const TITLE_WEIGHT = 2;
+
+// Damps the gap between the first few ranks (reciprocal rank fusion)
+const RANK_OFFSET = 60;
+
+/**
+ * Adds the hits of one search index to the merged list. Convex returns
+ * hits by relevance without exposing a score, so each hit scores by its
+ * rank; an entity found by several indexes adds up its scores.
+ */
+function addRankedHits(
+  hits: Map<string, SearchHit>,
+  entityType: string,
+  docs: Array<{
+    externalId: string;
+    title?: string;
+    description: string;
+    teamExternalId?: string;
+    deletedAt?: number;
+  }>,
+  weight: number
+): void {
+  docs.forEach((doc, rank) => {
+    const score = weight / (RANK_OFFSET + rank + 1);
+    const key = `${entityType}:${doc.externalId}`;
+    const existing = hits.get(key);
+    if (existing) {
+      existing.score += score;
+      return;
+    }
+    hits.set(key, {
+      entityType,
+      externalId: doc.externalId,
+      title: doc.title,
+      description: doc.description,
+      teamExternalId: doc.teamExternalId,
+      deletedAt: doc.deletedAt,
+      score,
+    });
+  });
+}
+
+/**
+ * Whether an indicator backs one of a team's key results. Milestones
+ * belong to an indicator rather than a team, so this is how they are
+ * scoped to a team.
+ */
+async function isTeamIndicator(
+  ctx: QueryCtx,
+  indicatorExternalId: string,
+  teamExternalId: string,
+  includeDeleted: boolean
+): Promise<boolean> {
+  const keyResult = await ctx.db
+    .query("keyResults")
+    .withIndex("by_indicator", (q) =>
+      q.eq("indicatorExternalId", indicatorExternalId)
+    )
+    .filter((q) =>
+      includeDeleted
+        ? q.eq(q.field("teamExternalId"), teamExternalId)
+        : q.and(
+            q.eq(q.field("teamExternalId"), teamExternalId),
+            q.eq(q.field("deletedAt"), undefined)
+          )
+    )
+    .first();
+  return keyResult !== null;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Searches objectives, risks, initiatives and milestones by the words in
+ * their title or description, best matches first.
+ *
+ * With `teamExternalId`, only that team's entities are searched. A
+ * milestone counts as the team's when its indicator backs one of the
+ * team's key results; milestone hits are filtered after the search, so
+ * fewer than `limit` may remain. Deleted entities are skipped unless
+ * `includeDeleted` is set.
+ * `limit` caps the merged list and the hits read from each index.
+ */
+export const searchOkr = query({
+  args: {
+    query: v.string(),
+    teamExternalId: v.optional(v.string()),
+    includeDeleted: v.optional(v.boolean()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(searchHitValidator),
+  handler: async (ctx, args) => {
+    const text = args.query.trim();
+    if (!text) {
+      return [];
+    }
+    const limit = args.limit ?? 20;
+    const { teamExternalId, includeDeleted } = args;
+    const hits = new Map<string, SearchHit>();
+
+    const objectivesByTitle = await ctx.db
+      .query("objectives")
+      .withSearchIndex("search_title", (q) => {
+        const search = q.search("title", text);
+        const scoped = teamExternalId
+          ? search.eq("teamExternalId", teamExternalId)
+          : search;
+        return includeDeleted ? scoped : scoped.eq("deletedAt", undefined);
+      })
+      .take(limit);
+    addRankedHits(hits, "objective", objectivesByTitle, TITLE_WEIGHT);
+
+    const objectives = await ctx.db
+      .query("objectives")
+      .withSearchIndex("search_description", (q) => {
+        const search = q.search("description", text);
+        const scoped = teamExternalId
+          ? search.eq("teamExternalId", teamExternalId)
+          : search;
+        return includeDeleted ? scoped : scoped.eq("deletedAt", undefined);
+      })
+      .take(limit);
+    addRankedHits(hits, "objective", objectives, 1);
+
+    const risks = await ctx.db
+      .query("risks")
+      .withSearchIndex("search_description", (q) => {
+        const search = q.search("description", text);
+        const scoped = teamExternalId
+          ? search.eq("teamExternalId", teamExternalId)
+          : search;
+        return includeDeleted ? scoped : scoped.eq("deletedAt", undefined);
+      })
+      .take(limit);
+    addRankedHits(hits, "risk", risks, 1);
+
+    const initiatives = await ctx.db
+      .query("initiatives")
+      .withSearchIndex("search_description", (q) => {
+        const search = q.search("description", text);
+        const scoped = teamExternalId
+          ? search.eq("teamExternalId", teamExternalId)
+          : search;
+        return includeDeleted ? scoped : scoped.eq("deletedAt", undefined);
+      })
+      .take(limit);
+    addRankedHits(hits, "initiative", initiatives, 1);
+
+    const milestones = await ctx.db
+      .query("milestones")
+      .withSearchIndex("search_description", (q) => {
+        const search = q.search("description", text);
+        return includeDeleted ? search : search.eq("deletedAt", undefined);
+      })
+      .take(limit);
+    if (teamExternalId) {
+      const teamIndicators = new Map<string, boolean>();
+      const teamMilestones = [];
+      for (const milestone of milestones) {
+        const { indicatorExternalId } = milestone;
+        if (!teamIndicators.has(indicatorExternalId)) {
+          teamIndicators.set(
+            indicatorExternalId,
+            await isTeamIndicator(
+              ctx,
+              indicatorExternalId,
+              teamExternalId,
+              includeDeleted ?? false
+            )
+          );
+        }
+        if (teamIndicators.get(indicatorExternalId)) {
+          teamMilestones.push({ ...milestone, teamExternalId });
+        }
+      }
+      addRankedHits(hits, "milestone", teamMilestones, 1);
+    } else {
+      addRankedHits(hits, "milestone", milestones, 1);
+    }
+
+    return [...hits.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  },
+});
@@ -0,0 +1,282 @@
+/**
+ * OKR Tree for OKRHub Component
+ *
+ * Reads a team's whole hierarchy in one query: objectives, their key
+ * results with the indicator behind each one, the risks on those key
+ * results and the initiatives on those risks. Deleted entities are left
+ * out at every level.
+ */
+
+import { v } from "convex/values";
+import type { Doc } from "../_generated/dataModel.js";
+import { query, type QueryCtx } from "../_generated/server.js";
+import schema from "../schema.js";
+
+// Entities in the tree are their table's documents. Every field but
+// externalId is optional, since `fields` may leave it out.
+const objectiveValidator = schema.tables.objectives.validator
+  .extend({ _id: v.id("objectives"), _creationTime: v.number() })
+  .partial()
+  .extend({ externalId: v.string() });
+const keyResultValidator = schema.tables.keyResults.validator
+  .extend({ _id: v.id("keyResults"), _creationTime: v.number() })
+  .partial()
+  .extend({ externalId: v.string() });
+const riskValidator = schema.tables.risks.validator
+  .extend({ _id: v.id("risks"), _creationTime: v.number() })
+  .partial()
+  .extend({ externalId: v.string() });
+const initiativeValidator = schema.tables.initiatives.validator
+  .extend({ _id: v.id("initiatives"), _creationTime: v.number() })
+  .partial()
+  .extend({ externalId: v.string() });
+const indicatorValidator = schema.tables.indicators.validator
+  .extend({ _id: v.id("indicators"), _creationTime: v.number() })
+  .partial()
+  .extend({ externalId: v.string() });
+const indicatorValueValidator = schema.tables.indicatorValues.validator
+  .extend({ _id: v.id("indicatorValues"), _creationTime: v.number() })
+  .partial()
+  .extend({ externalId: v.string() });
+const indicatorForecastValidator = schema.tables.indicatorForecasts.validator
+  .extend({ _id: v.id("indicatorForecasts"), _creationTime: v.number() })
+  .partial()
+  .extend({ externalId: v.string() });
+const milestoneValidator = schema.tables.milestones.validator
+  .extend({ _id: v.id("milestones"), _creationTime: v.number() })
+  .partial()
+  .extend({ externalId: v.string() });
+
+const indicatorNodeValidator = v.object({
+  indicator: indicatorValidator,
+  latestValue: v.union(indicatorValueValidator, v.null()),
+  latestForecast: v.union(indicatorForecastValidator, v.null()),
+  milestones: v.array(milestoneValidator),
+});
+
+const riskNodeValidator = v.object({
+  risk: riskValidator,
+  initiatives: v.optional(v.array(initiativeValidator)),
+});
+
+const keyResultNodeValidator = v.object({
+  keyResult: keyResultValidator,
+  indicator: v.union(indicatorNodeValidator, v.null()),
+  risks: v.optional(v.array(riskNodeValidator)),
+});
+
+const objectiveNodeValidator = v.object({
+  objective: objectiveValidator,
+  keyResults: v.optional(v.array(keyResultNodeValidator)),
+});
+
+type IndicatorNode = typeof indicatorNodeValidator.type;
+type RiskNode = typeof riskNodeValidator.type;
+type KeyResultNode = typeof keyResultNodeValidator.type;
+type ObjectiveNode = typeof objectiveNodeValidator.type;
+
+// Tree levels, as counted by the `depth` arg (objectives are level 1)
+const DEPTH_KEY_RESULTS = 2;
+const DEPTH_RISKS = 3;
+const DEPTH_INITIATIVES = 4;
+
+/**
+ * Keeps only the selected fields of an entity, plus its externalId.
+ * Without a selection the entity is returned whole.
+ */
+function selectFields<T extends { externalId: string }>(
+  doc: T,
+  fields: string[] | undefined
+): Partial<T> & { externalId: string } {
+  if (!fields) {
+    return doc;
+  }
+  const selected: Partial<T> & { externalId: string } = {
+    externalId: doc.externalId,
+  } as Partial<T> & { externalId: string };
+  for (const field of fields) {
+    if (field in doc) {
+      selected[field as keyof T] = doc[field as keyof T];
+    }
+  }
+  return selected;
+}
+
+/**
+ * Loads an indicator with its most recent value and forecast and its
+ * milestones. Returns null when the indicator is missing or deleted.
+ */
+async function loadIndicatorNode(
+  ctx: QueryCtx,
+  indicatorExternalId: string,
+  fields: Record<string, string[]>
+): Promise<IndicatorNode | null> {
+  const indicator = await ctx.db
+    .query("indicators")
+    .withIndex("by_external_id", (q) =>
+      q.eq("externalId", indicatorExternalId)
+    )
+    .first();
+  if (!indicator || indicator.deletedAt !== undefined) {
+    return null;
+  }
+
+  const latestValue = await ctx.db
+    .query("indicatorValues")
+    .withIndex("by_indicator_date", (q) =>
+      q.eq("indicatorExternalId", indicatorExternalId)
+    )
+    .order("desc")
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .first();
+  const latestForecast = await ctx.db
+    .query("indicatorForecasts")
+    .withIndex("by_indicator_date", (q) =>
+      q.eq("indicatorExternalId", indicatorExternalId)
+    )
+    .order("desc")
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .first();
+  const milestones = await ctx.db
+    .query("milestones")
+    .withIndex("by_indicator_deleted_at", (q) =>
+      q
+        .eq("indicatorExternalId", indicatorExternalId)
+        .eq("deletedAt", undefined)
+    )
+    .collect();
+
+  return {
+    indicator: selectFields(indicator, fields.indicator),
+    latestValue: latestValue
+      ? selectFields(latestValue, fields.indicatorValue)
+      : null,
+    latestForecast: latestForecast
+      ? selectFields(latestForecast, fields.indicatorForecast)
+      : null,
+    milestones: milestones.map((milestone) =>
+      selectFields(milestone, fields.milestone)
+    ),
+  };
+}
+
+/**
+ * Loads the risks of a key result, with their initiatives at full depth
+ */
+async function loadRiskNodes(
+  ctx: QueryCtx,
+  keyResult: Doc<"keyResults">,
+  depth: number,
+  fields: Record<string, string[]>
+): Promise<RiskNode[]> {
+  const risks = await ctx.db
+    .query("risks")
+    .withIndex("by_key_result_deleted_at", (q) =>
+      q
+        .eq("keyResultExternalId", keyResult.externalId)
+        .eq("deletedAt", undefined)
+    )
+    .collect();
+
+  const nodes: RiskNode[] = [];
+  for (const risk of risks) {
+    const node: RiskNode = { risk: selectFields(risk, fields.risk) };
+    if (depth >= DEPTH_INITIATIVES) {
+      const initiatives = await ctx.db
+        .query("initiatives")
+        .withIndex("by_risk_deleted_at", (q) =>
+          q.eq("riskExternalId", risk.externalId).eq("deletedAt", undefined)
+        )
+        .collect();
+      node.initiatives = initiatives.map((initiative) =>
+        selectFields(initiative, fields.initiative)
+      );
+    }
+    nodes.push(node);
+  }
+  return nodes;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Returns a team's OKR tree: objectives → key results (each with its
+ * indicator, the indicator's latest value and forecast, and its
+ * milestones) → risks → initiatives.
+ *
+ * `depth` stops the tree early: 1 returns objectives only, 2 adds key
+ * results, 3 adds risks and 4 (the default) adds initiatives. `fields`
+ * selects the fields returned per entity type, keyed by "objective",
+ * "keyResult", "risk", "initiative", "indicator", "indicatorValue",
+ * "indicatorForecast" or "milestone"; externalId is always included and
+ * types without a selection are returned whole.
+ */
+export const getOkrTree = query({
+  args: {
+    teamExternalId: v.string(),
+    depth: v.optional(v.number()),
+    fields: v.optional(v.record(v.string(), v.array(v.string()))),
+  },
+  returns: v.array(objectiveNodeValidator),
+  handler: async (ctx, args) => {
+    const depth = args.depth ?? DEPTH_INITIATIVES;
+    const fields = args.fields ?? {};
+
+    const objectives = await ctx.db
+      .query("objectives")
+      .withIndex("by_team_deleted_at", (q) =>
+        q.eq("teamExternalId", args.teamExternalId).eq("deletedAt", undefined)
+      )
+      .collect();
+
+    // Key results of one team often share indicators
+    const indicatorNodes = new Map<string, IndicatorNode | null>();
+
+    const tree: ObjectiveNode[] = [];
+    for (const objective of objectives) {
+      const node: ObjectiveNode = {
+        objective: selectFields(objective, fields.objective),
+      };
+      if (depth >= DEPTH_KEY_RESULTS) {
+        const keyResults = await ctx.db
+          .query("keyResults")
+          .withIndex("by_objective_deleted_at", (q) =>
+            q
+              .eq("objectiveExternalId", objective.externalId)
+              .eq("deletedAt", undefined)
+          )
+          .collect();
+
+        const keyResultNodes: KeyResultNode[] = [];
+        for (const keyResult of keyResults) {
+          const { indicatorExternalId } = keyResult;
+          if (!indicatorNodes.has(indicatorExternalId)) {
+            indicatorNodes.set(
+              indicatorExternalId,
+              await loadIndicatorNode(ctx, indicatorExternalId, fields)
+            );
+          }
+          const keyResultNode: KeyResultNode = {
+            keyResult: selectFields(keyResult, fields.keyResult),
+            indicator: indicatorNodes.get(indicatorExternalId) ?? null,
+          };
+          if (depth >= DEPTH_RISKS) {
+            keyResultNode.risks = await loadRiskNodes(
+              ctx,
+              keyResult,
+              depth,
+              fields
+            );
+          }
+          keyResultNodes.push(keyResultNode);
+        }
+        node.keyResults = keyResultNodes;
+      }
+      tree.push(node);
+    }
+
+    return tree;
+  },
+});
@@ -0,0 +1,58 @@
+/**
+ * Circuit Breaker Utilities for OKRHub Component
+ *
+ * Decides when LinkHub counts as down. After `failureThreshold` calls in
+ * a row find LinkHub unavailable, the circuit opens and calls are refused
+ * for `cooldownMs`. Then a single probe call is let through (half-open):
+ * if it succeeds the circuit closes, otherwise it opens again.
+ */
+
+/**
+ * Circuit breaker policy applied to LinkHub calls
+ */
+export interface CircuitBreakerPolicy {
+  /** Unavailable calls in a row that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit refuses calls before a probe */
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 5,
+  cooldownMs: 60 * 1000,
+};
+
+/**
+ * Builds a circuit breaker policy from the stored config, falling back
+ * to defaults for fields that were never configured.
+ */
+export function resolveCircuitBreakerPolicy(
+  config: {
+    circuitFailureThreshold?: number;
+    circuitCooldownMs?: number;
+  } | null
+): CircuitBreakerPolicy {
+  return {
+    failureThreshold:
+      config?.circuitFailureThreshold ??
+      DEFAULT_CIRCUIT_BREAKER_POLICY.failureThreshold,
+    cooldownMs:
+      config?.circuitCooldownMs ?? DEFAULT_CIRCUIT_BREAKER_POLICY.cooldownMs,
+  };
+}
+
+/**
+ * Whether an HTTP status means LinkHub cannot be used right now, rather
+ * than that it rejected the request: 5xx, 429 and 408 count, and so do
+ * 401 and 403, since a rotated or revoked key fails every call alike.
+ * Other 4xx do not.
+ */
+export function isUnavailableStatus(httpStatus: number): boolean {
+  return (
+    httpStatus >= 500 ||
+    httpStatus === 429 ||
+    httpStatus === 408 ||
+    httpStatus === 401 ||
+    httpStatus === 403
+  );
+}
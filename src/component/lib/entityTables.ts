@@ -0,0 +1,125 @@
+/**
+ * Entity Table Helpers for OKRHub Component
+ *
+ * Maps sync entity types to their local component tables.
+ */
+
+import type { Doc } from "../_generated/dataModel.js";
+import type { DatabaseReader, DatabaseWriter } from "../_generated/server.js";
+import type { SyncStatus } from "../schema.js";
+
+export const ENTITY_TABLE_BY_TYPE = {
+  objective: "objectives",
+  keyResult: "keyResults",
+  risk: "risks",
+  initiative: "initiatives",
+  indicator: "indicators",
+  indicatorValue: "indicatorValues",
+  indicatorForecast: "indicatorForecasts",
+  milestone: "milestones",
+} as const;
+
+export type LocalEntityType = keyof typeof ENTITY_TABLE_BY_TYPE;
+export type LocalEntityTable = (typeof ENTITY_TABLE_BY_TYPE)[LocalEntityType];
+export type LocalEntityDoc = Doc<LocalEntityTable>;
+
+// Tables whose rows carry an updatedAt timestamp
+const TABLES_WITH_UPDATED_AT = new Set<LocalEntityTable>([
+  "objectives",
+  "keyResults",
+  "initiatives",
+  "milestones",
+]);
+
+/**
+ * Returns the local table for an entity type, or null for types that are
+ * only synced (companies, teams, users) and have no local table.
+ */
+export function getEntityTable(entityType: string): LocalEntityTable | null {
+  return entityType in ENTITY_TABLE_BY_TYPE
+    ? ENTITY_TABLE_BY_TYPE[entityType as LocalEntityType]
+    : null;
+}
+
+/**
+ * Whether rows of an entity type carry an updatedAt timestamp
+ */
+export function hasUpdatedAt(entityType: string): boolean {
+  const table = getEntityTable(entityType);
+  return table !== null && TABLES_WITH_UPDATED_AT.has(table);
+}
+
+/**
+ * Finds a local entity by entity type and externalId
+ */
+export async function findEntityByExternalId(
+  db: DatabaseReader,
+  entityType: string,
+  externalId: string
+): Promise<LocalEntityDoc | null> {
+  const table = getEntityTable(entityType);
+  if (!table) {
+    return null;
+  }
+  // All entity tables share the same by_external_id index shape
+  return await db
+    .query(table as "objectives")
+    .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+    .first();
+}
+
+/**
+ * Sets the syncStatus of a local entity, if it exists
+ */
+export async function setEntitySyncStatus(
+  db: DatabaseWriter,
+  entityType: string,
+  externalId: string,
+  syncStatus: SyncStatus
+): Promise<void> {
+  const table = getEntityTable(entityType);
+  const entity = await findEntityByExternalId(db, entityType, externalId);
+  if (!table || !entity) {
+    return;
+  }
+  await db.patch(entity._id, {
+    syncStatus,
+    ...(TABLES_WITH_UPDATED_AT.has(table) && { updatedAt: Date.now() }),
+  });
+}
+
+/**
+ * Bumps the local revision of an entity for a change that is about to be
+ * queued. Returns the new revision and the last revision LinkHub
+ * acknowledged, which the queued write is based on; null if the entity
+ * has no local row.
+ */
+export async function bumpEntityRevision(
+  db: DatabaseWriter,
+  entityType: string,
+  externalId: string
+): Promise<{ revision: number; baseRevision?: number } | null> {
+  const entity = await findEntityByExternalId(db, entityType, externalId);
+  if (!entity) {
+    return null;
+  }
+  const revision = (entity.revision ?? 0) + 1;
+  await db.patch(entity._id, { revision });
+  return { revision, baseRevision: entity.remoteRevision };
+}
+
+/**
+ * Records the revision LinkHub reported for a local entity, if it exists
+ */
+export async function setEntityRemoteRevision(
+  db: DatabaseWriter,
+  entityType: string,
+  externalId: string,
+  remoteRevision: number
+): Promise<void> {
+  const entity = await findEntityByExternalId(db, entityType, externalId);
+  if (!entity) {
+    return;
+  }
+  await db.patch(entity._id, { remoteRevision });
+}
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "vitest";
+import { isUnavailableStatus } from "./circuitBreaker.js";
+import {
+  batchItemSyncError,
+  httpSyncError,
+  isPayloadRejectionStatus,
+  networkSyncError,
+} from "./errors.js";
+
+const fieldErrorBody = JSON.stringify({
+  code: "VALIDATION_FAILED",
+  fieldErrors: [
+    { field: "title", message: "Required" },
+    { field: 3, message: "Not a field name" },
+  ],
+});
+
+describe("httpSyncError", () => {
+  test.each([400, 422])("%i rejects the payload permanently", (status) => {
+    const error = httpSyncError(status, "Bad payload");
+    expect(error).toMatchObject({ httpStatus: status, retryable: false });
+  });
+
+  test.each([500, 502, 503, 429, 408])("%i is retried", (status) => {
+    expect(httpSyncError(status, "Try later").retryable).toBe(true);
+  });
+
+  test.each([401, 403])(
+    "%i is retried even with a LinkHub error code",
+    (status) => {
+      const error = httpSyncError(status, JSON.stringify({ code: "KEY" }));
+      expect(error.retryable).toBe(true);
+      expect(error.code).toBe("KEY");
+    }
+  );
+
+  test("another 4xx is permanent only with a code or field errors", () => {
+    expect(httpSyncError(404, "Not found").retryable).toBe(true);
+    const coded = httpSyncError(404, JSON.stringify({ code: "GONE" }));
+    expect(coded.retryable).toBe(false);
+  });
+
+  test("keeps LinkHub's code and well-formed field errors", () => {
+    const error = httpSyncError(422, fieldErrorBody);
+    expect(error).toEqual({
+      message: `HTTP 422: ${fieldErrorBody}`,
+      httpStatus: 422,
+      code: "VALIDATION_FAILED",
+      fieldErrors: [{ field: "title", message: "Required" }],
+      retryable: false,
+    });
+  });
+
+  test("ignores bodies that are not JSON objects", () => {
+    const error = httpSyncError(500, "<html>oops</html>");
+    expect(error.code).toBeUndefined();
+    expect(error.fieldErrors).toBeUndefined();
+  });
+});
+
+describe("batchItemSyncError", () => {
+  test("an item rejected with a code or field errors is permanent", () => {
+    expect(
+      batchItemSyncError({ error: "Invalid", code: "VALIDATION_FAILED" })
+        .retryable
+    ).toBe(false);
+    expect(
+      batchItemSyncError({
+        error: "Invalid",
+        fieldErrors: [{ field: "title", message: "Required" }],
+      }).retryable
+    ).toBe(false);
+  });
+
+  test("a bare error or a missing result is retried", () => {
+    expect(batchItemSyncError({ error: "Timeout" })).toEqual({
+      message: "Timeout",
+      code: undefined,
+      fieldErrors: undefined,
+      retryable: true,
+    });
+    expect(batchItemSyncError(undefined)).toMatchObject({
+      message: "Missing batch result",
+      retryable: true,
+    });
+  });
+});
+
+describe("status helpers", () => {
+  test("network errors are retried", () => {
+    expect(networkSyncError("fetch failed")).toEqual({
+      message: "fetch failed",
+      retryable: true,
+    });
+  });
+
+  test("only 400 and 422 are payload rejections", () => {
+    expect(
+      [400, 401, 404, 409, 422, 500].filter(isPayloadRejectionStatus)
+    ).toEqual([400, 422]);
+  });
+
+  test("outages and auth failures count against the circuit", () => {
+    expect(
+      [400, 401, 403, 404, 408, 409, 422, 429, 500, 503].filter(
+        isUnavailableStatus
+      )
+    ).toEqual([401, 403, 408, 429, 500, 503]);
+  });
+});
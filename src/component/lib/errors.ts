@@ -0,0 +1,110 @@
+/**
+ * Sync Error Utilities for OKRHub Component
+ *
+ * Turns failed LinkHub calls into structured errors. Only rejections of
+ * the payload itself are permanent, since sending it again cannot
+ * succeed: 400 and 422, and other 4xx whose body carries a LinkHub error
+ * code or field errors. Network errors, 5xx, 429, 408 and auth failures
+ * (401, 403) are retried; auth failures also count against the circuit
+ * breaker, so a rotated key pauses sending instead of failing the queue.
+ */
+
+import type { SyncError, SyncFieldError } from "../schema.js";
+import { isUnavailableStatus } from "./circuitBreaker.js";
+import type { IngestErrorResponse } from "./types.js";
+
+/**
+ * Whether an HTTP status means LinkHub rejected the payload (400, 422).
+ * A batch rejected this way is worth resending item by item.
+ */
+export function isPayloadRejectionStatus(httpStatus: number): boolean {
+  return httpStatus === 400 || httpStatus === 422;
+}
+
+/**
+ * Parses an error body, or returns undefined if it is not a JSON object
+ */
+function parseErrorBody(errorText: string): IngestErrorResponse | undefined {
+  try {
+    const body = JSON.parse(errorText) as unknown;
+    return body && typeof body === "object"
+      ? (body as IngestErrorResponse)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Keeps the well-formed entries of LinkHub's field errors
+ */
+function toFieldErrors(
+  fieldErrors: IngestErrorResponse["fieldErrors"]
+): SyncFieldError[] | undefined {
+  if (!Array.isArray(fieldErrors)) {
+    return undefined;
+  }
+  const valid = fieldErrors
+    .filter(
+      (entry) =>
+        typeof entry?.field === "string" && typeof entry.message === "string"
+    )
+    .map(({ field, message }) => ({ field, message }));
+  return valid.length > 0 ? valid : undefined;
+}
+
+/**
+ * Classifies a non-2xx LinkHub response
+ */
+export function httpSyncError(
+  httpStatus: number,
+  errorText: string
+): SyncError {
+  const body = parseErrorBody(errorText);
+  const code = typeof body?.code === "string" ? body.code : undefined;
+  const fieldErrors = toFieldErrors(body?.fieldErrors);
+  const permanent =
+    isPayloadRejectionStatus(httpStatus) ||
+    (httpStatus >= 400 &&
+      httpStatus < 500 &&
+      !isUnavailableStatus(httpStatus) &&
+      (code !== undefined || fieldErrors !== undefined));
+  return {
+    message: `HTTP ${httpStatus}: ${errorText}`,
+    httpStatus,
+    code,
+    fieldErrors,
+    retryable: !permanent,
+  };
+}
+
+/**
+ * Classifies a request that never got a response
+ */
+export function networkSyncError(message: string): SyncError {
+  return { message, retryable: true };
+}
+
+/**
+ * Classifies an item LinkHub rejected inside a successful batch response.
+ * An item rejected with a code or field errors is permanent; a bare error
+ * message or a missing result is retried, as before.
+ */
+export function batchItemSyncError(
+  result:
+    | {
+        error?: string;
+        code?: string;
+        fieldErrors?: IngestErrorResponse["fieldErrors"];
+      }
+    | undefined
+): SyncError {
+  const fieldErrors = toFieldErrors(result?.fieldErrors);
+  const code = typeof result?.code === "string" ? result.code : undefined;
+  return {
+    message: result?.error ?? "Missing batch result",
+    code,
+    fieldErrors,
+    retryable: code === undefined && fieldErrors === undefined,
+  };
+}
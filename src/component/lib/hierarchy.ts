@@ -0,0 +1,90 @@
+/**
+ * Sync Hierarchy Utilities for OKRHub Component
+ *
+ * Describes the parent → child order LinkHub expects entities to arrive in:
+ * company → team → indicator → objective → keyResult → risk → initiative →
+ * milestone / indicator values / forecasts.
+ */
+
+/**
+ * Sync rank per queue entityType. Batch inserts enqueue with the plural
+ * batch key, so both spellings are listed.
+ */
+const SYNC_RANK_BY_ENTITY_TYPE: Record<string, number> = {
+  company: 0,
+  companies: 0,
+  team: 1,
+  teams: 1,
+  user: 1,
+  users: 1,
+  indicator: 2,
+  indicators: 2,
+  objective: 3,
+  objectives: 3,
+  keyResult: 4,
+  keyResults: 4,
+  risk: 5,
+  risks: 5,
+  initiative: 6,
+  initiatives: 6,
+  milestone: 7,
+  milestones: 7,
+  indicatorValue: 7,
+  indicatorValues: 7,
+  indicatorForecast: 7,
+  indicatorForecasts: 7,
+};
+
+// Unknown entity types are sent after everything else
+const UNKNOWN_SYNC_RANK = 8;
+
+// Payload fields that reference a parent entity in the hierarchy
+const PARENT_REFERENCE_FIELDS = [
+  "companyExternalId",
+  "teamExternalId",
+  "indicatorExternalId",
+  "objectiveExternalId",
+  "keyResultExternalId",
+  "riskExternalId",
+] as const;
+
+/**
+ * Returns the position of an entity type in the sync hierarchy (lower first)
+ */
+export function getSyncRank(entityType: string): number {
+  return SYNC_RANK_BY_ENTITY_TYPE[entityType] ?? UNKNOWN_SYNC_RANK;
+}
+
+/**
+ * Sorts items parents-first. The sort is stable, so items of the same
+ * rank keep their queue order.
+ */
+export function sortBySyncRank<T extends { entityType: string }>(
+  items: T[]
+): T[] {
+  return [...items].sort(
+    (a, b) => getSyncRank(a.entityType) - getSyncRank(b.entityType)
+  );
+}
+
+/**
+ * Extracts the external IDs of the parents a payload references.
+ * For patches, only parents set by the patch's `changes` count.
+ */
+export function getParentExternalIds(payload: unknown): string[] {
+  if (!payload || typeof payload !== "object") {
+    return [];
+  }
+  let record = payload as Record<string, unknown>;
+  if (record.changes && typeof record.changes === "object") {
+    record = record.changes as Record<string, unknown>;
+  }
+  const parentIds: string[] = [];
+  for (const field of PARENT_REFERENCE_FIELDS) {
+    const value = record[field];
+    if (typeof value === "string" && value.length > 0) {
+      parentIds.push(value);
+    }
+  }
+  return parentIds;
+}
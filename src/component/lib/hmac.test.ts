@@ -0,0 +1,30 @@
+import { describe, expect, test } from "vitest";
+import {
+  createHmacSignature,
+  verifyHmacSignature,
+  webhookSigningPayload,
+} from "./hmac.js";
+
+const secret = "test-signing-secret";
+const payload = webhookSigningPayload("1700000000000", '{"externalId":"x"}');
+
+describe("verifyHmacSignature", () => {
+  test("accepts a signature made with the same secret", async () => {
+    const signature = await createHmacSignature(payload, secret);
+    expect(await verifyHmacSignature(payload, signature, secret)).toBe(true);
+    expect(
+      await verifyHmacSignature(payload, ` ${signature.toUpperCase()} `, secret)
+    ).toBe(true);
+  });
+
+  test("rejects another secret, another payload or a truncated signature", async () => {
+    const signature = await createHmacSignature(payload, secret);
+    expect(await verifyHmacSignature(payload, signature, "other")).toBe(false);
+    expect(
+      await verifyHmacSignature(`${payload} `, signature, secret)
+    ).toBe(false);
+    expect(
+      await verifyHmacSignature(payload, signature.slice(0, -2), secret)
+    ).toBe(false);
+  });
+});
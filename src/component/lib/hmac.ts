@@ -34,6 +34,44 @@ export async function createHmacSignature(
   return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
+/**
+ * Verifies an HMAC-SHA256 signature created with `createHmacSignature`.
+ * Compares in constant time so the check does not leak how many leading
+ * characters matched.
+ */
+export async function verifyHmacSignature(
+  payload: string,
+  signature: string,
+  signingSecret: string
+): Promise<boolean> {
+  const expected = await createHmacSignature(payload, signingSecret);
+  const received = signature.trim().toLowerCase();
+  if (received.length !== expected.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * How far a webhook's `X-OKRHub-Timestamp` may be from the current time
+ * before the request is rejected as stale
+ */
+export const WEBHOOK_TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Builds the string a webhook signature covers. Signing the timestamp
+ * together with the body means a captured request cannot be replayed
+ * once its timestamp is stale.
+ */
+export function webhookSigningPayload(timestamp: string, body: string): string {
+  return `${timestamp}.${body}`;
+}
+
 /**
  * Creates request headers with HMAC signature, version, and key prefix
  */
@@ -2,6 +2,62 @@
  * Library utilities barrel export
  */
 
-export { createHmacSignature, createRequestHeaders } from "./hmac.js";
-export { assertValidExternalId, generateSlug } from "./validation.js";
-export type { IngestResponse, BatchIngestResponse } from "./types.js";
+export {
+  createHmacSignature,
+  createRequestHeaders,
+  verifyHmacSignature,
+  webhookSigningPayload,
+  WEBHOOK_TIMESTAMP_TOLERANCE_MS,
+} from "./hmac.js";
+export {
+  assertValidExternalId,
+  generateSlug,
+  matchesValidator,
+} from "./validation.js";
+export {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  computeRetryDelayMs,
+  type RetryPolicy,
+} from "./retry.js";
+export {
+  ENTITY_TABLE_BY_TYPE,
+  getEntityTable,
+  hasUpdatedAt,
+  findEntityByExternalId,
+  setEntitySyncStatus,
+  bumpEntityRevision,
+  setEntityRemoteRevision,
+  type LocalEntityType,
+  type LocalEntityTable,
+  type LocalEntityDoc,
+} from "./entityTables.js";
+export {
+  getSyncRank,
+  sortBySyncRank,
+  getParentExternalIds,
+} from "./hierarchy.js";
+export {
+  diffSnapshots,
+  coalesceQueuedWrites,
+  type PatchPayload,
+} from "./patches.js";
+export { computePercentToTarget, rollUpProgress } from "./progress.js";
+export {
+  DEFAULT_CIRCUIT_BREAKER_POLICY,
+  resolveCircuitBreakerPolicy,
+  isUnavailableStatus,
+  type CircuitBreakerPolicy,
+} from "./circuitBreaker.js";
+export {
+  isPayloadRejectionStatus,
+  httpSyncError,
+  networkSyncError,
+  batchItemSyncError,
+} from "./errors.js";
+export type {
+  IngestResponse,
+  IngestConflictResponse,
+  IngestErrorResponse,
+  BatchIngestResponse,
+} from "./types.js";
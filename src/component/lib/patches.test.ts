@@ -0,0 +1,181 @@
+import { describe, expect, test } from "vitest";
+import { coalesceQueuedWrites, diffSnapshots } from "./patches.js";
+
+const externalId = "okrhub:test:objective:1";
+
+function write(payload: Record<string, unknown>, operation?: string) {
+  return {
+    payload: JSON.stringify(payload),
+    ...(operation && { operation: operation as "upsert" }),
+  };
+}
+
+function parse(result: { payload: string } | null) {
+  return result && (JSON.parse(result.payload) as Record<string, unknown>);
+}
+
+describe("diffSnapshots", () => {
+  test("keeps only changed fields with their previous values", () => {
+    const patch = diffSnapshots(
+      externalId,
+      { externalId, title: "Old", description: "Same", updatedAt: 1 },
+      { externalId, title: "New", description: "Same", updatedAt: 2 }
+    );
+    expect(patch).toEqual({
+      externalId,
+      changes: { title: "New" },
+      previous: { title: "Old" },
+      updatedAt: 2,
+    });
+  });
+});
+
+describe("coalesceQueuedWrites", () => {
+  test("a newer snapshot replaces a pending snapshot", () => {
+    const result = coalesceQueuedWrites(
+      write({ externalId, title: "First" }),
+      write({ externalId, title: "Second" }),
+      false
+    );
+    expect(parse(result)).toEqual({ externalId, title: "Second" });
+    expect(result?.operation).toBeUndefined();
+  });
+
+  test("patches merge, keeping the oldest previous value", () => {
+    const result = coalesceQueuedWrites(
+      write(
+        {
+          externalId,
+          changes: { title: "B", description: "X" },
+          previous: { title: "A", description: "W" },
+        },
+        "patch"
+      ),
+      write(
+        {
+          externalId,
+          changes: { title: "C" },
+          previous: { title: "B" },
+          baseRevision: 3,
+        },
+        "patch"
+      ),
+      true
+    );
+    expect(result?.operation).toBe("patch");
+    expect(parse(result)).toEqual({
+      externalId,
+      changes: { title: "C", description: "X" },
+      previous: { title: "A", description: "W" },
+      baseRevision: 3,
+    });
+  });
+
+  test("a field changed back to its previous value drops out", () => {
+    const result = coalesceQueuedWrites(
+      write(
+        { externalId, changes: { title: "B" }, previous: { title: "A" } },
+        "patch"
+      ),
+      write(
+        { externalId, changes: { title: "A" }, previous: { title: "B" } },
+        "patch"
+      ),
+      true
+    );
+    expect(parse(result)).toMatchObject({ changes: {}, previous: {} });
+  });
+
+  test("a patch is applied to a pending snapshot, which keeps its operation", () => {
+    const result = coalesceQueuedWrites(
+      write({ externalId, title: "A", description: "W" }, "restore"),
+      write(
+        {
+          externalId,
+          changes: { title: "B" },
+          previous: { title: "A" },
+          updatedAt: 5,
+        },
+        "patch"
+      ),
+      true
+    );
+    expect(result?.operation).toBe("restore");
+    expect(parse(result)).toEqual({
+      externalId,
+      title: "B",
+      description: "W",
+      updatedAt: 5,
+    });
+  });
+
+  test("a restore followed by an upsert stays a restore", () => {
+    for (const operation of [undefined, "upsert"]) {
+      const result = coalesceQueuedWrites(
+        write({ externalId, title: "A" }, "restore"),
+        write({ externalId, title: "B" }, operation),
+        true
+      );
+      expect(result?.operation).toBe("restore");
+      expect(parse(result)).toEqual({ externalId, title: "B" });
+    }
+  });
+
+  test("a delete replaces a pending write LinkHub already has", () => {
+    const result = coalesceQueuedWrites(
+      write({ externalId, title: "A" }),
+      write({ externalId, deletedAt: 10 }, "delete"),
+      true
+    );
+    expect(result?.operation).toBe("delete");
+    expect(parse(result)).toEqual({ externalId, deletedAt: 10 });
+  });
+
+  test("a delete cancels a create LinkHub never acknowledged", () => {
+    for (const operation of [undefined, "upsert"]) {
+      expect(
+        coalesceQueuedWrites(
+          write({ externalId, title: "A" }, operation),
+          write({ externalId, deletedAt: 10 }, "delete"),
+          false
+        )
+      ).toBeNull();
+    }
+  });
+
+  test("a delete after a pending restore is still sent", () => {
+    const result = coalesceQueuedWrites(
+      write({ externalId, title: "A" }, "restore"),
+      write({ externalId, deletedAt: 10 }, "delete"),
+      false
+    );
+    expect(result?.operation).toBe("delete");
+  });
+
+  test("a pending delete survives a later upsert or patch", () => {
+    const tombstone = write({ externalId, deletedAt: 10 }, "delete");
+    const writes = [
+      write({ externalId, title: "B" }),
+      write({ externalId, title: "B" }, "upsert"),
+      write(
+        { externalId, changes: { title: "B" }, previous: { title: "A" } },
+        "patch"
+      ),
+    ];
+    for (const incoming of writes) {
+      const result = coalesceQueuedWrites(tombstone, incoming, true);
+      expect(result?.operation).toBe("delete");
+      expect(parse(result)).toEqual({ externalId, deletedAt: 10 });
+    }
+  });
+
+  test("a restore replaces a pending delete", () => {
+    const result = coalesceQueuedWrites(
+      write({ externalId, deletedAt: 10 }, "delete"),
+      write({ externalId, title: "A" }, "restore"),
+      true
+    );
+    expect(result?.operation).toBe("restore");
+    expect(parse(result)).toEqual({ externalId, title: "A" });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Patch Payload Utilities for OKRHub Component
+ *
+ * Updates to entities LinkHub already knows are queued as patches: the
+ * changed fields plus their previous values, instead of a full snapshot.
+ */
+
+import type { SyncOperation } from "../schema.js";
+
+/**
+ * Payload of a "patch" queue item
+ */
+export interface PatchPayload {
+  externalId: string;
+  changes: Record<string, unknown>;
+  previous: Record<string, unknown>;
+  updatedAt?: number;
+  baseRevision?: number;
+}
+
+// Fields that describe the write itself, not the entity
+const PATCH_META_FIELDS = new Set(["externalId", "updatedAt", "baseRevision"]);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Builds a patch from the snapshots of an entity before and after an
+ * update. Only fields whose value changed are included.
+ */
+export function diffSnapshots(
+  externalId: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): PatchPayload {
+  const changes: Record<string, unknown> = {};
+  const previous: Record<string, unknown> = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const field of fields) {
+    if (PATCH_META_FIELDS.has(field)) continue;
+    if (!sameValue(before[field], after[field])) {
+      changes[field] = after[field] ?? null;
+      previous[field] = before[field] ?? null;
+    }
+  }
+
+  return {
+    externalId,
+    changes,
+    previous,
+    ...(typeof after.updatedAt === "number" && { updatedAt: after.updatedAt }),
+  };
+}
+
+/**
+ * Combines a pending queued write with a newer one for the same entity.
+ *
+ * - patch + patch: changes are merged, keeping the oldest previous value;
+ *   fields that went back to their previous value are dropped
+ * - snapshot (upsert / restore) + patch: the changes are applied to the
+ *   snapshot, which keeps its operation
+ * - restore + upsert: stays a restore, with the newer snapshot
+ * - delete + upsert / patch: stays the delete; only a restore brings a
+ *   deleted entity back, so a later live write must not replace the
+ *   tombstone
+ * - upsert + delete, while LinkHub cannot have the entity yet
+ *   (`remoteKnown` false: no mapping, and no write for it sent or in
+ *   flight): null, the two cancel out and nothing is sent
+ * - anything else: the newer write replaces the pending one
+ */
+export function coalesceQueuedWrites(
+  pending: { payload: string; operation?: SyncOperation },
+  incoming: { payload: string; operation?: SyncOperation },
+  remoteKnown: boolean
+): { payload: string; operation?: SyncOperation } | null {
+  if (
+    incoming.operation === "delete" &&
+    (pending.operation === undefined || pending.operation === "upsert") &&
+    !remoteKnown
+  ) {
+    return null;
+  }
+
+  if (
+    pending.operation === "delete" &&
+    incoming.operation !== "restore" &&
+    incoming.operation !== "delete"
+  ) {
+    return { payload: pending.payload, operation: "delete" };
+  }
+
+  if (incoming.operation === "patch") {
+    const patch = JSON.parse(incoming.payload) as PatchPayload;
+
+    if (pending.operation === "patch") {
+      const earlier = JSON.parse(pending.payload) as PatchPayload;
+      const changes = { ...earlier.changes, ...patch.changes };
+      const previous = { ...patch.previous, ...earlier.previous };
+      for (const field of Object.keys(changes)) {
+        if (sameValue(changes[field], previous[field])) {
+          delete changes[field];
+          delete previous[field];
+        }
+      }
+      return {
+        payload: JSON.stringify({ ...patch, changes, previous }),
+        operation: "patch",
+      };
+    }
+
+    const snapshot = JSON.parse(pending.payload) as Record<string, unknown>;
+    return {
+      payload: JSON.stringify({
+        ...snapshot,
+        ...patch.changes,
+        ...(patch.updatedAt !== undefined && { updatedAt: patch.updatedAt }),
+        ...(patch.baseRevision !== undefined && {
+          baseRevision: patch.baseRevision,
+        }),
+      }),
+      operation: pending.operation,
+    };
+  }
+
+  if (
+    pending.operation === "restore" &&
+    (incoming.operation === undefined || incoming.operation === "upsert")
+  ) {
+    return { payload: incoming.payload, operation: "restore" };
+  }
+
+  return incoming;
+}
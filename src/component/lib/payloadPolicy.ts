@@ -19,3 +19,12 @@ export function stripLinkHubManagedFields<T extends Record<string, unknown>>(
   }
   return result;
 }
+
+/**
+ * Returns the fields LinkHub manages for an entity type (empty if none).
+ */
+export function getLinkHubManagedFields(entityType: string): string[] {
+  return entityType in LINKHUB_MANAGED_FIELDS
+    ? LINKHUB_MANAGED_FIELDS[entityType as EntityType]
+    : [];
+}
@@ -0,0 +1,68 @@
+/**
+ * Progress Utilities for OKRHub Component
+ *
+ * Computes how far a key result is towards its target, and rolls key
+ * result progress up to their objective using LinkHub's weights.
+ */
+
+/**
+ * Percent of the way from nothing to `target`, between 0 and 100.
+ *
+ * For a reverse indicator lower values are better: the target is reached
+ * once the value drops to it, and progress is target / value until then.
+ */
+export function computePercentToTarget(
+  value: number,
+  target: number,
+  isReverse: boolean
+): number {
+  const reached = isReverse ? value <= target : value >= target;
+  if (reached) {
+    return 100;
+  }
+
+  const [numerator, denominator] = isReverse
+    ? [target, value]
+    : [value, target];
+  if (denominator <= 0) {
+    return 0;
+  }
+  return Math.min(100, Math.max(0, (numerator / denominator) * 100));
+}
+
+/**
+ * Weighted average of key result progress.
+ *
+ * Key results without progress are skipped. When no key result has a
+ * weight they count equally; otherwise a key result without a weight
+ * counts with the average of the given weights. Returns null when no key
+ * result has progress or every weight is 0.
+ */
+export function rollUpProgress(
+  keyResults: Array<{ progress: number | null; weight?: number }>
+): number | null {
+  const measured = keyResults.filter(
+    (keyResult): keyResult is { progress: number; weight?: number } =>
+      keyResult.progress !== null
+  );
+  if (measured.length === 0) {
+    return null;
+  }
+
+  const weights = measured
+    .map((keyResult) => keyResult.weight)
+    .filter((weight): weight is number => weight !== undefined);
+  const defaultWeight =
+    weights.length > 0
+      ? weights.reduce((sum, weight) => sum + weight, 0) / weights.length
+      : 1;
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const keyResult of measured) {
+    const weight = keyResult.weight ?? defaultWeight;
+    weightedSum += keyResult.progress * weight;
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? weightedSum / totalWeight : null;
+}
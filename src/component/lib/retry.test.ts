@@ -0,0 +1,57 @@
+import { describe, expect, test } from "vitest";
+import {
+  computeRetryDelayMs,
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  type RetryPolicy,
+} from "./retry.js";
+
+const policy: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  jitterRatio: 0.2,
+};
+
+// random() === 0.5 puts the jitter at exactly zero
+const noJitter = () => 0.5;
+
+describe("computeRetryDelayMs", () => {
+  test("doubles the delay on every attempt", () => {
+    expect(computeRetryDelayMs(1, policy, noJitter)).toBe(1000);
+    expect(computeRetryDelayMs(2, policy, noJitter)).toBe(2000);
+    expect(computeRetryDelayMs(3, policy, noJitter)).toBe(4000);
+    expect(computeRetryDelayMs(4, policy, noJitter)).toBe(8000);
+  });
+
+  test("caps the delay at maxDelayMs", () => {
+    expect(computeRetryDelayMs(5, policy, noJitter)).toBe(10000);
+    expect(computeRetryDelayMs(20, policy, noJitter)).toBe(10000);
+  });
+
+  test("treats attempts below one as the first attempt", () => {
+    expect(computeRetryDelayMs(0, policy, noJitter)).toBe(1000);
+  });
+
+  test("spreads the delay by jitterRatio either way", () => {
+    expect(computeRetryDelayMs(2, policy, () => 0)).toBe(1600);
+    expect(computeRetryDelayMs(2, policy, () => 1)).toBe(2400);
+  });
+
+  test("never exceeds maxDelayMs or drops below zero with jitter", () => {
+    expect(computeRetryDelayMs(5, policy, () => 1)).toBe(10000);
+    expect(
+      computeRetryDelayMs(1, { ...policy, jitterRatio: 5 }, () => 0)
+    ).toBe(0);
+  });
+});
+
+describe("resolveRetryPolicy", () => {
+  test("falls back to the defaults", () => {
+    expect(resolveRetryPolicy(null)).toEqual(DEFAULT_RETRY_POLICY);
+    expect(resolveRetryPolicy({ retryMaxAttempts: 2 })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 2,
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Retry Policy Utilities for OKRHub Component
+ *
+ * Computes exponential backoff delays for failed sync queue items.
+ */
+
+/**
+ * Retry policy applied to failed sync queue items
+ */
+export interface RetryPolicy {
+  /** Total number of send attempts before an item is given up on */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled on every following attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single retry delay */
+  maxDelayMs: number;
+  /** Random spread applied to each delay (0.2 = +/- 20%) */
+  jitterRatio: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 5000,
+  maxDelayMs: 15 * 60 * 1000,
+  jitterRatio: 0.2,
+};
+
+/**
+ * Builds a retry policy from the stored config, falling back to defaults
+ * for fields that were never configured.
+ */
+export function resolveRetryPolicy(
+  config: {
+    retryMaxAttempts?: number;
+    retryBaseDelayMs?: number;
+    retryMaxDelayMs?: number;
+    retryJitterRatio?: number;
+  } | null
+): RetryPolicy {
+  return {
+    maxAttempts: config?.retryMaxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs: config?.retryBaseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: config?.retryMaxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitterRatio: config?.retryJitterRatio ?? DEFAULT_RETRY_POLICY.jitterRatio,
+  };
+}
+
+/**
+ * Computes the delay before the next attempt.
+ * `attempts` is the number of attempts already made (1 after the first failure).
+ */
+export function computeRetryDelayMs(
+  attempts: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponent = Math.max(0, attempts - 1);
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, exponent)
+  );
+  const jitter = Math.min(Math.max(policy.jitterRatio, 0), 1);
+  const spread = delay * jitter * (random() * 2 - 1);
+  return Math.round(Math.min(policy.maxDelayMs, Math.max(0, delay + spread)));
+}
@@ -13,6 +13,32 @@ export interface IngestResponse {
   linkHubId?: string;
   action: "create" | "update";
   error?: string;
+  /** LinkHub's revision of the entity after the write */
+  revision?: number;
+  /** HTTP status of a failed request (set locally, not by LinkHub) */
+  httpStatus?: number;
+}
+
+/**
+ * Body of a 409 response: LinkHub's version of an entity whose write was
+ * based on an outdated revision
+ */
+export interface IngestConflictResponse {
+  error?: string;
+  remoteRevision?: number;
+  remote?: Record<string, unknown>;
+}
+
+/**
+ * Body of a failed LinkHub response. Every field is optional, since not
+ * every error comes back as JSON.
+ */
+export interface IngestErrorResponse {
+  error?: string;
+  /** LinkHub error code, e.g. "VALIDATION_FAILED" */
+  code?: string;
+  /** Payload fields LinkHub rejected */
+  fieldErrors?: { field: string; message: string }[];
 }
 
 /**
@@ -26,6 +52,15 @@ export interface BatchIngestResponse {
     linkHubId?: string;
     action: "create" | "update";
     error?: string;
+    /** LinkHub error code of a rejected item */
+    code?: string;
+    /** Payload fields LinkHub rejected */
+    fieldErrors?: { field: string; message: string }[];
+    revision?: number;
+    /** Set when the write was rejected as stale */
+    conflict?: IngestConflictResponse;
   }[];
   errors: string[];
+  /** HTTP status of a failed request (set locally, not by LinkHub) */
+  httpStatus?: number;
 }
@@ -1,9 +1,11 @@
 /**
  * Validation Utilities for OKRHub Component
  *
- * Provides validation helpers for external IDs and slug generation.
+ * Provides validation helpers for external IDs, slug generation and
+ * checking untrusted values against Convex validators.
  */
 
+import type { GenericValidator } from "convex/values";
 import { validateExternalId } from "../externalId.js";
 
 /**
@@ -39,3 +41,70 @@ export function generateSlug(
   const suffix = Math.random().toString(36).substring(2, 6);
   return `${sourceApp}-${baseSlug}-${suffix}`;
 }
+
+/**
+ * Whether a value matches a Convex validator, e.g. a table field's.
+ * Used for values that come from outside (such as LinkHub's version of an
+ * entity) before they are written, so a bad value is reported instead of
+ * failing the write. Ids are only checked to be strings.
+ */
+export function matchesValidator(
+  validator: GenericValidator,
+  value: unknown
+): boolean {
+  if (value === undefined) {
+    return validator.isOptional === "optional";
+  }
+
+  switch (validator.kind) {
+    case "any":
+      return true;
+    case "string":
+    case "id":
+      return typeof value === "string";
+    case "float64":
+      return typeof value === "number";
+    case "int64":
+      return typeof value === "bigint";
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    case "bytes":
+      return value instanceof ArrayBuffer;
+    case "literal":
+      return value === validator.value;
+    case "array":
+      return (
+        Array.isArray(value) &&
+        value.every((element) => matchesValidator(validator.element, element))
+      );
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return false;
+      }
+      const record = value as Record<string, unknown>;
+      return (
+        Object.keys(record).every((key) => key in validator.fields) &&
+        Object.entries(validator.fields).every(([key, field]) =>
+          matchesValidator(field, record[key])
+        )
+      );
+    }
+    case "record":
+      return (
+        !!value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.values(value).every((entry) =>
+          matchesValidator(validator.value, entry)
+        )
+      );
+    case "union":
+      return validator.members.some((member) =>
+        matchesValidator(member, value)
+      );
+    default:
+      return false;
+  }
+}
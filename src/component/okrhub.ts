@@ -25,18 +25,24 @@
 export {
   createObjective,
   updateObjective,
+  deleteObjective,
+  restoreObjective,
   getObjectiveByExternalId,
   getObjectivesByTeam,
   getAllObjectives,
+  getAllObjectivesPaginated,
 } from "./entities/objectives.js";
 
 // Key Results
 export {
   createKeyResult,
   updateKeyResult,
+  deleteKeyResult,
+  restoreKeyResult,
   getKeyResultByExternalId,
   getKeyResultsByObjective,
   getAllKeyResults,
+  getAllKeyResultsPaginated,
 } from "./entities/keyResults.js";
 
 // Risks
@@ -44,10 +50,12 @@ export {
   createRisk,
   updateRisk,
   deleteRisk,
+  restoreRisk,
   getRiskByExternalId,
   getRisksByKeyResult,
   getRisksByTeam,
   getAllRisks,
+  getAllRisksPaginated,
 } from "./entities/risks.js";
 
 // Initiatives
@@ -55,46 +63,80 @@ export {
   createInitiative,
   updateInitiative,
   deleteInitiative,
+  restoreInitiative,
   getInitiativeByExternalId,
   getInitiativesByRisk,
   getInitiativesByTeam,
   getInitiativesByAssignee,
+  getOverdueInitiativesByTeam,
+  getOverdueInitiativesByAssignee,
   getAllInitiatives,
+  getAllInitiativesPaginated,
 } from "./entities/initiatives.js";
 
 // Indicators
 export {
   createIndicator,
   updateIndicator,
+  deleteIndicator,
+  restoreIndicator,
   getAllIndicators,
+  getAllIndicatorsPaginated,
 } from "./entities/indicators.js";
 
 // Indicator Values
 export {
   createIndicatorValue,
   updateIndicatorValue,
+  deleteIndicatorValue,
+  restoreIndicatorValue,
   getAllIndicatorValues,
+  getAllIndicatorValuesPaginated,
 } from "./entities/indicatorValues.js";
 
 // Indicator Forecasts
 export {
   createIndicatorForecast,
   updateIndicatorForecast,
+  deleteIndicatorForecast,
+  restoreIndicatorForecast,
   getAllIndicatorForecasts,
+  getAllIndicatorForecastsPaginated,
 } from "./entities/indicatorForecasts.js";
 
 // Milestones
 export {
   createMilestone,
   updateMilestone,
+  deleteMilestone,
+  restoreMilestone,
   getAllMilestones,
+  getAllMilestonesPaginated,
 } from "./entities/milestones.js";
 
+// Lifecycle
+export { getOrphanedEntities } from "./entities/lifecycle.js";
+export { getEntityHistory, getTeamHistory } from "./entities/history.js";
+export { searchOkr } from "./entities/search.js";
+export { getOkrTree } from "./entities/tree.js";
+export {
+  getKeyResultProgress,
+  getObjectiveProgress,
+} from "./entities/progress.js";
+export { getRiskTriggerEvents } from "./entities/riskTriggers.js";
+
 // ============================================================================
 // CONFIG EXPORTS
 // ============================================================================
 
-export { configure, getConfig, clearConfig } from "./config.js";
+export {
+  configure,
+  getConfig,
+  clearConfig,
+  pauseSync,
+  resumeSync,
+  getSyncState,
+} from "./config.js";
 
 // ============================================================================
 // SYNC EXPORTS
@@ -106,7 +148,36 @@ export {
   getPendingSyncItems,
 } from "./sync/queue.js";
 
-export { processSyncQueue } from "./sync/processor.js";
+export { processSyncQueue, drainNow } from "./sync/processor.js";
+export { getCircuitState } from "./sync/circuitBreaker.js";
+
+export {
+  listDeadLetters,
+  replayDeadLetter,
+  replayDeadLetters,
+  purgeDeadLetter,
+  purgeDeadLetters,
+} from "./sync/deadLetters.js";
+export {
+  listFailedSyncItems,
+  replayFailedSyncItem,
+  replayFailedSyncItems,
+  discardFailedSyncItem,
+  discardFailedSyncItems,
+} from "./sync/failedItems.js";
+
+export { getLinkHubId, getLinkHubMappings } from "./sync/mappings.js";
+
+export {
+  listSyncConflicts,
+  resolveConflictKeepLocal,
+  resolveConflictTakeRemote,
+  resolveConflictMerge,
+} from "./sync/conflicts.js";
+
+export { receiveLinkHubWebhook } from "./sync/inbound.js";
+
+export { reconcile } from "./sync/reconcile.js";
 
 // ============================================================================
 // TYPE EXPORTS
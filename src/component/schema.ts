@@ -155,6 +155,7 @@ export const initiativePayloadValidator = v.object({
   status: InitiativeStatusSchema,
   isNew: v.optional(v.boolean()),
   finishedAt: v.optional(v.number()),
+  dueDate: v.optional(v.number()), // Past it while unfinished: OVERDUE
 
   // Optional fields
   externalUrl: v.optional(v.string()),
@@ -352,9 +353,102 @@ export const batchPayloadValidator = v.object({
 export const SyncStatusSchema = v.union(
   v.literal("pending"),
   v.literal("synced"),
-  v.literal("failed")
+  v.literal("failed"),
+  v.literal("conflict") // LinkHub rejected a stale write, see syncConflicts
 );
 
+/**
+ * Circuit breaker state: closed lets calls through, open refuses them,
+ * half_open lets one probe call through
+ */
+export const CircuitStateSchema = v.union(
+  v.literal("closed"),
+  v.literal("open"),
+  v.literal("half_open")
+);
+
+/**
+ * What a queue item asks LinkHub to do: upsert the payload, delete the
+ * entity (the payload is then a `{ externalId, deletedAt }` tombstone),
+ * restore a deleted entity (the payload is its full snapshot), or patch
+ * the fields of an entity LinkHub already has (the payload is
+ * `{ externalId, changes, previous }`)
+ */
+export const SyncOperationSchema = v.union(
+  v.literal("upsert"),
+  v.literal("delete"),
+  v.literal("restore"),
+  v.literal("patch")
+);
+
+/**
+ * What a delete does with the entity's children: delete them too
+ * ("cascade"), refuse while active children exist ("restrict"), or leave
+ * them pointing at the deleted parent ("orphan", the default)
+ */
+export const DeleteModeSchema = v.union(
+  v.literal("cascade"),
+  v.literal("restrict"),
+  v.literal("orphan")
+);
+
+/**
+ * The kind of local change an entityHistory record describes
+ */
+export const HistoryActionSchema = v.union(
+  v.literal("create"),
+  v.literal("update"),
+  v.literal("delete"),
+  v.literal("restore")
+);
+
+/**
+ * Which indicator series a risk trigger compared against
+ */
+export const RiskTriggerSourceSchema = v.union(
+  v.literal("value"),
+  v.literal("forecast")
+);
+
+/**
+ * One failed send attempt, kept on queue items and dead letters
+ */
+export const syncErrorEntryValidator = v.object({
+  message: v.string(),
+  attemptedAt: v.number(),
+  httpStatus: v.optional(v.number()),
+});
+
+/**
+ * A payload field LinkHub rejected, with the reason
+ */
+export const syncFieldErrorValidator = v.object({
+  field: v.string(),
+  message: v.string(),
+});
+
+/**
+ * A failed LinkHub call, classified by whether sending again can succeed.
+ * Only payload rejections (400, 422, or a 4xx with a LinkHub code or
+ * field errors) are permanent; see lib/errors.ts.
+ */
+export const syncErrorValidator = v.object({
+  message: v.string(),
+  httpStatus: v.optional(v.number()), // Missing for network errors
+  code: v.optional(v.string()), // LinkHub error code
+  fieldErrors: v.optional(v.array(syncFieldErrorValidator)),
+  retryable: v.boolean(),
+});
+
+/**
+ * LinkHub's version of an entity, returned when it rejects a write based
+ * on an outdated revision
+ */
+export const syncConflictDetailsValidator = v.object({
+  remoteRevision: v.optional(v.number()),
+  remotePayload: v.string(), // JSON stringified remote entity
+});
+
 // ============================================================================
 // COMPONENT INTERNAL SCHEMA
 // ============================================================================
@@ -376,6 +470,20 @@ export default defineSchema({
     autoSyncEnabled: v.boolean(),
     syncIntervalMs: v.number(), // default 60000 (1 minute)
     sourceApp: v.optional(v.string()), // e.g. "amc", "myapp"
+    // Retry policy for failed sync items (optional for rows created before retries)
+    retryMaxAttempts: v.optional(v.number()), // default 5
+    retryBaseDelayMs: v.optional(v.number()), // default 5000 (5 seconds)
+    retryMaxDelayMs: v.optional(v.number()), // default 900000 (15 minutes)
+    retryJitterRatio: v.optional(v.number()), // default 0.2 (+/- 20%)
+    // Circuit breaker around LinkHub calls (see lib/circuitBreaker.ts)
+    circuitFailureThreshold: v.optional(v.number()), // default 5
+    circuitCooldownMs: v.optional(v.number()), // default 60000 (1 minute)
+    // Operational pause: the queue keeps accepting items, the processor skips them
+    syncPaused: v.optional(v.boolean()),
+    pausedEntityTypes: v.optional(v.array(v.string())),
+    // Heartbeat bookkeeping, managed by configure() (see sync/heartbeat.ts)
+    heartbeatGeneration: v.optional(v.number()),
+    heartbeatJobId: v.optional(v.id("_scheduled_functions")),
     updatedAt: v.number(),
   }),
 
@@ -383,11 +491,22 @@ export default defineSchema({
   // SYNC INFRASTRUCTURE
   // =========================================================================
 
+  // Circuit breaker state for calls to LinkHub, one row per circuit
+  circuitBreaker: defineTable({
+    name: v.string(), // "linkhub"
+    state: CircuitStateSchema,
+    consecutiveFailures: v.number(),
+    openedAt: v.optional(v.number()),
+    probeStartedAt: v.optional(v.number()), // Set while a half-open probe is in flight
+    updatedAt: v.number(),
+  }).index("by_name", ["name"]),
+
   // Sync queue for pending items
   syncQueue: defineTable({
     entityType: v.string(), // objective, keyResult, risk, etc.
     externalId: v.string(),
     payload: v.string(), // JSON stringified payload
+    operation: v.optional(SyncOperationSchema), // Missing means "upsert"
     status: v.union(
       v.literal("pending"),
       v.literal("processing"),
@@ -396,25 +515,117 @@ export default defineSchema({
     ),
     attempts: v.number(),
     lastAttemptAt: v.optional(v.number()),
+    nextAttemptAt: v.optional(v.number()), // Set when a failed item is waiting for retry
     errorMessage: v.optional(v.string()),
+    errorHistory: v.optional(v.array(syncErrorEntryValidator)),
+    lastHttpStatus: v.optional(v.number()),
+    lastError: v.optional(syncErrorValidator), // Structured error of the last failed attempt
+    leaseExpiresAt: v.optional(v.number()), // Set while a processor run holds the item
+    reclaimCount: v.optional(v.number()), // Times an expired lease was returned to pending
+    coalescedCount: v.optional(v.number()), // Later edits merged into this pending item
+    blockedBy: v.optional(v.string()), // Parent externalId the item is held back for
     createdAt: v.number(),
   })
     .index("by_status", ["status"])
+    .index("by_status_next_attempt", ["status", "nextAttemptAt"])
+    .index("by_status_lease", ["status", "leaseExpiresAt"])
     .index("by_external_id", ["externalId"])
     .index("by_entity_type_status", ["entityType", "status"]),
 
+  // Dead letters: queue items that used up their retries
+  deadLetters: defineTable({
+    entityType: v.string(),
+    externalId: v.string(),
+    payload: v.string(), // Original JSON stringified payload
+    operation: v.optional(SyncOperationSchema),
+    attempts: v.number(),
+    errors: v.array(syncErrorEntryValidator), // Every failed attempt, oldest first
+    lastHttpStatus: v.optional(v.number()),
+    queuedAt: v.number(), // createdAt of the original queue item
+    deadLetteredAt: v.number(),
+  })
+    .index("by_entity_type", ["entityType"])
+    .index("by_external_id", ["externalId"])
+    .index("by_dead_lettered_at", ["deadLetteredAt"]),
+
+  // Conflicts: writes LinkHub rejected as stale, with both versions
+  syncConflicts: defineTable({
+    entityType: v.string(),
+    externalId: v.string(),
+    operation: v.optional(SyncOperationSchema),
+    localPayload: v.string(), // The rejected JSON stringified payload
+    remotePayload: v.string(), // LinkHub's JSON stringified entity
+    baseRevision: v.optional(v.number()), // Remote revision the write was based on
+    remoteRevision: v.optional(v.number()), // LinkHub's current revision
+    queuedAt: v.number(), // createdAt of the original queue item
+    detectedAt: v.number(),
+  })
+    .index("by_entity_type", ["entityType"])
+    .index("by_external_id", ["externalId"])
+    .index("by_detected_at", ["detectedAt"]),
+
   // Sync log for tracking successful syncs
   syncLog: defineTable({
     entityType: v.string(),
     externalId: v.string(),
     linkHubId: v.optional(v.string()), // The ID returned from LinkHub
     syncedAt: v.number(),
-    action: v.union(v.literal("create"), v.literal("update")),
+    action: v.union(
+      v.literal("create"),
+      v.literal("update"),
+      v.literal("delete"),
+      v.literal("restore")
+    ),
   })
     .index("by_external_id", ["externalId"])
     .index("by_entity_type", ["entityType"])
     .index("by_synced_at", ["syncedAt"]),
 
+  // LinkHub ID per externalId, kept up to date on every successful sync
+  linkHubMappings: defineTable({
+    entityType: v.string(),
+    externalId: v.string(),
+    linkHubId: v.string(),
+    firstSyncedAt: v.number(),
+    lastSyncedAt: v.number(),
+  })
+    .index("by_external_id", ["externalId"])
+    .index("by_linkhub_id", ["linkHubId"]),
+
+  // =========================================================================
+  // AUDIT
+  // =========================================================================
+
+  // Change history written by the entity create/update/delete/restore mutations
+  entityHistory: defineTable({
+    entityType: v.string(),
+    externalId: v.string(),
+    teamExternalId: v.optional(v.string()), // Set for entities that belong to a team
+    action: HistoryActionSchema,
+    before: v.optional(v.any()), // Changed fields before the change (absent for creates)
+    after: v.optional(v.any()), // Changed fields after the change (every field for creates)
+    actor: v.optional(v.string()), // Identity reported by the exposeApi auth hook
+    sourceUrl: v.optional(v.string()),
+    changedAt: v.number(),
+  })
+    .index("by_external_id", ["externalId"])
+    .index("by_team", ["teamExternalId"]),
+
+  // isRed flips made by evaluating a risk's trigger against its indicator
+  riskTriggerEvents: defineTable({
+    riskExternalId: v.string(),
+    indicatorExternalId: v.string(),
+    source: RiskTriggerSourceSchema,
+    sourceExternalId: v.string(), // Indicator value or forecast compared
+    value: v.number(),
+    triggerValue: v.number(),
+    triggeredIfLower: v.boolean(),
+    isRed: v.boolean(), // State after the flip
+    triggeredAt: v.number(),
+  })
+    .index("by_risk", ["riskExternalId"])
+    .index("by_indicator", ["indicatorExternalId"]),
+
   // =========================================================================
   // LOCAL OKR TABLES
   // =========================================================================
@@ -431,11 +642,23 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
     deletedAt: v.optional(v.number()),
+    revision: v.optional(v.number()), // Bumped on every local change queued for sync
+    remoteRevision: v.optional(v.number()), // Last revision LinkHub acknowledged
   })
     .index("by_external_id", ["externalId"])
     .index("by_team", ["teamExternalId"])
+    .index("by_team_deleted_at", ["teamExternalId", "deletedAt"])
     .index("by_slug", ["slug"])
-    .index("by_sync_status", ["syncStatus"]),
+    .index("by_sync_status", ["syncStatus"])
+    .index("by_deleted_at", ["deletedAt"])
+    .searchIndex("search_title", {
+      searchField: "title",
+      filterFields: ["teamExternalId", "deletedAt"],
+    })
+    .searchIndex("search_description", {
+      searchField: "description",
+      filterFields: ["teamExternalId", "deletedAt"],
+    }),
 
   // Key Results - local storage before sync
   keyResults: defineTable({
@@ -445,19 +668,24 @@ export default defineSchema({
     teamExternalId: v.string(),
     forecastValue: v.optional(v.number()),
     targetValue: v.optional(v.number()),
+    weight: v.optional(v.number()), // Managed by LinkHub, set via webhook
     slug: v.string(),
     metadata: v.optional(v.any()),
     syncStatus: SyncStatusSchema,
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
     deletedAt: v.optional(v.number()),
+    revision: v.optional(v.number()), // Bumped on every local change queued for sync
+    remoteRevision: v.optional(v.number()), // Last revision LinkHub acknowledged
   })
     .index("by_external_id", ["externalId"])
     .index("by_objective", ["objectiveExternalId"])
+    .index("by_objective_deleted_at", ["objectiveExternalId", "deletedAt"])
     .index("by_team", ["teamExternalId"])
     .index("by_indicator", ["indicatorExternalId"])
     .index("by_slug", ["slug"])
-    .index("by_sync_status", ["syncStatus"]),
+    .index("by_sync_status", ["syncStatus"])
+    .index("by_deleted_at", ["deletedAt"]),
 
   // Risks - local storage before sync
   risks: defineTable({
@@ -476,12 +704,23 @@ export default defineSchema({
     syncStatus: SyncStatusSchema,
     createdAt: v.number(),
     deletedAt: v.optional(v.number()),
+    revision: v.optional(v.number()), // Bumped on every local change queued for sync
+    remoteRevision: v.optional(v.number()), // Last revision LinkHub acknowledged
   })
     .index("by_external_id", ["externalId"])
     .index("by_key_result", ["keyResultExternalId"])
+    .index("by_key_result_deleted_at", ["keyResultExternalId", "deletedAt"])
+    .index("by_indicator", ["indicatorExternalId"])
+    .index("by_indicator_deleted_at", ["indicatorExternalId", "deletedAt"])
     .index("by_team", ["teamExternalId"])
+    .index("by_team_deleted_at", ["teamExternalId", "deletedAt"])
     .index("by_slug", ["slug"])
-    .index("by_sync_status", ["syncStatus"]),
+    .index("by_sync_status", ["syncStatus"])
+    .index("by_deleted_at", ["deletedAt"])
+    .searchIndex("search_description", {
+      searchField: "description",
+      filterFields: ["teamExternalId", "deletedAt"],
+    }),
 
   // Initiatives - local storage before sync
   initiatives: defineTable({
@@ -494,19 +733,43 @@ export default defineSchema({
     status: InitiativeStatusSchema, // Required, default ON_TIME
     priority: PrioritySchema,
     finishedAt: v.optional(v.number()),
+    dueDate: v.optional(v.number()),
     slug: v.string(),
     metadata: v.optional(v.any()),
     syncStatus: SyncStatusSchema,
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
     deletedAt: v.optional(v.number()),
+    revision: v.optional(v.number()), // Bumped on every local change queued for sync
+    remoteRevision: v.optional(v.number()), // Last revision LinkHub acknowledged
   })
     .index("by_external_id", ["externalId"])
     .index("by_risk", ["riskExternalId"])
+    .index("by_risk_deleted_at", ["riskExternalId", "deletedAt"])
     .index("by_team", ["teamExternalId"])
+    .index("by_team_deleted_at", ["teamExternalId", "deletedAt"])
     .index("by_assignee", ["assigneeExternalId"])
+    .index("by_assignee_deleted_at", ["assigneeExternalId", "deletedAt"])
+    .index("by_team_status", ["teamExternalId", "status"])
+    .index("by_team_status_deleted_at", [
+      "teamExternalId",
+      "status",
+      "deletedAt",
+    ])
+    .index("by_assignee_status", ["assigneeExternalId", "status"])
+    .index("by_assignee_status_deleted_at", [
+      "assigneeExternalId",
+      "status",
+      "deletedAt",
+    ])
+    .index("by_status_due_date", ["status", "dueDate"])
     .index("by_slug", ["slug"])
-    .index("by_sync_status", ["syncStatus"]),
+    .index("by_sync_status", ["syncStatus"])
+    .index("by_deleted_at", ["deletedAt"])
+    .searchIndex("search_description", {
+      searchField: "description",
+      filterFields: ["teamExternalId", "deletedAt"],
+    }),
 
   // Indicators - local storage before sync
   indicators: defineTable({
@@ -521,11 +784,14 @@ export default defineSchema({
     syncStatus: SyncStatusSchema,
     createdAt: v.number(),
     deletedAt: v.optional(v.number()),
+    revision: v.optional(v.number()), // Bumped on every local change queued for sync
+    remoteRevision: v.optional(v.number()), // Last revision LinkHub acknowledged
   })
     .index("by_external_id", ["externalId"])
     .index("by_company", ["companyExternalId"])
     .index("by_slug", ["slug"])
-    .index("by_sync_status", ["syncStatus"]),
+    .index("by_sync_status", ["syncStatus"])
+    .index("by_deleted_at", ["deletedAt"]),
 
   // Indicator Values - local storage before sync
   indicatorValues: defineTable({
@@ -535,10 +801,15 @@ export default defineSchema({
     date: v.number(),
     syncStatus: SyncStatusSchema,
     createdAt: v.number(),
+    deletedAt: v.optional(v.number()),
+    revision: v.optional(v.number()), // Bumped on every local change queued for sync
+    remoteRevision: v.optional(v.number()), // Last revision LinkHub acknowledged
   })
     .index("by_external_id", ["externalId"])
     .index("by_indicator", ["indicatorExternalId"])
-    .index("by_sync_status", ["syncStatus"]),
+    .index("by_indicator_date", ["indicatorExternalId", "date"])
+    .index("by_sync_status", ["syncStatus"])
+    .index("by_deleted_at", ["deletedAt"]),
 
   // Indicator Forecasts - local storage before sync
   indicatorForecasts: defineTable({
@@ -548,10 +819,15 @@ export default defineSchema({
     date: v.number(),
     syncStatus: SyncStatusSchema,
     createdAt: v.number(),
+    deletedAt: v.optional(v.number()),
+    revision: v.optional(v.number()), // Bumped on every local change queued for sync
+    remoteRevision: v.optional(v.number()), // Last revision LinkHub acknowledged
   })
     .index("by_external_id", ["externalId"])
     .index("by_indicator", ["indicatorExternalId"])
-    .index("by_sync_status", ["syncStatus"]),
+    .index("by_indicator_date", ["indicatorExternalId", "date"])
+    .index("by_sync_status", ["syncStatus"])
+    .index("by_deleted_at", ["deletedAt"]),
 
   // Milestones - local storage before sync
   milestones: defineTable({
@@ -567,11 +843,21 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
     deletedAt: v.optional(v.number()),
+    revision: v.optional(v.number()), // Bumped on every local change queued for sync
+    remoteRevision: v.optional(v.number()), // Last revision LinkHub acknowledged
   })
     .index("by_external_id", ["externalId"])
     .index("by_indicator", ["indicatorExternalId"])
+    .index("by_indicator_deleted_at", ["indicatorExternalId", "deletedAt"])
+    .index("by_status", ["status"])
+    .index("by_status_deleted_at", ["status", "deletedAt"])
     .index("by_slug", ["slug"])
-    .index("by_sync_status", ["syncStatus"]),
+    .index("by_sync_status", ["syncStatus"])
+    .index("by_deleted_at", ["deletedAt"])
+    .searchIndex("search_description", {
+      searchField: "description",
+      filterFields: ["deletedAt"],
+    }),
 });
 
 // ============================================================================
@@ -592,3 +878,13 @@ export type UserPayload = typeof userPayloadValidator.type;
 export type CompanyPayload = typeof companyPayloadValidator.type;
 export type BatchPayload = typeof batchPayloadValidator.type;
 export type SyncStatus = typeof SyncStatusSchema.type;
+export type SyncOperation = typeof SyncOperationSchema.type;
+export type CircuitState = typeof CircuitStateSchema.type;
+export type DeleteMode = typeof DeleteModeSchema.type;
+export type MilestoneStatus = typeof MilestoneStatusSchema.type;
+export type HistoryAction = typeof HistoryActionSchema.type;
+export type RiskTriggerSource = typeof RiskTriggerSourceSchema.type;
+export type SyncErrorEntry = typeof syncErrorEntryValidator.type;
+export type SyncFieldError = typeof syncFieldErrorValidator.type;
+export type SyncError = typeof syncErrorValidator.type;
+export type SyncConflictDetails = typeof syncConflictDetailsValidator.type;
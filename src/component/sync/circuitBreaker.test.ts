@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "../_generated/api.js";
+import { DEFAULT_CIRCUIT_BREAKER_POLICY } from "../lib/circuitBreaker.js";
+import { initConvexTest } from "../setup.test.js";
+
+const { failureThreshold, cooldownMs } = DEFAULT_CIRCUIT_BREAKER_POLICY;
+
+async function recordFailures(
+  t: ReturnType<typeof initConvexTest>,
+  count: number
+) {
+  for (let i = 0; i < count; i++) {
+    await t.mutation(internal.sync.circuitBreaker.recordCircuitResult, {
+      unavailable: true,
+    });
+  }
+}
+
+describe("circuit breaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("starts closed and lets calls through", async () => {
+    const t = initConvexTest();
+    const gate = await t.mutation(
+      internal.sync.circuitBreaker.acquireCircuit,
+      {}
+    );
+    expect(gate).toEqual({ allowed: true, state: "closed" });
+  });
+
+  test("stays closed below the failure threshold", async () => {
+    const t = initConvexTest();
+    await recordFailures(t, failureThreshold - 1);
+
+    const state = await t.query(api.sync.circuitBreaker.getCircuitState, {});
+    expect(state.state).toBe("closed");
+    expect(state.consecutiveFailures).toBe(failureThreshold - 1);
+  });
+
+  test("a success resets the failure count", async () => {
+    const t = initConvexTest();
+    await recordFailures(t, failureThreshold - 1);
+    await t.mutation(internal.sync.circuitBreaker.recordCircuitResult, {
+      unavailable: false,
+    });
+    await recordFailures(t, 1);
+
+    const state = await t.query(api.sync.circuitBreaker.getCircuitState, {});
+    expect(state.state).toBe("closed");
+    expect(state.consecutiveFailures).toBe(1);
+  });
+
+  test("opens at the threshold and refuses calls until the cool-down ends", async () => {
+    const t = initConvexTest();
+    const openedAt = Date.now();
+    await recordFailures(t, failureThreshold);
+
+    const state = await t.query(api.sync.circuitBreaker.getCircuitState, {});
+    expect(state).toMatchObject({
+      state: "open",
+      openedAt,
+      retryAt: openedAt + cooldownMs,
+    });
+
+    vi.setSystemTime(openedAt + cooldownMs - 1);
+    const gate = await t.mutation(
+      internal.sync.circuitBreaker.acquireCircuit,
+      {}
+    );
+    expect(gate).toEqual({
+      allowed: false,
+      state: "open",
+      retryAt: openedAt + cooldownMs,
+    });
+  });
+
+  test("lets one probe through after the cool-down", async () => {
+    const t = initConvexTest();
+    const openedAt = Date.now();
+    await recordFailures(t, failureThreshold);
+
+    vi.setSystemTime(openedAt + cooldownMs);
+    const probe = await t.mutation(
+      internal.sync.circuitBreaker.acquireCircuit,
+      {}
+    );
+    expect(probe).toEqual({ allowed: true, state: "half_open" });
+
+    const other = await t.mutation(
+      internal.sync.circuitBreaker.acquireCircuit,
+      {}
+    );
+    expect(other).toMatchObject({ allowed: false, state: "half_open" });
+  });
+
+  test("a successful probe closes the circuit", async () => {
+    const t = initConvexTest();
+    await recordFailures(t, failureThreshold);
+    vi.setSystemTime(Date.now() + cooldownMs);
+    await t.mutation(internal.sync.circuitBreaker.acquireCircuit, {});
+
+    await t.mutation(internal.sync.circuitBreaker.recordCircuitResult, {
+      unavailable: false,
+    });
+
+    const state = await t.query(api.sync.circuitBreaker.getCircuitState, {});
+    expect(state).toEqual({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  test("a failed probe opens the circuit again", async () => {
+    const t = initConvexTest();
+    await recordFailures(t, failureThreshold);
+    const probeAt = Date.now() + cooldownMs;
+    vi.setSystemTime(probeAt);
+    await t.mutation(internal.sync.circuitBreaker.acquireCircuit, {});
+
+    await recordFailures(t, 1);
+
+    const state = await t.query(api.sync.circuitBreaker.getCircuitState, {});
+    expect(state).toMatchObject({
+      state: "open",
+      openedAt: probeAt,
+      retryAt: probeAt + cooldownMs,
+    });
+  });
+});
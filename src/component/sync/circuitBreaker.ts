@@ -0,0 +1,182 @@
+/**
+ * Circuit Breaker for OKRHub Component
+ *
+ * Keeps the state of the circuit around LinkHub calls. Every call first
+ * asks `acquireCircuit` whether it may go out, then reports whether
+ * LinkHub was available with `recordCircuitResult`. While the circuit is
+ * open, calls are refused without a request, so a LinkHub outage does
+ * not burn the queue's retry attempts. The policy lives in the config
+ * (see lib/circuitBreaker.ts).
+ *
+ * Only the component's own LinkHub actions (sync/http.ts) drive the
+ * circuit; callers can read it with `getCircuitState`.
+ */
+
+import { v } from "convex/values";
+import type { Doc } from "../_generated/dataModel.js";
+import {
+  internalMutation,
+  query,
+  type QueryCtx,
+} from "../_generated/server.js";
+import { resolveCircuitBreakerPolicy } from "../lib/circuitBreaker.js";
+import { CircuitStateSchema } from "../schema.js";
+
+const LINKHUB_CIRCUIT = "linkhub";
+
+const circuitGateValidator = v.object({
+  allowed: v.boolean(),
+  state: CircuitStateSchema,
+  // When a refused call may be tried again
+  retryAt: v.optional(v.number()),
+});
+
+async function loadCircuit(
+  ctx: QueryCtx
+): Promise<Doc<"circuitBreaker"> | null> {
+  return await ctx.db
+    .query("circuitBreaker")
+    .withIndex("by_name", (q) => q.eq("name", LINKHUB_CIRCUIT))
+    .first();
+}
+
+/**
+ * Asks whether a LinkHub call may go out.
+ *
+ * A closed circuit lets every call through. An open circuit refuses calls
+ * until its cool-down has passed, then turns half-open and lets this call
+ * through as the probe. A half-open circuit refuses other calls while the
+ * probe is in flight; a probe that never reported back is replaced after
+ * another cool-down.
+ */
+export const acquireCircuit = internalMutation({
+  args: {},
+  returns: circuitGateValidator,
+  handler: async (ctx) => {
+    const circuit = await loadCircuit(ctx);
+    if (!circuit || circuit.state === "closed") {
+      return { allowed: true, state: "closed" as const };
+    }
+
+    const config = await ctx.db.query("config").first();
+    const policy = resolveCircuitBreakerPolicy(config);
+    const now = Date.now();
+
+    const retryAt =
+      circuit.state === "open"
+        ? (circuit.openedAt ?? 0) + policy.cooldownMs
+        : (circuit.probeStartedAt ?? 0) + policy.cooldownMs;
+    if (now < retryAt) {
+      return { allowed: false, state: circuit.state, retryAt };
+    }
+
+    await ctx.db.patch(circuit._id, {
+      state: "half_open",
+      probeStartedAt: now,
+      updatedAt: now,
+    });
+    console.log("[okrhub] circuit half-open: probing LinkHub");
+    return { allowed: true, state: "half_open" as const };
+  },
+});
+
+/**
+ * Reports the outcome of a LinkHub call that acquireCircuit let through.
+ * `unavailable` is true for network errors and for the statuses in
+ * `isUnavailableStatus`. An available LinkHub closes the circuit; enough
+ * unavailable calls in a row, or a failed probe, open it.
+ */
+export const recordCircuitResult = internalMutation({
+  args: {
+    unavailable: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const circuit = await loadCircuit(ctx);
+    const now = Date.now();
+
+    if (!args.unavailable) {
+      if (
+        circuit &&
+        (circuit.state !== "closed" || circuit.consecutiveFailures > 0)
+      ) {
+        await ctx.db.patch(circuit._id, {
+          state: "closed",
+          consecutiveFailures: 0,
+          openedAt: undefined,
+          probeStartedAt: undefined,
+          updatedAt: now,
+        });
+        if (circuit.state !== "closed") {
+          console.log("[okrhub] circuit closed: LinkHub is available again");
+        }
+      }
+      return null;
+    }
+
+    const config = await ctx.db.query("config").first();
+    const policy = resolveCircuitBreakerPolicy(config);
+    const consecutiveFailures = (circuit?.consecutiveFailures ?? 0) + 1;
+    const opens =
+      circuit?.state === "half_open" ||
+      (circuit?.state !== "open" &&
+        consecutiveFailures >= policy.failureThreshold);
+
+    const patch = {
+      consecutiveFailures,
+      updatedAt: now,
+      ...(opens && {
+        state: "open" as const,
+        openedAt: now,
+        probeStartedAt: undefined,
+      }),
+    };
+    if (circuit) {
+      await ctx.db.patch(circuit._id, patch);
+    } else {
+      await ctx.db.insert("circuitBreaker", {
+        name: LINKHUB_CIRCUIT,
+        state: "closed",
+        ...patch,
+      });
+    }
+
+    if (opens) {
+      console.log(
+        `[okrhub] circuit open: consecutiveFailures=${consecutiveFailures} cooldownMs=${policy.cooldownMs}`
+      );
+    }
+    return null;
+  },
+});
+
+/**
+ * Reports the state of the circuit around LinkHub calls
+ */
+export const getCircuitState = query({
+  args: {},
+  returns: v.object({
+    state: CircuitStateSchema,
+    consecutiveFailures: v.number(),
+    openedAt: v.optional(v.number()),
+    retryAt: v.optional(v.number()),
+  }),
+  handler: async (ctx) => {
+    const circuit = await loadCircuit(ctx);
+    if (!circuit) {
+      return { state: "closed" as const, consecutiveFailures: 0 };
+    }
+
+    const config = await ctx.db.query("config").first();
+    const policy = resolveCircuitBreakerPolicy(config);
+    return {
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      openedAt: circuit.openedAt,
+      retryAt:
+        circuit.state === "open" && circuit.openedAt !== undefined
+          ? circuit.openedAt + policy.cooldownMs
+          : undefined,
+    };
+  },
+});
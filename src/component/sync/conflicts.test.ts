@@ -0,0 +1,266 @@
+import { describe, expect, test } from "vitest";
+import { api, internal } from "../_generated/api.js";
+import type { SyncOperation } from "../schema.js";
+import { initConvexTest } from "../setup.test.js";
+
+const externalId = "okrhub:test:objective:1";
+const teamExternalId = "okrhub:test:team:1";
+
+/**
+ * Stores a local objective, queues a write for it and has LinkHub reject
+ * the write as stale, with `remote` as LinkHub's version at revision 5
+ */
+async function conflictOn(
+  t: ReturnType<typeof initConvexTest>,
+  options: {
+    operation?: SyncOperation;
+    remote?: Record<string, unknown>;
+    deletedAt?: number;
+  } = {}
+) {
+  await t.run(async (ctx) => {
+    await ctx.db.insert("objectives", {
+      externalId,
+      title: "Local title",
+      description: "Local description",
+      teamExternalId,
+      slug: "grow",
+      syncStatus: "pending",
+      createdAt: Date.now(),
+      deletedAt: options.deletedAt,
+      remoteRevision: 3,
+    });
+  });
+  const queueId = await t.mutation(internal.sync.queue.addToSyncQueue, {
+    entityType: "objective",
+    externalId,
+    payload: JSON.stringify(
+      options.operation === "delete"
+        ? { externalId, deletedAt: options.deletedAt }
+        : { externalId, title: "Local title" }
+    ),
+    operation: options.operation,
+  });
+  if (!queueId) throw new Error("Item was not queued");
+
+  await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+    id: queueId,
+    status: "failed",
+    errorMessage: "HTTP 409",
+    httpStatus: 409,
+    conflict: {
+      remoteRevision: 5,
+      remotePayload: JSON.stringify(
+        options.remote ?? {
+          externalId,
+          title: "Remote title",
+          description: "Remote description",
+        }
+      ),
+    },
+  });
+
+  return await t.run(async (ctx) => {
+    const conflict = await ctx.db.query("syncConflicts").first();
+    if (!conflict) throw new Error("Conflict was not recorded");
+    return conflict._id;
+  });
+}
+
+async function loadState(t: ReturnType<typeof initConvexTest>) {
+  return await t.run(async (ctx) => ({
+    objective: await ctx.db
+      .query("objectives")
+      .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+      .first(),
+    queued: await ctx.db.query("syncQueue").collect(),
+    conflicts: await ctx.db.query("syncConflicts").collect(),
+  }));
+}
+
+describe("moveToConflicts", () => {
+  test("a rejected write leaves the queue with both versions", async () => {
+    const t = initConvexTest();
+    await conflictOn(t);
+
+    const { objective, queued, conflicts } = await loadState(t);
+    expect(queued).toHaveLength(0);
+    expect(objective?.syncStatus).toBe("conflict");
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      entityType: "objective",
+      externalId,
+      baseRevision: 3,
+      remoteRevision: 5,
+    });
+    expect(JSON.parse(conflicts[0].localPayload)).toMatchObject({
+      title: "Local title",
+    });
+    expect(JSON.parse(conflicts[0].remotePayload)).toMatchObject({
+      title: "Remote title",
+    });
+  });
+});
+
+describe("resolveConflictKeepLocal", () => {
+  test("queues the current row based on LinkHub's revision", async () => {
+    const t = initConvexTest();
+    const id = await conflictOn(t);
+
+    const result = await t.mutation(api.sync.conflicts.resolveConflictKeepLocal, {
+      id,
+    });
+
+    const { objective, queued, conflicts } = await loadState(t);
+    expect(result.success).toBe(true);
+    expect(conflicts).toHaveLength(0);
+    expect(objective?.syncStatus).toBe("pending");
+    expect(queued).toHaveLength(1);
+    expect(queued[0].operation).toBe("upsert");
+    expect(JSON.parse(queued[0].payload)).toMatchObject({
+      title: "Local title",
+      description: "Local description",
+      baseRevision: 5,
+    });
+  });
+
+  test("queues the tombstone again for a rejected delete", async () => {
+    const t = initConvexTest();
+    const deletedAt = Date.now();
+    const id = await conflictOn(t, { operation: "delete", deletedAt });
+
+    await t.mutation(api.sync.conflicts.resolveConflictKeepLocal, { id });
+
+    const { queued } = await loadState(t);
+    expect(queued).toHaveLength(1);
+    expect(queued[0].operation).toBe("delete");
+    expect(JSON.parse(queued[0].payload)).toMatchObject({
+      externalId,
+      deletedAt,
+    });
+  });
+});
+
+describe("resolveConflictTakeRemote", () => {
+  test("copies LinkHub's version and queues nothing", async () => {
+    const t = initConvexTest();
+    const id = await conflictOn(t);
+
+    const result = await t.mutation(
+      api.sync.conflicts.resolveConflictTakeRemote,
+      { id }
+    );
+
+    const { objective, queued, conflicts } = await loadState(t);
+    expect(result.success).toBe(true);
+    expect(queued).toHaveLength(0);
+    expect(conflicts).toHaveLength(0);
+    expect(objective).toMatchObject({
+      title: "Remote title",
+      description: "Remote description",
+      syncStatus: "synced",
+      remoteRevision: 5,
+    });
+  });
+
+  test("undoes a rejected delete locally", async () => {
+    const t = initConvexTest();
+    const id = await conflictOn(t, {
+      operation: "delete",
+      deletedAt: Date.now(),
+    });
+
+    await t.mutation(api.sync.conflicts.resolveConflictTakeRemote, { id });
+
+    const { objective } = await loadState(t);
+    expect(objective?.deletedAt).toBeUndefined();
+    expect(objective?.title).toBe("Remote title");
+  });
+
+  test("refuses LinkHub values that do not match the schema", async () => {
+    const t = initConvexTest();
+    const id = await conflictOn(t, {
+      remote: { externalId, title: 42, description: "Remote description" },
+    });
+
+    const result = await t.mutation(
+      api.sync.conflicts.resolveConflictTakeRemote,
+      { id }
+    );
+
+    const { objective, conflicts } = await loadState(t);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      "LinkHub's values do not match the objective schema: title"
+    );
+    expect(conflicts).toHaveLength(1);
+    expect(objective).toMatchObject({
+      title: "Local title",
+      description: "Local description",
+      syncStatus: "conflict",
+    });
+  });
+});
+
+describe("resolveConflictMerge", () => {
+  test("takes the chosen fields from LinkHub and queues the result", async () => {
+    const t = initConvexTest();
+    const id = await conflictOn(t);
+
+    const result = await t.mutation(api.sync.conflicts.resolveConflictMerge, {
+      id,
+      remoteFields: ["title"],
+    });
+
+    const { objective, queued, conflicts } = await loadState(t);
+    expect(result.success).toBe(true);
+    expect(conflicts).toHaveLength(0);
+    expect(objective).toMatchObject({
+      title: "Remote title",
+      description: "Local description",
+      syncStatus: "pending",
+    });
+    expect(queued).toHaveLength(1);
+    expect(JSON.parse(queued[0].payload)).toMatchObject({
+      title: "Remote title",
+      description: "Local description",
+      baseRevision: 5,
+    });
+  });
+
+  test("refuses a delete conflict", async () => {
+    const t = initConvexTest();
+    const id = await conflictOn(t, {
+      operation: "delete",
+      deletedAt: Date.now(),
+    });
+
+    const result = await t.mutation(api.sync.conflicts.resolveConflictMerge, {
+      id,
+      remoteFields: ["title"],
+    });
+
+    const { objective, conflicts } = await loadState(t);
+    expect(result).toEqual({
+      success: false,
+      error: "Cannot merge a delete conflict",
+    });
+    expect(conflicts).toHaveLength(1);
+    expect(objective?.deletedAt).toBeDefined();
+  });
+
+  test("refuses fields the entity cannot take from LinkHub", async () => {
+    const t = initConvexTest();
+    const id = await conflictOn(t);
+
+    const result = await t.mutation(api.sync.conflicts.resolveConflictMerge, {
+      id,
+      remoteFields: ["syncStatus"],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      "Fields cannot be merged for objective: syncStatus"
+    );
+  });
+});
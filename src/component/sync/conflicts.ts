@@ -0,0 +1,402 @@
+/**
+ * Sync Conflicts for OKRHub Component
+ *
+ * Every queued write carries the remote revision it was based on. When
+ * LinkHub answers that its copy has moved on since, the item leaves the
+ * queue and is kept here with both versions until it is resolved: keep
+ * the local version, take LinkHub's, or merge them field by field.
+ */
+
+import { v, type GenericValidator } from "convex/values";
+import { internal } from "../_generated/api.js";
+import type { Doc, Id } from "../_generated/dataModel.js";
+import { mutation, query, type MutationCtx } from "../_generated/server.js";
+import { buildEntitySnapshot } from "../entities/lifecycle.js";
+import {
+  findEntityByExternalId,
+  getEntityTable,
+  hasUpdatedAt,
+  setEntityRemoteRevision,
+  setEntitySyncStatus,
+  type LocalEntityDoc,
+  type LocalEntityType,
+} from "../lib/entityTables.js";
+import { getLinkHubManagedFields } from "../lib/payloadPolicy.js";
+import { matchesValidator } from "../lib/validation.js";
+import schema, {
+  SyncOperationSchema,
+  type SyncConflictDetails,
+} from "../schema.js";
+
+const syncConflictValidator = v.object({
+  _id: v.id("syncConflicts"),
+  _creationTime: v.number(),
+  entityType: v.string(),
+  externalId: v.string(),
+  operation: v.optional(SyncOperationSchema),
+  localPayload: v.string(),
+  remotePayload: v.string(),
+  baseRevision: v.optional(v.number()),
+  remoteRevision: v.optional(v.number()),
+  queuedAt: v.number(),
+  detectedAt: v.number(),
+});
+
+const resolutionResultValidator = v.object({
+  success: v.boolean(),
+  queueId: v.optional(v.id("syncQueue")),
+  error: v.optional(v.string()),
+});
+
+type ResolutionResult = typeof resolutionResultValidator.type;
+
+/**
+ * Moves a rejected queue item to the conflicts table. An entity keeps at
+ * most one conflict: a newer rejected write replaces the older one.
+ */
+export async function moveToConflicts(
+  ctx: MutationCtx,
+  item: Doc<"syncQueue">,
+  conflict: SyncConflictDetails
+): Promise<void> {
+  const previous = await ctx.db
+    .query("syncConflicts")
+    .withIndex("by_external_id", (q) => q.eq("externalId", item.externalId))
+    .filter((q) => q.eq(q.field("entityType"), item.entityType))
+    .collect();
+  for (const stale of previous) {
+    await ctx.db.delete(stale._id);
+  }
+
+  const { baseRevision } = JSON.parse(item.payload) as {
+    baseRevision?: unknown;
+  };
+  await ctx.db.insert("syncConflicts", {
+    entityType: item.entityType,
+    externalId: item.externalId,
+    operation: item.operation,
+    localPayload: item.payload,
+    remotePayload: conflict.remotePayload,
+    baseRevision: typeof baseRevision === "number" ? baseRevision : undefined,
+    remoteRevision: conflict.remoteRevision,
+    queuedAt: item.createdAt,
+    detectedAt: Date.now(),
+  });
+  await ctx.db.delete(item._id);
+  await setEntitySyncStatus(
+    ctx.db,
+    item.entityType,
+    item.externalId,
+    "conflict"
+  );
+
+  console.log(
+    `[okrhub] sync conflict entityType=${item.entityType} externalId=${item.externalId} remoteRevision=${conflict.remoteRevision}`
+  );
+}
+
+/**
+ * Fields a resolution may copy from LinkHub's version: the ones the
+ * entity's sync payload carries, plus the LinkHub-managed ones
+ */
+function getResolvableFields(
+  entityType: LocalEntityType,
+  entity: LocalEntityDoc
+): string[] {
+  const snapshotFields = Object.keys(
+    buildEntitySnapshot(entityType, entity, 0)
+  ).filter((field) => field !== "externalId" && field !== "updatedAt");
+  return [...snapshotFields, ...getLinkHubManagedFields(entityType)];
+}
+
+/**
+ * Copies the given fields from LinkHub's version onto the local entity
+ * and records LinkHub's revision as the new base.
+ * LinkHub's values are checked against the table's schema first; if any
+ * field does not match, nothing is written and those fields are returned.
+ */
+async function applyRemoteFields(
+  ctx: MutationCtx,
+  conflict: Doc<"syncConflicts">,
+  entity: LocalEntityDoc,
+  fields: string[]
+): Promise<string[]> {
+  const remote = JSON.parse(conflict.remotePayload) as Record<string, unknown>;
+  const table = getEntityTable(conflict.entityType);
+  const fieldValidators: Record<string, GenericValidator> = table
+    ? schema.tables[table].validator.fields
+    : {};
+
+  const patch: Record<string, unknown> = {};
+  const invalidFields: string[] = [];
+  for (const field of fields) {
+    if (!(field in remote)) continue;
+    const value = remote[field] ?? undefined;
+    const validator = fieldValidators[field];
+    if (!validator || !matchesValidator(validator, value)) {
+      invalidFields.push(field);
+    } else {
+      patch[field] = value;
+    }
+  }
+  if (invalidFields.length > 0) {
+    return invalidFields;
+  }
+
+  await ctx.db.patch(entity._id, {
+    ...(patch as Partial<Doc<"objectives">>),
+    remoteRevision: conflict.remoteRevision,
+    ...(hasUpdatedAt(conflict.entityType) && { updatedAt: Date.now() }),
+  });
+  return [];
+}
+
+/**
+ * Error for a resolution whose remote fields do not match the schema
+ */
+function invalidRemoteFieldsError(
+  entityType: string,
+  invalidFields: string[]
+): string {
+  return `LinkHub's values do not match the ${entityType} schema: ${invalidFields.join(", ")}`;
+}
+
+/**
+ * Loads a conflict and its local entity for a resolution mutation
+ */
+async function loadConflict(
+  ctx: MutationCtx,
+  id: Id<"syncConflicts">
+): Promise<
+  | { conflict: Doc<"syncConflicts">; entity: LocalEntityDoc }
+  | { error: string }
+> {
+  const conflict = await ctx.db.get(id);
+  if (!conflict) {
+    return { error: `Sync conflict not found: ${id}` };
+  }
+  const entity = await findEntityByExternalId(
+    ctx.db,
+    conflict.entityType,
+    conflict.externalId
+  );
+  if (!entity) {
+    return {
+      error: `Local ${conflict.entityType} not found: ${conflict.externalId}`,
+    };
+  }
+  return { conflict, entity };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Lists open sync conflicts, most recent first, optionally filtered by
+ * entityType
+ */
+export const listSyncConflicts = query({
+  args: {
+    entityType: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(syncConflictValidator),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 50;
+    const { entityType } = args;
+
+    if (entityType) {
+      return await ctx.db
+        .query("syncConflicts")
+        .withIndex("by_entity_type", (q) => q.eq("entityType", entityType))
+        .order("desc")
+        .take(limit);
+    }
+
+    return await ctx.db
+      .query("syncConflicts")
+      .withIndex("by_detected_at")
+      .order("desc")
+      .take(limit);
+  },
+});
+
+// ============================================================================
+// RESOLUTION MUTATIONS
+// ============================================================================
+
+/**
+ * Resolves a conflict in favour of the local version: the entity's current
+ * state is queued again, based on LinkHub's current revision. A rejected
+ * delete is sent again as long as the entity is still deleted locally.
+ */
+export const resolveConflictKeepLocal = mutation({
+  args: {
+    id: v.id("syncConflicts"),
+  },
+  returns: resolutionResultValidator,
+  handler: async (ctx, args): Promise<ResolutionResult> => {
+    const loaded = await loadConflict(ctx, args.id);
+    if ("error" in loaded) {
+      return { success: false, error: loaded.error };
+    }
+    const { conflict, entity } = loaded;
+    const entityType = conflict.entityType as LocalEntityType;
+
+    // The queue stamps the payload's baseRevision from this value
+    if (conflict.remoteRevision !== undefined) {
+      await setEntityRemoteRevision(
+        ctx.db,
+        conflict.entityType,
+        conflict.externalId,
+        conflict.remoteRevision
+      );
+    }
+
+    // The rejected payload may be older than the row, so rebuild it
+    const deletedAt = entity.deletedAt;
+    const queueId = await ctx.runMutation(internal.sync.queue.addToSyncQueue, {
+      entityType: conflict.entityType,
+      externalId: conflict.externalId,
+      ...(deletedAt !== undefined
+        ? {
+            payload: JSON.stringify({
+              externalId: conflict.externalId,
+              deletedAt,
+            }),
+            operation: "delete" as const,
+          }
+        : {
+            payload: JSON.stringify(
+              buildEntitySnapshot(entityType, entity, Date.now())
+            ),
+            operation:
+              conflict.operation === "restore"
+                ? ("restore" as const)
+                : ("upsert" as const),
+          }),
+    });
+    await ctx.db.delete(conflict._id);
+    await setEntitySyncStatus(
+      ctx.db,
+      conflict.entityType,
+      conflict.externalId,
+      "pending"
+    );
+
+    return { success: true, queueId: queueId ?? undefined };
+  },
+});
+
+/**
+ * Resolves a conflict in favour of LinkHub: its version is copied onto
+ * the local entity and nothing is queued. A rejected delete is undone
+ * locally, since the entity still exists on LinkHub.
+ */
+export const resolveConflictTakeRemote = mutation({
+  args: {
+    id: v.id("syncConflicts"),
+  },
+  returns: resolutionResultValidator,
+  handler: async (ctx, args): Promise<ResolutionResult> => {
+    const loaded = await loadConflict(ctx, args.id);
+    if ("error" in loaded) {
+      return { success: false, error: loaded.error };
+    }
+    const { conflict, entity } = loaded;
+    const entityType = conflict.entityType as LocalEntityType;
+
+    const invalidFields = await applyRemoteFields(
+      ctx,
+      conflict,
+      entity,
+      getResolvableFields(entityType, entity)
+    );
+    if (invalidFields.length > 0) {
+      return {
+        success: false,
+        error: invalidRemoteFieldsError(entityType, invalidFields),
+      };
+    }
+    await ctx.db.patch(entity._id, {
+      syncStatus: "synced",
+      ...(conflict.operation === "delete" && { deletedAt: undefined }),
+    });
+    await ctx.db.delete(conflict._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Resolves a conflict by taking `remoteFields` from LinkHub's version and
+ * keeping every other field local. The merged entity is queued again.
+ * Not available for rejected deletes: keep local or take remote instead.
+ */
+export const resolveConflictMerge = mutation({
+  args: {
+    id: v.id("syncConflicts"),
+    remoteFields: v.array(v.string()),
+  },
+  returns: resolutionResultValidator,
+  handler: async (ctx, args): Promise<ResolutionResult> => {
+    const loaded = await loadConflict(ctx, args.id);
+    if ("error" in loaded) {
+      return { success: false, error: loaded.error };
+    }
+    const { conflict, entity } = loaded;
+    const entityType = conflict.entityType as LocalEntityType;
+
+    if (conflict.operation === "delete") {
+      return {
+        success: false,
+        error: "Cannot merge a delete conflict",
+      };
+    }
+
+    const resolvable = getResolvableFields(entityType, entity);
+    const unknownFields = args.remoteFields.filter(
+      (field) => !resolvable.includes(field)
+    );
+    if (unknownFields.length > 0) {
+      return {
+        success: false,
+        error: `Fields cannot be merged for ${entityType}: ${unknownFields.join(", ")}`,
+      };
+    }
+
+    const invalidFields = await applyRemoteFields(
+      ctx,
+      conflict,
+      entity,
+      args.remoteFields
+    );
+    if (invalidFields.length > 0) {
+      return {
+        success: false,
+        error: invalidRemoteFieldsError(entityType, invalidFields),
+      };
+    }
+    const merged = (await ctx.db.get(entity._id)) as LocalEntityDoc;
+
+    const queueId = await ctx.runMutation(internal.sync.queue.addToSyncQueue, {
+      entityType: conflict.entityType,
+      externalId: conflict.externalId,
+      payload: JSON.stringify(
+        buildEntitySnapshot(entityType, merged, Date.now())
+      ),
+      // The merge result is a full snapshot, even for a rejected patch
+      operation: conflict.operation === "restore" ? "restore" : "upsert",
+    });
+    await ctx.db.delete(conflict._id);
+    await setEntitySyncStatus(
+      ctx.db,
+      conflict.entityType,
+      conflict.externalId,
+      "pending"
+    );
+
+    return { success: true, queueId: queueId ?? undefined };
+  },
+});
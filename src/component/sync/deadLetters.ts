@@ -0,0 +1,243 @@
+/**
+ * Dead-Letter Queue for OKRHub Component
+ *
+ * Queue items that used up their retries are moved here with their original
+ * payload and full error history, so they can be inspected, replayed or purged
+ * without mixing with live work in the sync queue.
+ */
+
+import { v } from "convex/values";
+import { internal } from "../_generated/api.js";
+import type { Doc, Id } from "../_generated/dataModel.js";
+import { mutation, query, type MutationCtx } from "../_generated/server.js";
+import { setEntitySyncStatus } from "../lib/entityTables.js";
+import { SyncOperationSchema, syncErrorEntryValidator } from "../schema.js";
+
+const DEFAULT_BATCH_LIMIT = 100;
+
+const deadLetterValidator = v.object({
+  _id: v.id("deadLetters"),
+  _creationTime: v.number(),
+  entityType: v.string(),
+  externalId: v.string(),
+  payload: v.string(),
+  operation: v.optional(SyncOperationSchema),
+  attempts: v.number(),
+  errors: v.array(syncErrorEntryValidator),
+  lastHttpStatus: v.optional(v.number()),
+  queuedAt: v.number(),
+  deadLetteredAt: v.number(),
+});
+
+/**
+ * Puts a dead letter back into the sync queue and removes it
+ */
+async function replay(
+  ctx: MutationCtx,
+  deadLetter: Doc<"deadLetters">
+): Promise<Id<"syncQueue"> | undefined> {
+  const queueId = await ctx.runMutation(internal.sync.queue.addToSyncQueue, {
+    entityType: deadLetter.entityType,
+    externalId: deadLetter.externalId,
+    payload: deadLetter.payload,
+    operation: deadLetter.operation,
+  });
+  await ctx.db.delete(deadLetter._id);
+  await setEntitySyncStatus(
+    ctx.db,
+    deadLetter.entityType,
+    deadLetter.externalId,
+    "pending"
+  );
+  return queueId ?? undefined;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Lists dead letters, most recent first, optionally filtered by entityType
+ */
+export const listDeadLetters = query({
+  args: {
+    entityType: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(deadLetterValidator),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 50;
+    const { entityType } = args;
+
+    if (entityType) {
+      return await ctx.db
+        .query("deadLetters")
+        .withIndex("by_entity_type", (q) => q.eq("entityType", entityType))
+        .order("desc")
+        .take(limit);
+    }
+
+    return await ctx.db
+      .query("deadLetters")
+      .withIndex("by_dead_lettered_at")
+      .order("desc")
+      .take(limit);
+  },
+});
+
+// ============================================================================
+// REPLAY MUTATIONS
+// ============================================================================
+
+/**
+ * Replays a single dead letter by putting it back into the sync queue
+ */
+export const replayDeadLetter = mutation({
+  args: {
+    id: v.id("deadLetters"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    queueId: v.optional(v.id("syncQueue")),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const deadLetter = await ctx.db.get(args.id);
+    if (!deadLetter) {
+      return {
+        success: false,
+        error: `Dead letter not found: ${args.id}`,
+      };
+    }
+
+    const queueId = await replay(ctx, deadLetter);
+    return {
+      success: true,
+      queueId,
+    };
+  },
+});
+
+/**
+ * Replays dead letters for one entityType, or all of them.
+ * Processes at most `limit` items per call; call again while `hasMore` is true.
+ */
+export const replayDeadLetters = mutation({
+  args: {
+    entityType: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    replayed: v.number(),
+    hasMore: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? DEFAULT_BATCH_LIMIT;
+    const { entityType } = args;
+
+    const deadLetters = entityType
+      ? await ctx.db
+          .query("deadLetters")
+          .withIndex("by_entity_type", (q) => q.eq("entityType", entityType))
+          .take(limit + 1)
+      : await ctx.db
+          .query("deadLetters")
+          .withIndex("by_dead_lettered_at")
+          .take(limit + 1);
+
+    const batch = deadLetters.slice(0, limit);
+    for (const deadLetter of batch) {
+      await replay(ctx, deadLetter);
+    }
+
+    console.log(
+      `[okrhub] dead letters replayed=${batch.length} entityType=${entityType ?? "all"}`
+    );
+
+    return {
+      replayed: batch.length,
+      hasMore: deadLetters.length > limit,
+    };
+  },
+});
+
+// ============================================================================
+// PURGE MUTATIONS
+// ============================================================================
+
+/**
+ * Permanently deletes a single dead letter
+ */
+export const purgeDeadLetter = mutation({
+  args: {
+    id: v.id("deadLetters"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const deadLetter = await ctx.db.get(args.id);
+    if (!deadLetter) {
+      return {
+        success: false,
+        error: `Dead letter not found: ${args.id}`,
+      };
+    }
+
+    await ctx.db.delete(deadLetter._id);
+    return { success: true };
+  },
+});
+
+/**
+ * Permanently deletes dead letters for one entityType, or all of them.
+ * `olderThan` restricts the purge to items dead-lettered before that timestamp.
+ * Processes at most `limit` items per call; call again while `hasMore` is true.
+ */
+export const purgeDeadLetters = mutation({
+  args: {
+    entityType: v.optional(v.string()),
+    olderThan: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    purged: v.number(),
+    hasMore: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? DEFAULT_BATCH_LIMIT;
+    const { entityType, olderThan } = args;
+
+    const deadLetters = entityType
+      ? await ctx.db
+          .query("deadLetters")
+          .withIndex("by_entity_type", (q) => q.eq("entityType", entityType))
+          .filter((q) =>
+            olderThan === undefined
+              ? true
+              : q.lt(q.field("deadLetteredAt"), olderThan)
+          )
+          .take(limit + 1)
+      : await ctx.db
+          .query("deadLetters")
+          .withIndex("by_dead_lettered_at", (q) =>
+            olderThan === undefined ? q : q.lt("deadLetteredAt", olderThan)
+          )
+          .take(limit + 1);
+
+    const batch = deadLetters.slice(0, limit);
+    for (const deadLetter of batch) {
+      await ctx.db.delete(deadLetter._id);
+    }
+
+    console.log(
+      `[okrhub] dead letters purged=${batch.length} entityType=${entityType ?? "all"}`
+    );
+
+    return {
+      purged: batch.length,
+      hasMore: deadLetters.length > limit,
+    };
+  },
+});
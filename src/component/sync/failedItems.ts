@@ -0,0 +1,248 @@
+/**
+ * Permanently Failed Items for OKRHub Component
+ *
+ * Queue items LinkHub rejected as invalid (see lib/errors.ts) stay in the
+ * sync queue as `failed`, with LinkHub's error code and field errors in
+ * `lastError`. They are not retried on their own: list them, fix the
+ * data, then replay or discard them.
+ */
+
+import { v } from "convex/values";
+import { internal } from "../_generated/api.js";
+import type { Doc, Id } from "../_generated/dataModel.js";
+import { mutation, query, type MutationCtx } from "../_generated/server.js";
+import { setEntitySyncStatus } from "../lib/entityTables.js";
+import { SyncOperationSchema, syncErrorValidator } from "../schema.js";
+
+const DEFAULT_BATCH_LIMIT = 100;
+
+const failedSyncItemValidator = v.object({
+  _id: v.id("syncQueue"),
+  entityType: v.string(),
+  externalId: v.string(),
+  operation: v.optional(SyncOperationSchema),
+  payload: v.string(),
+  attempts: v.number(),
+  lastAttemptAt: v.optional(v.number()),
+  lastError: v.optional(syncErrorValidator),
+  createdAt: v.number(),
+});
+
+/**
+ * Loads up to `limit` failed items, for one entityType or all of them
+ */
+async function takeFailedItems(
+  ctx: MutationCtx,
+  entityType: string | undefined,
+  limit: number
+): Promise<Doc<"syncQueue">[]> {
+  return entityType
+    ? await ctx.db
+        .query("syncQueue")
+        .withIndex("by_entity_type_status", (q) =>
+          q.eq("entityType", entityType).eq("status", "failed")
+        )
+        .take(limit)
+    : await ctx.db
+        .query("syncQueue")
+        .withIndex("by_status", (q) => q.eq("status", "failed"))
+        .take(limit);
+}
+
+/**
+ * Queues the failed item's payload again and removes the failed item
+ */
+async function replay(
+  ctx: MutationCtx,
+  item: Doc<"syncQueue">
+): Promise<Id<"syncQueue"> | undefined> {
+  await ctx.db.delete(item._id);
+  const queueId = await ctx.runMutation(internal.sync.queue.addToSyncQueue, {
+    entityType: item.entityType,
+    externalId: item.externalId,
+    payload: item.payload,
+    operation: item.operation,
+  });
+  await setEntitySyncStatus(
+    ctx.db,
+    item.entityType,
+    item.externalId,
+    "pending"
+  );
+  return queueId ?? undefined;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Lists queue items LinkHub rejected permanently, newest first, with
+ * LinkHub's error code and field errors in `lastError`
+ */
+export const listFailedSyncItems = query({
+  args: {
+    entityType: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(failedSyncItemValidator),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 50;
+    const { entityType } = args;
+
+    const items = entityType
+      ? await ctx.db
+          .query("syncQueue")
+          .withIndex("by_entity_type_status", (q) =>
+            q.eq("entityType", entityType).eq("status", "failed")
+          )
+          .order("desc")
+          .take(limit)
+      : await ctx.db
+          .query("syncQueue")
+          .withIndex("by_status", (q) => q.eq("status", "failed"))
+          .order("desc")
+          .take(limit);
+
+    return items.map((item) => ({
+      _id: item._id,
+      entityType: item.entityType,
+      externalId: item.externalId,
+      operation: item.operation,
+      payload: item.payload,
+      attempts: item.attempts,
+      lastAttemptAt: item.lastAttemptAt,
+      lastError: item.lastError,
+      createdAt: item.createdAt,
+    }));
+  },
+});
+
+// ============================================================================
+// REPLAY MUTATIONS
+// ============================================================================
+
+/**
+ * Replays a single failed item by queueing its payload again
+ */
+export const replayFailedSyncItem = mutation({
+  args: {
+    id: v.id("syncQueue"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    queueId: v.optional(v.id("syncQueue")),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.id);
+    if (!item || item.status !== "failed") {
+      return {
+        success: false,
+        error: `Failed sync item not found: ${args.id}`,
+      };
+    }
+
+    const queueId = await replay(ctx, item);
+    return {
+      success: true,
+      queueId,
+    };
+  },
+});
+
+/**
+ * Replays failed items for one entityType, or all of them.
+ * Processes at most `limit` items per call; call again while `hasMore` is true.
+ */
+export const replayFailedSyncItems = mutation({
+  args: {
+    entityType: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    replayed: v.number(),
+    hasMore: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? DEFAULT_BATCH_LIMIT;
+    const items = await takeFailedItems(ctx, args.entityType, limit + 1);
+
+    const batch = items.slice(0, limit);
+    for (const item of batch) {
+      await replay(ctx, item);
+    }
+
+    console.log(
+      `[okrhub] failed sync items replayed=${batch.length} entityType=${args.entityType ?? "all"}`
+    );
+
+    return {
+      replayed: batch.length,
+      hasMore: items.length > limit,
+    };
+  },
+});
+
+// ============================================================================
+// DISCARD MUTATIONS
+// ============================================================================
+
+/**
+ * Permanently deletes a single failed item. The entity keeps its `failed`
+ * syncStatus until its next write.
+ */
+export const discardFailedSyncItem = mutation({
+  args: {
+    id: v.id("syncQueue"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.id);
+    if (!item || item.status !== "failed") {
+      return {
+        success: false,
+        error: `Failed sync item not found: ${args.id}`,
+      };
+    }
+
+    await ctx.db.delete(item._id);
+    return { success: true };
+  },
+});
+
+/**
+ * Permanently deletes failed items for one entityType, or all of them.
+ * Processes at most `limit` items per call; call again while `hasMore` is true.
+ */
+export const discardFailedSyncItems = mutation({
+  args: {
+    entityType: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    discarded: v.number(),
+    hasMore: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? DEFAULT_BATCH_LIMIT;
+    const items = await takeFailedItems(ctx, args.entityType, limit + 1);
+
+    const batch = items.slice(0, limit);
+    for (const item of batch) {
+      await ctx.db.delete(item._id);
+    }
+
+    console.log(
+      `[okrhub] failed sync items discarded=${batch.length} entityType=${args.entityType ?? "all"}`
+    );
+
+    return {
+      discarded: batch.length,
+      hasMore: items.length > limit,
+    };
+  },
+});
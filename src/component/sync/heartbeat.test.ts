@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "../_generated/api.js";
+import { initConvexTest } from "../setup.test.js";
+
+const linkHub = {
+  endpointUrl: "https://linkhub.test",
+  apiKeyPrefix: "okr_test",
+  signingSecret: "secret",
+  syncIntervalMs: 60000,
+};
+
+async function loadHeartbeat(t: ReturnType<typeof initConvexTest>) {
+  return await t.run(async (ctx) => {
+    const config = await ctx.db.query("config").first();
+    const jobs = await ctx.db.system.query("_scheduled_functions").collect();
+    return {
+      config,
+      jobs,
+      // Heartbeat jobs that have yet to run
+      pending: jobs.filter(
+        (job) =>
+          job.name.includes("heartbeat") && job.state.kind === "pending"
+      ),
+    };
+  });
+}
+
+describe("sync heartbeat", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("beats every syncIntervalMs while its generation is current", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.config.configure, linkHub);
+    const configured = await loadHeartbeat(t);
+
+    // The first configure beats right away
+    vi.advanceTimersByTime(0);
+    await t.finishInProgressScheduledFunctions();
+    const first = await loadHeartbeat(t);
+    expect(
+      first.jobs.find((job) => job._id === configured.pending[0]._id)?.state
+        .kind
+    ).toBe("success");
+    expect(first.pending).toHaveLength(1);
+    expect(first.pending[0]._id).not.toBe(configured.pending[0]._id);
+    expect(first.pending[0].args).toEqual([{ generation: 1 }]);
+
+    vi.advanceTimersByTime(linkHub.syncIntervalMs);
+    await t.finishInProgressScheduledFunctions();
+    const second = await loadHeartbeat(t);
+    expect(second.pending).toHaveLength(1);
+    expect(second.pending[0]._id).not.toBe(first.pending[0]._id);
+    expect(second.config?.heartbeatJobId).toBe(second.pending[0]._id);
+  });
+
+  test("a beat from a stale generation stops without rescheduling", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.config.configure, linkHub);
+    await t.mutation(api.config.configure, linkHub);
+    const before = await loadHeartbeat(t);
+    expect(before.config?.heartbeatGeneration).toBe(2);
+    expect(before.pending).toHaveLength(1);
+
+    await t.mutation(internal.sync.heartbeat.syncHeartbeat, { generation: 1 });
+
+    const after = await loadHeartbeat(t);
+    expect(after.pending.map((job) => job._id)).toEqual([
+      before.pending[0]._id,
+    ]);
+    expect(after.config?.heartbeatJobId).toBe(before.config?.heartbeatJobId);
+  });
+
+  test("a beat starts the processor when items are due", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.config.configure, linkHub);
+    await t.mutation(internal.sync.queue.addToSyncQueue, {
+      entityType: "objective",
+      externalId: "okrhub:test:objective:1",
+      payload: JSON.stringify({ externalId: "okrhub:test:objective:1" }),
+    });
+    const before = await loadHeartbeat(t);
+
+    await t.mutation(internal.sync.heartbeat.syncHeartbeat, { generation: 1 });
+
+    const after = await loadHeartbeat(t);
+    const processorRuns = (jobs: typeof after.jobs) =>
+      jobs.filter((job) => job.name.includes("processSyncQueue")).length;
+    expect(processorRuns(after.jobs)).toBe(processorRuns(before.jobs) + 1);
+  });
+
+  test("clearConfig cancels the scheduled beat", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.config.configure, linkHub);
+    const { pending } = await loadHeartbeat(t);
+
+    await t.mutation(api.config.clearConfig, {});
+
+    const after = await loadHeartbeat(t);
+    expect(after.config).toBeNull();
+    expect(after.pending).toHaveLength(0);
+    expect(
+      after.jobs.find((job) => job._id === pending[0]._id)?.state.kind
+    ).toBe("canceled");
+  });
+});
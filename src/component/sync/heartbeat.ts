@@ -0,0 +1,108 @@
+/**
+ * Sync Heartbeat for OKRHub Component
+ *
+ * Drain mode only starts processing when the queue goes from empty to
+ * non-empty, so a run that fails or crashes can leave due items waiting
+ * for the next insert. While autoSyncEnabled is true, the heartbeat wakes
+ * up every `syncIntervalMs` and starts processSyncQueue if anything is due.
+ *
+ * configure() starts a new heartbeat generation and cancels the previous
+ * job. A heartbeat whose generation is no longer the stored one exits
+ * without rescheduling, so at most one heartbeat chain is ever alive.
+ */
+
+import { v } from "convex/values";
+import { api, internal } from "../_generated/api.js";
+import type { Doc, Id } from "../_generated/dataModel.js";
+import { internalMutation, type MutationCtx } from "../_generated/server.js";
+
+/**
+ * Cancels the scheduled heartbeat job, if it has not run yet
+ */
+export async function cancelHeartbeat(
+  ctx: MutationCtx,
+  config: Doc<"config">
+): Promise<void> {
+  if (!config.heartbeatJobId) {
+    return;
+  }
+  const job = await ctx.db.system.get(config.heartbeatJobId);
+  if (job?.state.kind === "pending") {
+    await ctx.scheduler.cancel(config.heartbeatJobId);
+  }
+}
+
+/**
+ * Cancels the scheduled heartbeat and starts a new generation, which
+ * only gets a job while autoSyncEnabled is true. With `beatNow` the first
+ * beat runs right away instead of after `syncIntervalMs`, e.g. to pick
+ * up items queued before the component was configured.
+ */
+export async function restartHeartbeat(
+  ctx: MutationCtx,
+  configId: Id<"config">,
+  options?: { beatNow?: boolean }
+): Promise<void> {
+  const config = await ctx.db.get(configId);
+  if (!config) {
+    return;
+  }
+  await cancelHeartbeat(ctx, config);
+
+  const generation = (config.heartbeatGeneration ?? 0) + 1;
+  const heartbeatJobId = config.autoSyncEnabled
+    ? await ctx.scheduler.runAfter(
+        options?.beatNow ? 0 : config.syncIntervalMs,
+        internal.sync.heartbeat.syncHeartbeat,
+        { generation }
+      )
+    : undefined;
+
+  await ctx.db.patch(config._id, {
+    heartbeatGeneration: generation,
+    heartbeatJobId,
+  });
+}
+
+/**
+ * Starts processSyncQueue when due items are waiting, then schedules the
+ * next beat. Exits quietly when autoSync was turned off or a newer
+ * generation took over.
+ */
+export const syncHeartbeat = internalMutation({
+  args: {
+    generation: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const config = await ctx.db.query("config").first();
+    if (
+      !config?.autoSyncEnabled ||
+      config.heartbeatGeneration !== args.generation
+    ) {
+      return null;
+    }
+
+    // A paused pipeline keeps its heartbeat but starts no runs, and items
+    // of paused entity types do not count as due
+    const due = config.syncPaused
+      ? []
+      : await ctx.runQuery(
+          internal.sync.queue.getPendingSyncItemsForProcessing,
+          { limit: 1, excludeEntityTypes: config.pausedEntityTypes ?? [] }
+        );
+    if (due.length > 0) {
+      await ctx.scheduler.runAfter(0, api.sync.processor.processSyncQueue, {});
+      console.log("[okrhub] heartbeat scheduled processor for due items");
+    }
+
+    const heartbeatJobId = await ctx.scheduler.runAfter(
+      config.syncIntervalMs,
+      internal.sync.heartbeat.syncHeartbeat,
+      { generation: args.generation }
+    );
+    await ctx.db.patch(config._id, { heartbeatJobId });
+
+    return null;
+  },
+});
@@ -2,15 +2,369 @@
  * HTTP Actions for OKRHub Component
  *
  * Direct API calls to LinkHub's ingest endpoints.
+ *
+ * Failures carry a structured `syncError` saying whether a retry can
+ * succeed (see lib/errors.ts).
+ *
+ * Every call goes through the circuit breaker (see sync/circuitBreaker.ts).
+ * While the circuit is open no request is made, and the result carries
+ * `circuitOpen: true` with the time the call may be tried again.
+ */
+
+import { v, type Infer } from "convex/values";
+import { internal } from "../_generated/api.js";
+import { action, type ActionCtx } from "../_generated/server.js";
+import { OKRHUB_VERSION } from "../externalId.js";
+import { isUnavailableStatus } from "../lib/circuitBreaker.js";
+import {
+  batchItemSyncError,
+  httpSyncError,
+  networkSyncError,
+} from "../lib/errors.js";
+import { createHmacSignature, createRequestHeaders } from "../lib/hmac.js";
+import type {
+  IngestResponse,
+  IngestConflictResponse,
+  BatchIngestResponse,
+} from "../lib/types.js";
+import {
+  SyncOperationSchema,
+  syncConflictDetailsValidator,
+  syncErrorValidator,
+  type SyncConflictDetails,
+  type SyncOperation,
+} from "../schema.js";
+
+/**
+ * Converts LinkHub's conflict body into the details stored with a conflict
+ */
+function toConflictDetails(
+  body: IngestConflictResponse
+): SyncConflictDetails {
+  return {
+    remoteRevision: body.remoteRevision,
+    remotePayload: JSON.stringify(body.remote ?? {}),
+  };
+}
+
+/**
+ * Parses the body of a 409 response, or returns undefined if it is not
+ * a conflict LinkHub described
+ */
+function parseConflict(errorText: string): SyncConflictDetails | undefined {
+  try {
+    const body = JSON.parse(errorText) as IngestConflictResponse;
+    return body && typeof body === "object" && body.remote
+      ? toConflictDetails(body)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the message off a thrown error
  */
+function errorMessageOf(error: unknown): string {
+  return error && typeof error === "object" && "message" in error
+    ? (error.message as string)
+    : "Unknown error";
+}
+
+const sendResultValidator = v.object({
+  success: v.boolean(),
+  externalId: v.string(),
+  linkHubId: v.optional(v.string()),
+  action: v.optional(v.union(v.literal("create"), v.literal("update"))),
+  error: v.optional(v.string()),
+  revision: v.optional(v.number()),
+  httpStatus: v.optional(v.number()),
+  conflict: v.optional(syncConflictDetailsValidator),
+  syncError: v.optional(syncErrorValidator),
+  circuitOpen: v.optional(v.boolean()),
+  retryAt: v.optional(v.number()),
+});
+
+type SendResult = Infer<typeof sendResultValidator>;
+
+const batchResultValidator = v.object({
+  success: v.boolean(),
+  results: v.array(
+    v.object({
+      entityType: v.string(),
+      externalId: v.string(),
+      linkHubId: v.optional(v.string()),
+      action: v.optional(v.union(v.literal("create"), v.literal("update"))),
+      error: v.optional(v.string()),
+      revision: v.optional(v.number()),
+      conflict: v.optional(syncConflictDetailsValidator),
+      syncError: v.optional(syncErrorValidator),
+    })
+  ),
+  errors: v.array(v.string()),
+  httpStatus: v.optional(v.number()),
+  syncError: v.optional(syncErrorValidator),
+  circuitOpen: v.optional(v.boolean()),
+  retryAt: v.optional(v.number()),
+});
+
+type BatchResult = Infer<typeof batchResultValidator>;
+
+const myTeamsResultValidator = v.object({
+  success: v.boolean(),
+  teams: v.array(
+    v.object({
+      id: v.string(),
+      externalId: v.optional(v.string()),
+      name: v.string(),
+      slug: v.string(),
+      type: v.string(),
+    })
+  ),
+  message: v.optional(v.string()),
+  error: v.optional(v.string()),
+  httpStatus: v.optional(v.number()),
+  circuitOpen: v.optional(v.boolean()),
+  retryAt: v.optional(v.number()),
+});
 
-import { v } from "convex/values";
-import { action } from "../_generated/server.js";
-import { createRequestHeaders } from "../lib/hmac.js";
-import type { IngestResponse, BatchIngestResponse } from "../lib/types.js";
+type MyTeamsResult = Infer<typeof myTeamsResultValidator>;
 
 /**
- * Sends a single entity to LinkHub's ingest API
+ * Result of a LinkHub request, with whether it found LinkHub unavailable
+ */
+type LinkHubCall<T> = {
+  result: T;
+  unavailable: boolean;
+};
+
+async function postEntity(args: {
+  endpointUrl: string;
+  apiKeyPrefix: string;
+  signingSecret: string;
+  entityType: string;
+  payload: string;
+  operation?: SyncOperation;
+}): Promise<LinkHubCall<SendResult>> {
+  const { endpointUrl, apiKeyPrefix, signingSecret, entityType, payload } =
+    args;
+  const operationPath =
+    args.operation === "delete" || args.operation === "restore"
+      ? `/${args.operation}`
+      : "";
+
+  try {
+    const headers = await createRequestHeaders(
+      payload,
+      apiKeyPrefix,
+      signingSecret
+    );
+    const url = `${endpointUrl}/ingest/okr/v1/${entityType}${operationPath}`;
+
+    const response = await fetch(url, {
+      method: args.operation === "patch" ? "PATCH" : "POST",
+      headers,
+      body: payload,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const syncError = httpSyncError(response.status, errorText);
+      return {
+        result: {
+          success: false,
+          externalId: "",
+          error: syncError.message,
+          httpStatus: response.status,
+          conflict:
+            response.status === 409 ? parseConflict(errorText) : undefined,
+          syncError,
+        },
+        unavailable: isUnavailableStatus(response.status),
+      };
+    }
+
+    const result = (await response.json()) as IngestResponse;
+    return { result, unavailable: false };
+  } catch (error) {
+    const syncError = networkSyncError(errorMessageOf(error));
+    return {
+      result: {
+        success: false,
+        externalId: "",
+        error: syncError.message,
+        syncError,
+      },
+      unavailable: true,
+    };
+  }
+}
+
+async function postBatch(args: {
+  endpointUrl: string;
+  apiKeyPrefix: string;
+  signingSecret: string;
+  payload: string;
+}): Promise<LinkHubCall<BatchResult>> {
+  const { endpointUrl, apiKeyPrefix, signingSecret, payload } = args;
+
+  try {
+    const headers = await createRequestHeaders(
+      payload,
+      apiKeyPrefix,
+      signingSecret
+    );
+    const url = `${endpointUrl}/ingest/okr/v1/batch`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: payload,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const syncError = httpSyncError(response.status, errorText);
+      return {
+        result: {
+          success: false,
+          results: [],
+          errors: [syncError.message],
+          httpStatus: response.status,
+          syncError,
+        },
+        unavailable: isUnavailableStatus(response.status),
+      };
+    }
+
+    const result = (await response.json()) as BatchIngestResponse;
+    return {
+      result: {
+        ...result,
+        results: result.results.map(
+          ({ conflict, code, fieldErrors, ...itemResult }) => ({
+            ...itemResult,
+            ...(conflict && { conflict: toConflictDetails(conflict) }),
+            ...(itemResult.error &&
+              !conflict && {
+                syncError: batchItemSyncError({
+                  error: itemResult.error,
+                  code,
+                  fieldErrors,
+                }),
+              }),
+          })
+        ),
+      },
+      unavailable: false,
+    };
+  } catch (error) {
+    const syncError = networkSyncError(errorMessageOf(error));
+    return {
+      result: {
+        success: false,
+        results: [],
+        errors: [syncError.message],
+        syncError,
+      },
+      unavailable: true,
+    };
+  }
+}
+
+/**
+ * Runs a LinkHub request through the circuit breaker: refuses it while the
+ * circuit is open, otherwise makes it and records whether LinkHub was
+ * available. A request that throws counts as unavailable and rethrows.
+ */
+async function withCircuit<T>(
+  ctx: ActionCtx,
+  call: () => Promise<LinkHubCall<T>>
+): Promise<{ result: T } | { circuitOpen: true; retryAt?: number }> {
+  const gate = await ctx.runMutation(
+    internal.sync.circuitBreaker.acquireCircuit,
+    {}
+  );
+  if (!gate.allowed) {
+    return { circuitOpen: true, retryAt: gate.retryAt };
+  }
+
+  let outcome: LinkHubCall<T>;
+  try {
+    outcome = await call();
+  } catch (error) {
+    await ctx.runMutation(internal.sync.circuitBreaker.recordCircuitResult, {
+      unavailable: true,
+    });
+    throw error;
+  }
+  await ctx.runMutation(internal.sync.circuitBreaker.recordCircuitResult, {
+    unavailable: outcome.unavailable,
+  });
+  return { result: outcome.result };
+}
+
+async function fetchMyTeams(args: {
+  endpointUrl: string;
+  apiKeyPrefix: string;
+  signingSecret: string;
+  email: string;
+}): Promise<LinkHubCall<MyTeamsResult>> {
+  // Signature payload is the query string without the leading ?
+  const queryString = `email=${encodeURIComponent(args.email)}`;
+  const signature = await createHmacSignature(queryString, args.signingSecret);
+
+  const response = await fetch(
+    `${args.endpointUrl}/api/okrhub/teams?${queryString}`,
+    {
+      method: "GET",
+      headers: {
+        "X-OKRHub-Version": OKRHUB_VERSION,
+        "X-OKRHub-Key-Prefix": args.apiKeyPrefix,
+        "X-OKRHub-Signature": signature,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    return {
+      result: {
+        success: false,
+        teams: [],
+        error: await response.text(),
+        httpStatus: response.status,
+      },
+      unavailable: isUnavailableStatus(response.status),
+    };
+  }
+
+  const body = (await response.json()) as {
+    success: boolean;
+    teams?: MyTeamsResult["teams"];
+    message?: string;
+  };
+  return {
+    result: {
+      success: body.success,
+      teams: (body.teams ?? []).map((team) => ({
+        id: team.id,
+        externalId: team.externalId ?? undefined,
+        name: team.name,
+        slug: team.slug,
+        type: team.type,
+      })),
+      message: body.message ?? undefined,
+    },
+    unavailable: false,
+  };
+}
+
+/**
+ * Sends a single entity to LinkHub's ingest API.
+ * Delete and restore operations post to the entity's delete / restore route;
+ * patches are sent with PATCH to the entity route.
+ * A 409 means the payload's `baseRevision` is outdated; LinkHub's version
+ * is returned as `conflict`.
  */
 export const sendToLinkHub = action({
   args: {
@@ -19,55 +373,21 @@ export const sendToLinkHub = action({
     signingSecret: v.string(),
     entityType: v.string(),
     payload: v.string(), // JSON stringified payload
+    operation: v.optional(SyncOperationSchema),
   },
-  returns: v.object({
-    success: v.boolean(),
-    externalId: v.string(),
-    linkHubId: v.optional(v.string()),
-    action: v.optional(v.union(v.literal("create"), v.literal("update"))),
-    error: v.optional(v.string()),
-  }),
-  handler: async (_ctx, args) => {
-    const { endpointUrl, apiKeyPrefix, signingSecret, entityType, payload } =
-      args;
-
-    try {
-      const headers = await createRequestHeaders(
-        payload,
-        apiKeyPrefix,
-        signingSecret
-      );
-      const url = `${endpointUrl}/ingest/okr/v1/${entityType}`;
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: payload,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        return {
-          success: false,
-          externalId: "",
-          error: `HTTP ${response.status}: ${errorText}`,
-        };
-      }
-
-      const result = (await response.json()) as IngestResponse;
-      return result;
-    } catch (error) {
-      const errorMessage =
-        error && typeof error === "object" && "message" in error
-          ? (error.message as string)
-          : "Unknown error";
-
+  returns: sendResultValidator,
+  handler: async (ctx, args): Promise<SendResult> => {
+    const outcome = await withCircuit(ctx, () => postEntity(args));
+    if ("circuitOpen" in outcome) {
       return {
         success: false,
         externalId: "",
-        error: errorMessage,
+        error: "Circuit open: LinkHub is unavailable",
+        circuitOpen: true,
+        retryAt: outcome.retryAt,
       };
     }
+    return outcome.result;
   },
 });
 
@@ -81,58 +401,47 @@ export const sendBatchToLinkHub = action({
     signingSecret: v.string(),
     payload: v.string(), // JSON stringified BatchPayload
   },
-  returns: v.object({
-    success: v.boolean(),
-    results: v.array(
-      v.object({
-        entityType: v.string(),
-        externalId: v.string(),
-        linkHubId: v.optional(v.string()),
-        action: v.optional(v.union(v.literal("create"), v.literal("update"))),
-        error: v.optional(v.string()),
-      })
-    ),
-    errors: v.array(v.string()),
-  }),
-  handler: async (_ctx, args) => {
-    const { endpointUrl, apiKeyPrefix, signingSecret, payload } = args;
-
-    try {
-      const headers = await createRequestHeaders(
-        payload,
-        apiKeyPrefix,
-        signingSecret
-      );
-      const url = `${endpointUrl}/ingest/okr/v1/batch`;
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: payload,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        return {
-          success: false,
-          results: [],
-          errors: [`HTTP ${response.status}: ${errorText}`],
-        };
-      }
-
-      const result = (await response.json()) as BatchIngestResponse;
-      return result;
-    } catch (error) {
-      const errorMessage =
-        error && typeof error === "object" && "message" in error
-          ? (error.message as string)
-          : "Unknown error";
-
+  returns: batchResultValidator,
+  handler: async (ctx, args): Promise<BatchResult> => {
+    const outcome = await withCircuit(ctx, () => postBatch(args));
+    if ("circuitOpen" in outcome) {
       return {
         success: false,
         results: [],
-        errors: [errorMessage],
+        errors: ["Circuit open: LinkHub is unavailable"],
+        circuitOpen: true,
+        retryAt: outcome.retryAt,
+      };
+    }
+    return outcome.result;
+  },
+});
+
+/**
+ * Gets the teams where the user with `email` has an active membership in
+ * LinkHub. A non-2xx response comes back with `httpStatus` and `error`;
+ * while the circuit is open no request is made and the result carries
+ * `circuitOpen`. Network errors are thrown.
+ */
+export const getMyTeams = action({
+  args: {
+    endpointUrl: v.string(),
+    apiKeyPrefix: v.string(),
+    signingSecret: v.string(),
+    email: v.string(),
+  },
+  returns: myTeamsResultValidator,
+  handler: async (ctx, args): Promise<MyTeamsResult> => {
+    const outcome = await withCircuit(ctx, () => fetchMyTeams(args));
+    if ("circuitOpen" in outcome) {
+      return {
+        success: false,
+        teams: [],
+        error: "Circuit open: LinkHub is unavailable",
+        circuitOpen: true,
+        retryAt: outcome.retryAt,
       };
     }
+    return outcome.result;
   },
 });
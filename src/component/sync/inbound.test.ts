@@ -0,0 +1,220 @@
+import { describe, expect, test } from "vitest";
+import { api } from "../_generated/api.js";
+import {
+  createHmacSignature,
+  WEBHOOK_TIMESTAMP_TOLERANCE_MS,
+  webhookSigningPayload,
+} from "../lib/hmac.js";
+import { initConvexTest } from "../setup.test.js";
+
+const signingSecret = "test-signing-secret";
+const keyResult = "okrhub:test:keyResult:1";
+const risk = "okrhub:test:risk:1";
+
+async function seedEntities(t: ReturnType<typeof initConvexTest>) {
+  await t.run(async (ctx) => {
+    const createdAt = Date.now();
+    await ctx.db.insert("keyResults", {
+      externalId: keyResult,
+      objectiveExternalId: "okrhub:test:objective:1",
+      indicatorExternalId: "okrhub:test:indicator:1",
+      teamExternalId: "okrhub:test:team:1",
+      weight: 10,
+      slug: "revenue",
+      syncStatus: "synced",
+      createdAt,
+      remoteRevision: 3,
+    });
+    await ctx.db.insert("risks", {
+      externalId: risk,
+      description: "Churn",
+      teamExternalId: "okrhub:test:team:1",
+      keyResultExternalId: keyResult,
+      priority: "low",
+      slug: "churn",
+      syncStatus: "synced",
+      createdAt,
+    });
+  });
+}
+
+/**
+ * Sends `body` to the webhook, signed the way LinkHub signs it
+ */
+async function sendWebhook(
+  t: ReturnType<typeof initConvexTest>,
+  body: unknown,
+  options: { timestamp?: number; secret?: string } = {}
+) {
+  const rawBody = JSON.stringify(body);
+  const timestamp = String(options.timestamp ?? Date.now());
+  const signature = await createHmacSignature(
+    webhookSigningPayload(timestamp, rawBody),
+    options.secret ?? signingSecret
+  );
+  return await t.action(api.sync.inbound.receiveLinkHubWebhook, {
+    body: rawBody,
+    timestamp,
+    signature,
+    signingSecret,
+  });
+}
+
+async function loadEntities(t: ReturnType<typeof initConvexTest>) {
+  return await t.run(async (ctx) => ({
+    keyResult: await ctx.db
+      .query("keyResults")
+      .withIndex("by_external_id", (q) => q.eq("externalId", keyResult))
+      .first(),
+    risk: await ctx.db
+      .query("risks")
+      .withIndex("by_external_id", (q) => q.eq("externalId", risk))
+      .first(),
+    queued: await ctx.db.query("syncQueue").collect(),
+  }));
+}
+
+describe("receiveLinkHubWebhook", () => {
+  test("applies a signed change without queueing it back", async () => {
+    const t = initConvexTest();
+    await seedEntities(t);
+
+    const result = await sendWebhook(t, {
+      entityType: "keyResult",
+      externalId: keyResult,
+      revision: 4,
+      changes: { weight: 25 },
+    });
+
+    const entities = await loadEntities(t);
+    expect(result).toEqual({
+      success: true,
+      status: 200,
+      applied: 1,
+      ignored: 0,
+    });
+    expect(entities.keyResult).toMatchObject({
+      weight: 25,
+      remoteRevision: 4,
+      syncStatus: "synced",
+    });
+    expect(entities.queued).toHaveLength(0);
+  });
+
+  test("rejects a request signed with another secret", async () => {
+    const t = initConvexTest();
+    await seedEntities(t);
+
+    const result = await sendWebhook(
+      t,
+      {
+        entityType: "keyResult",
+        externalId: keyResult,
+        revision: 4,
+        changes: { weight: 25 },
+      },
+      { secret: "forged" }
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      status: 401,
+      error: "Invalid signature",
+    });
+    expect((await loadEntities(t)).keyResult?.weight).toBe(10);
+  });
+
+  test("rejects a request whose timestamp has expired", async () => {
+    const t = initConvexTest();
+    await seedEntities(t);
+
+    const result = await sendWebhook(
+      t,
+      {
+        entityType: "keyResult",
+        externalId: keyResult,
+        revision: 4,
+        changes: { weight: 25 },
+      },
+      { timestamp: Date.now() - WEBHOOK_TIMESTAMP_TOLERANCE_MS - 1000 }
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      status: 401,
+      error: "Stale or invalid timestamp",
+    });
+    expect((await loadEntities(t)).keyResult?.weight).toBe(10);
+  });
+
+  test("ignores replayed and older revisions", async () => {
+    const t = initConvexTest();
+    await seedEntities(t);
+    const event = {
+      entityType: "keyResult",
+      externalId: keyResult,
+      revision: 5,
+      changes: { weight: 25 },
+    };
+    await sendWebhook(t, event);
+
+    const replayed = await sendWebhook(t, event);
+    const older = await sendWebhook(t, {
+      ...event,
+      revision: 4,
+      changes: { weight: 5 },
+    });
+
+    expect(replayed).toMatchObject({ applied: 0, ignored: 1 });
+    expect(older).toMatchObject({ applied: 0, ignored: 1 });
+    expect((await loadEntities(t)).keyResult).toMatchObject({
+      weight: 25,
+      remoteRevision: 5,
+    });
+  });
+
+  test("only applies LinkHub-managed fields with valid values", async () => {
+    const t = initConvexTest();
+    await seedEntities(t);
+
+    const result = await sendWebhook(t, {
+      events: [
+        // Not managed by LinkHub for these entity types
+        {
+          entityType: "keyResult",
+          externalId: keyResult,
+          revision: 4,
+          changes: { priority: "high", slug: "renamed" },
+        },
+        {
+          entityType: "objective",
+          externalId: "okrhub:test:objective:1",
+          revision: 4,
+          changes: { weight: 50 },
+        },
+        // Not a priority
+        {
+          entityType: "risk",
+          externalId: risk,
+          revision: 1,
+          changes: { priority: "urgent" },
+        },
+        {
+          entityType: "risk",
+          externalId: risk,
+          revision: 2,
+          changes: { priority: "highest", description: "Renamed" },
+        },
+      ],
+    });
+
+    const entities = await loadEntities(t);
+    expect(result).toMatchObject({ applied: 1, ignored: 3 });
+    expect(entities.keyResult).toMatchObject({ slug: "revenue", weight: 10 });
+    expect(entities.risk).toMatchObject({
+      priority: "highest",
+      description: "Churn",
+      remoteRevision: 2,
+    });
+  });
+});
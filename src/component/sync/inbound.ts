@@ -0,0 +1,278 @@
+/**
+ * Inbound Webhook for OKRHub Component
+ *
+ * Applies change events pushed by LinkHub for the fields it manages
+ * (see `LINKHUB_MANAGED_FIELDS` in payloadPolicy.ts). Requests are signed
+ * with the same HMAC scheme used for outbound requests, over a timestamp
+ * and the body, and stale timestamps are rejected so captured requests
+ * cannot be replayed. Each event carries LinkHub's revision of the entity;
+ * events that are not newer than the stored `remoteRevision` are ignored,
+ * so late or repeated events cannot roll a field back. Local rows are
+ * patched directly and never re-enqueued, so changes do not echo back.
+ */
+
+import { v } from "convex/values";
+import { internal } from "../_generated/api.js";
+import { action, internalMutation } from "../_generated/server.js";
+import {
+  verifyHmacSignature,
+  webhookSigningPayload,
+  WEBHOOK_TIMESTAMP_TOLERANCE_MS,
+} from "../lib/hmac.js";
+import { getLinkHubManagedFields } from "../lib/payloadPolicy.js";
+import { PrioritySchema } from "../schema.js";
+
+const inboundChangesValidator = v.object({
+  weight: v.optional(v.number()),
+  priority: v.optional(PrioritySchema),
+});
+
+const inboundEventValidator = v.object({
+  entityType: v.string(),
+  externalId: v.string(),
+  revision: v.number(), // LinkHub's revision of the entity after the change
+  changes: inboundChangesValidator,
+});
+
+type InboundEvent = typeof inboundEventValidator.type;
+
+const webhookResultValidator = v.object({
+  success: v.boolean(),
+  status: v.number(),
+  applied: v.number(),
+  ignored: v.number(),
+  error: v.optional(v.string()),
+});
+
+const PRIORITIES = ["lowest", "low", "medium", "high", "highest"];
+
+/**
+ * Keeps only the managed fields of an event, with values of the right type.
+ * Returns null when nothing in the event can be applied.
+ */
+function toInboundEvent(raw: unknown): InboundEvent | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const { entityType, externalId, revision, changes } = raw as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof entityType !== "string" ||
+    typeof externalId !== "string" ||
+    typeof revision !== "number" ||
+    !changes ||
+    typeof changes !== "object"
+  ) {
+    return null;
+  }
+
+  const managed = getLinkHubManagedFields(entityType);
+  const { weight, priority } = changes as Record<string, unknown>;
+  const event: InboundEvent = { entityType, externalId, revision, changes: {} };
+
+  if (managed.includes("weight") && typeof weight === "number") {
+    event.changes.weight = weight;
+  }
+  if (
+    managed.includes("priority") &&
+    typeof priority === "string" &&
+    PRIORITIES.includes(priority)
+  ) {
+    event.changes.priority = priority as InboundEvent["changes"]["priority"];
+  }
+
+  return Object.keys(event.changes).length > 0 ? event : null;
+}
+
+/**
+ * Verifies and applies a webhook request from LinkHub.
+ *
+ * `body` is the raw request body, `timestamp` the `X-OKRHub-Timestamp`
+ * header (milliseconds since the epoch) and `signature` the
+ * `X-OKRHub-Signature` header, an HMAC of `${timestamp}.${body}`. The body
+ * is either a single event or `{ events: [...] }`, where an event is
+ * `{ entityType, externalId, revision, changes }`. `signingSecret`
+ * overrides the secret stored via configure().
+ */
+export const receiveLinkHubWebhook = action({
+  args: {
+    body: v.string(),
+    timestamp: v.string(),
+    signature: v.string(),
+    signingSecret: v.optional(v.string()),
+  },
+  returns: webhookResultValidator,
+  handler: async (
+    ctx,
+    args
+  ): Promise<typeof webhookResultValidator.type> => {
+    let signingSecret = args.signingSecret;
+    if (!signingSecret) {
+      const config = await ctx.runQuery(internal.config.getConfig, {});
+      signingSecret = config?.signingSecret;
+    }
+    if (!signingSecret) {
+      return {
+        success: false,
+        status: 500,
+        applied: 0,
+        ignored: 0,
+        error: "OKRHub not configured: no signing secret",
+      };
+    }
+
+    const timestamp = Number(args.timestamp);
+    if (
+      !Number.isFinite(timestamp) ||
+      Math.abs(Date.now() - timestamp) > WEBHOOK_TIMESTAMP_TOLERANCE_MS
+    ) {
+      console.log("[okrhub] webhook rejected: stale timestamp");
+      return {
+        success: false,
+        status: 401,
+        applied: 0,
+        ignored: 0,
+        error: "Stale or invalid timestamp",
+      };
+    }
+
+    const valid = await verifyHmacSignature(
+      webhookSigningPayload(args.timestamp, args.body),
+      args.signature,
+      signingSecret
+    );
+    if (!valid) {
+      console.log("[okrhub] webhook rejected: invalid signature");
+      return {
+        success: false,
+        status: 401,
+        applied: 0,
+        ignored: 0,
+        error: "Invalid signature",
+      };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(args.body);
+    } catch {
+      return {
+        success: false,
+        status: 400,
+        applied: 0,
+        ignored: 0,
+        error: "Invalid JSON body",
+      };
+    }
+
+    const rawEvents =
+      parsed && typeof parsed === "object" && "events" in parsed
+        ? (parsed as { events: unknown }).events
+        : [parsed];
+    if (!Array.isArray(rawEvents)) {
+      return {
+        success: false,
+        status: 400,
+        applied: 0,
+        ignored: 0,
+        error: "`events` must be an array",
+      };
+    }
+
+    const events: InboundEvent[] = [];
+    for (const raw of rawEvents) {
+      const event = toInboundEvent(raw);
+      if (event) events.push(event);
+    }
+
+    const { applied } = await ctx.runMutation(
+      internal.sync.inbound.applyInboundChanges,
+      { events }
+    );
+    const ignored = rawEvents.length - applied;
+
+    console.log(`[okrhub] webhook applied=${applied} ignored=${ignored}`);
+
+    return {
+      success: true,
+      status: 200,
+      applied,
+      ignored,
+    };
+  },
+});
+
+/**
+ * Whether an event is newer than the LinkHub revision stored on the row
+ */
+function isNewerRevision(
+  row: { remoteRevision?: number },
+  revision: number
+): boolean {
+  return row.remoteRevision === undefined || revision > row.remoteRevision;
+}
+
+/**
+ * Patches LinkHub-managed fields on local rows without touching
+ * syncStatus or the sync queue, and stores the event's revision as the
+ * row's `remoteRevision`. Events for unknown entities, and events that
+ * are not newer than the stored revision, are skipped.
+ */
+export const applyInboundChanges = internalMutation({
+  args: {
+    events: v.array(inboundEventValidator),
+  },
+  returns: v.object({
+    applied: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    let applied = 0;
+
+    for (const { entityType, externalId, revision, changes } of args.events) {
+      if (entityType === "keyResult" && changes.weight !== undefined) {
+        const keyResult = await ctx.db
+          .query("keyResults")
+          .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+          .first();
+        if (keyResult && isNewerRevision(keyResult, revision)) {
+          await ctx.db.patch(keyResult._id, {
+            weight: changes.weight,
+            remoteRevision: revision,
+          });
+          applied++;
+        }
+      } else if (entityType === "risk" && changes.priority !== undefined) {
+        const risk = await ctx.db
+          .query("risks")
+          .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+          .first();
+        if (risk && isNewerRevision(risk, revision)) {
+          await ctx.db.patch(risk._id, {
+            priority: changes.priority,
+            remoteRevision: revision,
+          });
+          applied++;
+        }
+      } else if (
+        entityType === "initiative" &&
+        changes.priority !== undefined
+      ) {
+        const initiative = await ctx.db
+          .query("initiatives")
+          .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+          .first();
+        if (initiative && isNewerRevision(initiative, revision)) {
+          await ctx.db.patch(initiative._id, {
+            priority: changes.priority,
+            remoteRevision: revision,
+          });
+          applied++;
+        }
+      }
+    }
+
+    return { applied };
+  },
+});
@@ -7,5 +7,29 @@ export {
   updateSyncQueueItem,
   getPendingSyncItems,
 } from "./queue.js";
-export { sendToLinkHub, sendBatchToLinkHub } from "./http.js";
-export { processSyncQueue } from "./processor.js";
+export { sendToLinkHub, sendBatchToLinkHub, getMyTeams } from "./http.js";
+export { processSyncQueue, drainNow } from "./processor.js";
+export { getCircuitState } from "./circuitBreaker.js";
+export {
+  listDeadLetters,
+  replayDeadLetter,
+  replayDeadLetters,
+  purgeDeadLetter,
+  purgeDeadLetters,
+} from "./deadLetters.js";
+export {
+  listFailedSyncItems,
+  replayFailedSyncItem,
+  replayFailedSyncItems,
+  discardFailedSyncItem,
+  discardFailedSyncItems,
+} from "./failedItems.js";
+export { getLinkHubId, getLinkHubMappings } from "./mappings.js";
+export {
+  listSyncConflicts,
+  resolveConflictKeepLocal,
+  resolveConflictTakeRemote,
+  resolveConflictMerge,
+} from "./conflicts.js";
+export { receiveLinkHubWebhook } from "./inbound.js";
+export { reconcile } from "./reconcile.js";
@@ -0,0 +1,125 @@
+/**
+ * LinkHub ID Mappings for OKRHub Component
+ *
+ * Stores the LinkHub ID returned for each synced externalId so consumer
+ * apps can deep-link into LinkHub.
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  type DatabaseReader,
+  type MutationCtx,
+} from "../_generated/server.js";
+
+const linkHubMappingValidator = v.object({
+  entityType: v.string(),
+  externalId: v.string(),
+  linkHubId: v.string(),
+  firstSyncedAt: v.number(),
+  lastSyncedAt: v.number(),
+});
+
+/**
+ * Records the LinkHub ID for an externalId after a successful sync.
+ * Returns whether a mapping already existed (i.e. LinkHub knew the entity).
+ */
+export async function upsertLinkHubMapping(
+  ctx: MutationCtx,
+  entityType: string,
+  externalId: string,
+  linkHubId: string | undefined
+): Promise<boolean> {
+  const existing = await ctx.db
+    .query("linkHubMappings")
+    .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+    .first();
+
+  if (!linkHubId) {
+    return existing !== null;
+  }
+
+  const now = Date.now();
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      entityType,
+      linkHubId,
+      lastSyncedAt: now,
+    });
+    return true;
+  }
+
+  await ctx.db.insert("linkHubMappings", {
+    entityType,
+    externalId,
+    linkHubId,
+    firstSyncedAt: now,
+    lastSyncedAt: now,
+  });
+  return false;
+}
+
+/**
+ * Whether LinkHub has acknowledged an externalId, i.e. a mapping exists
+ */
+export async function hasLinkHubMapping(
+  db: DatabaseReader,
+  externalId: string
+): Promise<boolean> {
+  const mapping = await db
+    .query("linkHubMappings")
+    .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+    .first();
+  return mapping !== null;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Gets the LinkHub ID for an externalId, or null if it was never synced
+ */
+export const getLinkHubId = query({
+  args: {
+    externalId: v.string(),
+  },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, args) => {
+    const mapping = await ctx.db
+      .query("linkHubMappings")
+      .withIndex("by_external_id", (q) => q.eq("externalId", args.externalId))
+      .first();
+    return mapping?.linkHubId ?? null;
+  },
+});
+
+/**
+ * Gets the LinkHub mappings for several externalIds at once.
+ * ExternalIds that were never synced are left out of the result.
+ */
+export const getLinkHubMappings = query({
+  args: {
+    externalIds: v.array(v.string()),
+  },
+  returns: v.array(linkHubMappingValidator),
+  handler: async (ctx, args) => {
+    const mappings = [];
+    for (const externalId of args.externalIds) {
+      const mapping = await ctx.db
+        .query("linkHubMappings")
+        .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+        .first();
+      if (mapping) {
+        mappings.push({
+          entityType: mapping.entityType,
+          externalId: mapping.externalId,
+          linkHubId: mapping.linkHubId,
+          firstSyncedAt: mapping.firstSyncedAt,
+          lastSyncedAt: mapping.lastSyncedAt,
+        });
+      }
+    }
+    return mappings;
+  },
+});
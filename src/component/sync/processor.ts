@@ -7,12 +7,39 @@
  *
  * When autoSyncEnabled is true, the processor runs in drain mode:
  * it keeps scheduling itself only while there are pending items.
+ * Failed items are retried with exponential backoff: when nothing is due,
+ * a single delayed run is scheduled for the earliest `nextAttemptAt`.
+ * Claimed items carry a lease, so a run that crashes mid-batch does not
+ * leave them stuck in `processing` (see `sweepExpiredLeases`), and a
+ * heartbeat restarts processing if due items are left waiting (see
+ * heartbeat.ts).
+ *
+ * Each batch is sent parents-first (company → team → indicator → objective →
+ * keyResult → risk → initiative → milestone/values), and children whose
+ * parent has not reached LinkHub yet are held back for a later run.
+ * Writes LinkHub rejects as stale move to the conflicts table instead of
+ * being retried, and so do writes LinkHub rejects as invalid (400, 422):
+ * they stay `failed` with LinkHub's error instead of being retried. A
+ * batch rejected as invalid is resent item by item, so only the invalid
+ * items fail. When the circuit breaker is open, unsent items go back to
+ * pending without using an attempt, and the next run waits for the
+ * cool-down.
  */
 
 import { v } from "convex/values";
 import { action } from "../_generated/server.js";
 import type { Id } from "../_generated/dataModel.js";
 import { api, internal } from "../_generated/api.js";
+import {
+  batchItemSyncError,
+  isPayloadRejectionStatus,
+} from "../lib/errors.js";
+import { getSyncRank, sortBySyncRank } from "../lib/hierarchy.js";
+import type {
+  SyncConflictDetails,
+  SyncError,
+  SyncOperation,
+} from "../schema.js";
 
 const BATCH_KEY_BY_ENTITY_TYPE: Record<string, string> = {
   objective: "objectives",
@@ -30,6 +57,7 @@ type PendingSyncItem = {
   entityType: string;
   externalId: string;
   payload: string;
+  operation?: SyncOperation;
 };
 
 /**
@@ -41,6 +69,11 @@ type PendingSyncItem = {
  *
  * Self-scheduling: if stored config has autoSyncEnabled=true,
  * the processor only schedules immediate follow-up runs while work remains.
+ * `selfSchedule: false` turns this off for callers that loop themselves.
+ *
+ * While sync is paused the run does nothing; items of paused entity
+ * types are left in the queue. Items released because the circuit is
+ * open are not counted as processed, and the result has `circuitOpen`.
  */
 export const processSyncQueue = action({
   args: {
@@ -48,11 +81,13 @@ export const processSyncQueue = action({
     apiKeyPrefix: v.optional(v.string()),
     signingSecret: v.optional(v.string()),
     batchSize: v.optional(v.number()),
+    selfSchedule: v.optional(v.boolean()),
   },
   returns: v.object({
     processed: v.number(),
     succeeded: v.number(),
     failed: v.number(),
+    circuitOpen: v.optional(v.boolean()),
   }),
   handler: async (ctx, args) => {
     // Resolve config: explicit args > stored config
@@ -63,6 +98,12 @@ export const processSyncQueue = action({
     // Read stored config for self-scheduling (and as fallback)
     const storedConfig = await ctx.runQuery(internal.config.getConfig, {});
 
+    if (storedConfig?.syncPaused) {
+      console.log("[okrhub] processSyncQueue skipped: sync is paused");
+      return { processed: 0, succeeded: 0, failed: 0 };
+    }
+    const excludeEntityTypes = storedConfig?.pausedEntityTypes ?? [];
+
     if (args.endpointUrl && args.apiKeyPrefix && args.signingSecret) {
       // Backward compatible: use explicit args
       endpointUrl = args.endpointUrl;
@@ -83,39 +124,75 @@ export const processSyncQueue = action({
     const batchSize = args.batchSize ?? 10;
 
     // Get full pending items (includes payload for transport)
-    const pendingItems = (await ctx.runQuery(
+    const dueItems = (await ctx.runQuery(
       internal.sync.queue.getPendingSyncItemsForProcessing,
-      { limit: batchSize }
+      { limit: batchSize, excludeEntityTypes }
     )) as PendingSyncItem[];
 
     // Idle path: do nothing, don't self-schedule on an empty queue.
-    if (pendingItems.length === 0) {
+    if (dueItems.length === 0) {
       console.log("[okrhub] processSyncQueue idle: no pending items");
       return { processed: 0, succeeded: 0, failed: 0 };
     }
 
-    // Mark all selected items as processing in one mutation call.
-    await ctx.runMutation(internal.sync.queue.updateSyncQueueItemsBatch, {
-      updates: pendingItems.map((item) => ({
-        id: item._id,
-        status: "processing" as const,
-      })),
-    });
+    // Order parents first, then hold back children whose parent is still
+    // queued elsewhere or dead-lettered. Children of a parent LinkHub
+    // rejected are dead-lettered.
+    const orderedItems = sortBySyncRank(dueItems);
+    const { held, deadLettered } = await ctx.runMutation(
+      internal.sync.queue.deferBlockedSyncItems,
+      { ids: orderedItems.map((item) => item._id) }
+    );
+    const heldIds = new Set([...held, ...deadLettered]);
+    const sendableItems = orderedItems.filter((item) => !heldIds.has(item._id));
+
+    // Claim all selected items in one mutation call. Each claim takes a
+    // lease; if this run dies, the sweeper returns the items to pending.
+    // Items another run claimed in the meantime are skipped.
+    const { claimed } = await ctx.runMutation(
+      internal.sync.queue.updateSyncQueueItemsBatch,
+      {
+        updates: sendableItems.map((item) => ({
+          id: item._id,
+          status: "processing" as const,
+        })),
+      }
+    );
+    const claimedIds = new Set(claimed);
+    const pendingItems = sendableItems.filter((item) =>
+      claimedIds.has(item._id)
+    );
 
     const updates: Array<{
       id: Id<"syncQueue">;
-      status: "success" | "failed";
+      status: "success" | "failed" | "pending";
       linkHubId?: string;
+      action?: "create" | "update";
+      revision?: number;
       errorMessage?: string;
+      httpStatus?: number;
+      conflict?: SyncConflictDetails;
+      syncError?: SyncError;
+      nextAttemptAt?: number;
     }> = [];
 
+    // Set once LinkHub calls are refused; later sends in this run are
+    // released without trying
+    let circuitOpen = false;
+    let circuitRetryAt: number | undefined;
+    const releaseItem = (id: Id<"syncQueue">) => {
+      updates.push({ id, status: "pending", nextAttemptAt: circuitRetryAt });
+    };
+
     const batchPayload: Record<string, unknown[]> = {};
     const batchItemIds = new Set<Id<"syncQueue">>();
     const batchItemKeyToQueueId = new Map<string, Id<"syncQueue">>();
 
+    // Items are sorted by rank, so batch keys are added parents-first.
     for (const item of pendingItems) {
       const batchKey = BATCH_KEY_BY_ENTITY_TYPE[item.entityType];
-      if (!batchKey) {
+      // Deletes, restores and patches go through their own single sends
+      if (!batchKey || (item.operation && item.operation !== "upsert")) {
         continue;
       }
 
@@ -132,12 +209,80 @@ export const processSyncQueue = action({
           id: item._id,
           status: "failed",
           errorMessage: "Invalid payload JSON",
+          syncError: { message: "Invalid payload JSON", retryable: false },
         });
       }
     }
 
+    // Single send for entity types the batch endpoint does not support.
+    const sendSingle = async (item: PendingSyncItem) => {
+      if (circuitOpen) {
+        releaseItem(item._id);
+        return;
+      }
+
+      const result = await ctx.runAction(api.sync.http.sendToLinkHub, {
+        endpointUrl,
+        apiKeyPrefix,
+        signingSecret,
+        entityType: item.entityType,
+        payload: item.payload,
+        operation: item.operation,
+      });
+
+      if (result.circuitOpen) {
+        circuitOpen = true;
+        circuitRetryAt = result.retryAt;
+        releaseItem(item._id);
+      } else if (result.success) {
+        updates.push({
+          id: item._id,
+          status: "success",
+          linkHubId: "linkHubId" in result ? result.linkHubId : undefined,
+          action: "action" in result ? result.action : undefined,
+          revision: "revision" in result ? result.revision : undefined,
+        });
+      } else {
+        updates.push({
+          id: item._id,
+          status: "failed",
+          errorMessage: result.error,
+          httpStatus: result.httpStatus,
+          conflict: "conflict" in result ? result.conflict : undefined,
+          syncError: result.syncError,
+        });
+      }
+    };
+
+    const singleItems = pendingItems.filter(
+      (item) =>
+        item.operation !== "delete" &&
+        !batchItemIds.has(item._id) &&
+        !updates.some((update) => update.id === item._id)
+    );
+    const deleteItems = pendingItems.filter(
+      (item) => item.operation === "delete"
+    );
+    const batchRank = Math.min(
+      ...pendingItems
+        .filter((item) => batchItemIds.has(item._id))
+        .map((item) => getSyncRank(item.entityType))
+    );
+
+    // Parents that go through single send (companies, teams, users) must
+    // reach LinkHub before the batch that references them.
+    for (const item of singleItems) {
+      if (getSyncRank(item.entityType) < batchRank) {
+        await sendSingle(item);
+      }
+    }
+
     const batchKeys = Object.keys(batchPayload);
-    if (batchKeys.length > 0) {
+    if (batchKeys.length > 0 && circuitOpen) {
+      for (const queueId of batchItemKeyToQueueId.values()) {
+        releaseItem(queueId);
+      }
+    } else if (batchKeys.length > 0) {
       const batchResult = await ctx.runAction(api.sync.http.sendBatchToLinkHub, {
         endpointUrl,
         apiKeyPrefix,
@@ -145,7 +290,24 @@ export const processSyncQueue = action({
         payload: JSON.stringify(batchPayload),
       });
 
-      if (!batchResult.success) {
+      if (batchResult.circuitOpen) {
+        circuitOpen = true;
+        circuitRetryAt = batchResult.retryAt;
+        for (const queueId of batchItemKeyToQueueId.values()) {
+          releaseItem(queueId);
+        }
+      } else if (
+        batchResult.httpStatus !== undefined &&
+        isPayloadRejectionStatus(batchResult.httpStatus)
+      ) {
+        // LinkHub rejected the batch's payload; find the invalid items
+        // by sending each one on its own
+        for (const item of pendingItems) {
+          if (batchItemIds.has(item._id)) {
+            await sendSingle(item);
+          }
+        }
+      } else if (!batchResult.success) {
         const errorMessage =
           batchResult.errors.length > 0
             ? batchResult.errors.join(" | ")
@@ -157,85 +319,121 @@ export const processSyncQueue = action({
             id: item._id,
             status: "failed",
             errorMessage,
+            httpStatus: batchResult.httpStatus,
+            // A whole-batch failure is not tied to any one item, so each
+            // item is retried until its own retries run out
+            syncError: batchResult.syncError && {
+              ...batchResult.syncError,
+              retryable: true,
+            },
           });
         }
       } else {
         const resultMap = new Map<
           string,
-          { linkHubId?: string; error?: string }
+          {
+            linkHubId?: string;
+            action?: "create" | "update";
+            revision?: number;
+            error?: string;
+            conflict?: SyncConflictDetails;
+            syncError?: SyncError;
+          }
         >();
         for (const result of batchResult.results) {
           resultMap.set(`${result.entityType}:${result.externalId}`, {
             linkHubId: result.linkHubId,
+            action: result.action,
+            revision: result.revision,
             error: result.error,
+            conflict: result.conflict,
+            syncError: result.syncError,
           });
         }
 
         for (const [resultKey, queueId] of batchItemKeyToQueueId.entries()) {
           const result = resultMap.get(resultKey);
-          if (result && !result.error) {
+          if (result && !result.error && !result.conflict) {
             updates.push({
               id: queueId,
               status: "success",
               linkHubId: result.linkHubId,
+              action: result.action,
+              revision: result.revision,
             });
           } else {
             updates.push({
               id: queueId,
               status: "failed",
               errorMessage: result?.error ?? "Missing batch result",
+              conflict: result?.conflict,
+              syncError: result?.syncError ?? batchItemSyncError(result),
             });
           }
         }
       }
     }
 
-    // Fallback to single send for unsupported entity types.
-    for (const item of pendingItems) {
-      if (batchItemIds.has(item._id)) continue;
-      if (updates.some((update) => update.id === item._id)) continue;
-
-      const result = await ctx.runAction(api.sync.http.sendToLinkHub, {
-        endpointUrl,
-        apiKeyPrefix,
-        signingSecret,
-        entityType: item.entityType,
-        payload: item.payload,
-      });
-
-      if (result.success) {
-        updates.push({
-          id: item._id,
-          status: "success",
-          linkHubId: "linkHubId" in result ? result.linkHubId : undefined,
-        });
-      } else {
-        updates.push({
-          id: item._id,
-          status: "failed",
-          errorMessage: result.error,
-        });
+    // Remaining single sends go after the batch.
+    for (const item of singleItems) {
+      if (getSyncRank(item.entityType) >= batchRank) {
+        await sendSingle(item);
       }
     }
 
+    // Deletes go last, children before parents.
+    for (const item of [...deleteItems].reverse()) {
+      await sendSingle(item);
+    }
+
     if (updates.length > 0) {
       await ctx.runMutation(internal.sync.queue.updateSyncQueueItemsBatch, {
         updates,
       });
     }
 
-    const processed = updates.length;
+    const processed = updates.filter((update) => update.status !== "pending").length;
     const succeeded = updates.filter((update) => update.status === "success").length;
     const failed = processed - succeeded;
 
-    // Drain mode: if there are still pending items, immediately continue processing.
-    if (storedConfig?.autoSyncEnabled) {
+    // Drain mode: if there are still due items, immediately continue processing.
+    // Otherwise wake up again when the earliest retry becomes due. An open
+    // circuit refuses every call until its cool-down ends, so wait for that.
+    if (
+      storedConfig?.autoSyncEnabled &&
+      args.selfSchedule !== false &&
+      circuitOpen
+    ) {
+      await ctx.scheduler.runAt(
+        circuitRetryAt ?? Date.now(),
+        api.sync.processor.processSyncQueue,
+        {}
+      );
+      console.log(
+        `[okrhub] processSyncQueue circuit open, next run at=${circuitRetryAt}`
+      );
+    } else if (storedConfig?.autoSyncEnabled && args.selfSchedule !== false) {
       const remaining = await ctx.runQuery(
         internal.sync.queue.getPendingSyncItemsForProcessing,
-        { limit: 1 }
+        { limit: 1, excludeEntityTypes }
       );
       if (remaining.length > 0) {
         await ctx.scheduler.runAfter(0, api.sync.processor.processSyncQueue, {});
+      } else {
+        const nextRetryAt = await ctx.runQuery(
+          internal.sync.queue.getNextRetryAt,
+          {}
+        );
+        if (nextRetryAt !== null) {
+          await ctx.scheduler.runAt(
+            nextRetryAt,
+            api.sync.processor.processSyncQueue,
+            {}
+          );
+          console.log(
+            `[okrhub] processSyncQueue retry run scheduled at=${nextRetryAt}`
+          );
+        }
       }
     }
 
@@ -243,6 +441,130 @@ export const processSyncQueue = action({
       `[okrhub] processSyncQueue processed=${processed} succeeded=${succeeded} failed=${failed}`
     );
 
-    return { processed, succeeded, failed };
+    return {
+      processed,
+      succeeded,
+      failed,
+      ...(circuitOpen && { circuitOpen }),
+    };
+  },
+});
+
+const drainResultValidator = v.object({
+  processed: v.number(),
+  succeeded: v.number(),
+  failed: v.number(),
+  runs: v.number(),
+  elapsedMs: v.number(),
+  // Pending items left in the queue, due or not (counted up to 1000)
+  remaining: v.number(),
+  stoppedBy: v.union(
+    v.literal("drained"),
+    v.literal("held"),
+    v.literal("timeBudget"),
+    v.literal("paused"),
+    v.literal("circuitOpen")
+  ),
+});
+
+type DrainResult = typeof drainResultValidator.type;
+
+/**
+ * Runs processSyncQueue back to back until no due items are left or
+ * `timeBudgetMs` (default 60 seconds) has passed, and returns the totals.
+ * Stops early when the circuit breaker refuses LinkHub calls.
+ * When nothing is due but pending items remain, `stoppedBy` is "held"
+ * (waiting for a retry or a parent) or "paused" (only paused entity
+ * types are left) instead of "drained".
+ * Config resolution follows processSyncQueue. When the budget runs out
+ * with autoSyncEnabled, drain mode takes over the rest of the queue.
+ */
+export const drainNow = action({
+  args: {
+    endpointUrl: v.optional(v.string()),
+    apiKeyPrefix: v.optional(v.string()),
+    signingSecret: v.optional(v.string()),
+    batchSize: v.optional(v.number()),
+    timeBudgetMs: v.optional(v.number()),
+  },
+  returns: drainResultValidator,
+  handler: async (ctx, args): Promise<DrainResult> => {
+    const startedAt = Date.now();
+    const timeBudgetMs = args.timeBudgetMs ?? 60000;
+    const result: DrainResult = {
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      runs: 0,
+      elapsedMs: 0,
+      remaining: 0,
+      stoppedBy: "drained",
+    };
+
+    const storedConfig = await ctx.runQuery(internal.config.getConfig, {});
+    const excludeEntityTypes = storedConfig?.syncPaused
+      ? undefined
+      : storedConfig?.pausedEntityTypes;
+    const countRemaining = async () => {
+      const { waiting, paused } = await ctx.runQuery(
+        internal.sync.queue.countPendingSyncItems,
+        { excludeEntityTypes }
+      );
+      result.remaining = waiting + paused;
+      return { waiting, paused };
+    };
+
+    if (storedConfig?.syncPaused) {
+      await countRemaining();
+      result.stoppedBy = "paused";
+      return result;
+    }
+
+    while (true) {
+      if (Date.now() - startedAt >= timeBudgetMs) {
+        result.stoppedBy = "timeBudget";
+        break;
+      }
+
+      const run = await ctx.runAction(api.sync.processor.processSyncQueue, {
+        endpointUrl: args.endpointUrl,
+        apiKeyPrefix: args.apiKeyPrefix,
+        signingSecret: args.signingSecret,
+        batchSize: args.batchSize,
+        selfSchedule: false,
+      });
+      result.runs++;
+      result.processed += run.processed;
+      result.succeeded += run.succeeded;
+      result.failed += run.failed;
+
+      if (run.circuitOpen) {
+        result.stoppedBy = "circuitOpen";
+        break;
+      }
+      if (run.processed === 0) {
+        break;
+      }
+    }
+
+    if (result.stoppedBy === "timeBudget" && storedConfig?.autoSyncEnabled) {
+      await ctx.scheduler.runAfter(0, api.sync.processor.processSyncQueue, {});
+    }
+
+    const { waiting, paused } = await countRemaining();
+    if (result.stoppedBy === "drained" && waiting > 0) {
+      result.stoppedBy = "held";
+    } else if (result.stoppedBy === "drained" && paused > 0) {
+      result.stoppedBy = "paused";
+    }
+
+    result.elapsedMs = Date.now() - startedAt;
+    console.log(
+      `[okrhub] drainNow runs=${result.runs} processed=${result.processed} ` +
+        `succeeded=${result.succeeded} failed=${result.failed} ` +
+        `remaining=${result.remaining} stoppedBy=${result.stoppedBy}`
+    );
+
+    return result;
   },
 });
@@ -0,0 +1,326 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "../_generated/api.js";
+import { initConvexTest } from "../setup.test.js";
+
+const externalId = "okrhub:test:objective:1";
+
+async function queueObjective(t: ReturnType<typeof initConvexTest>) {
+  const queueId = await t.mutation(internal.sync.queue.addToSyncQueue, {
+    entityType: "objective",
+    externalId,
+    payload: JSON.stringify({ externalId, title: "Grow" }),
+  });
+  if (!queueId) throw new Error("Item was not queued");
+  return queueId;
+}
+
+describe("sync queue retries", () => {
+  test("a retryable failure goes back to pending with a backoff", async () => {
+    const t = initConvexTest();
+    const id = await queueObjective(t);
+
+    const before = Date.now();
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id,
+      status: "failed",
+      errorMessage: "HTTP 503",
+      httpStatus: 503,
+      syncError: { message: "HTTP 503", retryable: true },
+    });
+
+    const item = await t.run(async (ctx) => await ctx.db.get(id));
+    expect(item?.status).toBe("pending");
+    expect(item?.attempts).toBe(1);
+    expect(item?.errorHistory).toHaveLength(1);
+    expect(item?.lastHttpStatus).toBe(503);
+    expect(item?.nextAttemptAt).toBeGreaterThan(before);
+  });
+
+  test("the last allowed failure moves the item to the dead letters", async () => {
+    const t = initConvexTest();
+    const id = await queueObjective(t);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+        id,
+        status: "failed",
+        errorMessage: `HTTP 500 #${attempt + 1}`,
+        httpStatus: 500,
+        syncError: { message: "HTTP 500", retryable: true },
+      });
+    }
+
+    const { item, deadLetters } = await t.run(async (ctx) => ({
+      item: await ctx.db.get(id),
+      deadLetters: await ctx.db.query("deadLetters").collect(),
+    }));
+    expect(item).toBeNull();
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({
+      entityType: "objective",
+      externalId,
+      attempts: 5,
+      lastHttpStatus: 500,
+    });
+    expect(deadLetters[0].errors).toHaveLength(5);
+  });
+
+  test("a permanent failure stays failed without a retry", async () => {
+    const t = initConvexTest();
+    const id = await queueObjective(t);
+
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id,
+      status: "failed",
+      errorMessage: "Invalid title",
+      httpStatus: 422,
+      syncError: { message: "Invalid title", retryable: false },
+    });
+
+    const item = await t.run(async (ctx) => await ctx.db.get(id));
+    expect(item?.status).toBe("failed");
+    expect(item?.nextAttemptAt).toBeUndefined();
+    expect(item?.lastError).toEqual({
+      message: "Invalid title",
+      retryable: false,
+    });
+  });
+
+  test("a success only clears failed items of the same entity type", async () => {
+    const t = initConvexTest();
+    const failedId = await t.mutation(internal.sync.queue.addToSyncQueue, {
+      entityType: "keyResult",
+      externalId,
+      payload: JSON.stringify({ externalId }),
+    });
+    if (!failedId) throw new Error("Item was not queued");
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id: failedId,
+      status: "failed",
+      errorMessage: "Invalid slug",
+      httpStatus: 422,
+      syncError: { message: "Invalid slug", retryable: false },
+    });
+    const id = await queueObjective(t);
+
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id,
+      status: "success",
+    });
+
+    const failed = await t.run(async (ctx) => await ctx.db.get(failedId));
+    expect(failed?.status).toBe("failed");
+    expect(failed?.errorHistory).toHaveLength(1);
+  });
+
+  test("releasing a claim does not count an attempt", async () => {
+    const t = initConvexTest();
+    const id = await queueObjective(t);
+
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id,
+      status: "processing",
+    });
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id,
+      status: "pending",
+      nextAttemptAt: Date.now() + 60000,
+    });
+
+    const item = await t.run(async (ctx) => await ctx.db.get(id));
+    expect(item?.status).toBe("pending");
+    expect(item?.attempts).toBe(0);
+    expect(item?.leaseExpiresAt).toBeUndefined();
+  });
+});
+
+describe("sync queue coalescing", () => {
+  test("a second write folds into the pending item", async () => {
+    const t = initConvexTest();
+    const id = await queueObjective(t);
+
+    const secondId = await t.mutation(internal.sync.queue.addToSyncQueue, {
+      entityType: "objective",
+      externalId,
+      payload: JSON.stringify({ externalId, title: "Grow faster" }),
+    });
+
+    const items = await t.run(
+      async (ctx) => await ctx.db.query("syncQueue").collect()
+    );
+    expect(secondId).toBe(id);
+    expect(items).toHaveLength(1);
+    expect(items[0].coalescedCount).toBe(1);
+    expect(JSON.parse(items[0].payload)).toMatchObject({
+      title: "Grow faster",
+    });
+  });
+
+  test("deleting an entity whose create was never sent drops the item", async () => {
+    const t = initConvexTest();
+    await queueObjective(t);
+
+    const deleteId = await t.mutation(internal.sync.queue.addToSyncQueue, {
+      entityType: "objective",
+      externalId,
+      payload: JSON.stringify({ externalId, deletedAt: Date.now() }),
+      operation: "delete",
+    });
+
+    const items = await t.run(
+      async (ctx) => await ctx.db.query("syncQueue").collect()
+    );
+    expect(deleteId).toBeNull();
+    expect(items).toHaveLength(0);
+  });
+
+  test("deleting an entity whose create is in flight keeps the delete", async () => {
+    const t = initConvexTest();
+    const createId = await queueObjective(t);
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id: createId,
+      status: "processing",
+    });
+    const editId = await queueObjective(t);
+
+    const deleteId = await t.mutation(internal.sync.queue.addToSyncQueue, {
+      entityType: "objective",
+      externalId,
+      payload: JSON.stringify({ externalId, deletedAt: Date.now() }),
+      operation: "delete",
+    });
+
+    const items = await t.run(
+      async (ctx) => await ctx.db.query("syncQueue").collect()
+    );
+    expect(deleteId).toBe(editId);
+    expect(items).toHaveLength(2);
+    expect(items.find((item) => item._id === editId)?.operation).toBe(
+      "delete"
+    );
+  });
+});
+
+describe("parent-first sync", () => {
+  const keyResultId = "okrhub:test:keyResult:1";
+  const linkHub = {
+    endpointUrl: "https://linkhub.test",
+    apiKeyPrefix: "okr_test",
+    signingSecret: "secret",
+  };
+
+  /**
+   * Stubs LinkHub's batch endpoint, accepting every entity it is sent
+   */
+  function stubLinkHub() {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string) as Record<
+        string,
+        { externalId: string }[]
+      >;
+      const results = Object.entries(body).flatMap(([batchKey, entities]) =>
+        entities.map((entity) => ({
+          entityType: batchKey.replace(/s$/, ""),
+          externalId: entity.externalId,
+          linkHubId: `lh-${entity.externalId}`,
+          action: "create",
+        }))
+      );
+      return new Response(JSON.stringify({ success: true, results, errors: [] }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  async function queueKeyResult(t: ReturnType<typeof initConvexTest>) {
+    const queueId = await t.mutation(internal.sync.queue.addToSyncQueue, {
+      entityType: "keyResult",
+      externalId: keyResultId,
+      payload: JSON.stringify({
+        externalId: keyResultId,
+        objectiveExternalId: externalId,
+      }),
+    });
+    if (!queueId) throw new Error("Item was not queued");
+    return queueId;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("a child queued before its parent is sent after it", async () => {
+    const t = initConvexTest();
+    const fetchMock = stubLinkHub();
+    await queueKeyResult(t);
+    await queueObjective(t);
+
+    const result = await t.action(api.sync.processor.processSyncQueue, linkHub);
+
+    expect(result).toMatchObject({ processed: 2, succeeded: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[0];
+    expect(Object.keys(JSON.parse(init.body as string))).toEqual([
+      "objectives",
+      "keyResults",
+    ]);
+  });
+
+  test("a child is held while its parent waits for a retry", async () => {
+    const t = initConvexTest();
+    const fetchMock = stubLinkHub();
+    const parentId = await queueObjective(t);
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id: parentId,
+      status: "failed",
+      errorMessage: "HTTP 503",
+      httpStatus: 503,
+      syncError: { message: "HTTP 503", retryable: true },
+    });
+    const childId = await queueKeyResult(t);
+
+    await t.action(api.sync.processor.processSyncQueue, linkHub);
+
+    const { parent, child } = await t.run(async (ctx) => ({
+      parent: await ctx.db.get(parentId),
+      child: await ctx.db.get(childId),
+    }));
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(child).toMatchObject({
+      status: "pending",
+      attempts: 0,
+      blockedBy: externalId,
+    });
+    expect(child?.nextAttemptAt).toBeGreaterThan(parent?.nextAttemptAt ?? 0);
+  });
+
+  test("a child of a parent LinkHub rejected is not sent", async () => {
+    const t = initConvexTest();
+    const fetchMock = stubLinkHub();
+    const parentId = await queueObjective(t);
+    await t.mutation(internal.sync.queue.updateSyncQueueItem, {
+      id: parentId,
+      status: "failed",
+      errorMessage: "Invalid title",
+      httpStatus: 422,
+      syncError: { message: "Invalid title", retryable: false },
+    });
+    const childId = await queueKeyResult(t);
+
+    await t.action(api.sync.processor.processSyncQueue, linkHub);
+
+    const { child, deadLetters } = await t.run(async (ctx) => ({
+      child: await ctx.db.get(childId),
+      deadLetters: await ctx.db.query("deadLetters").collect(),
+    }));
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(child).toBeNull();
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0].externalId).toBe(keyResultId);
+    expect(deadLetters[0].errors).toEqual([
+      expect.objectContaining({
+        message: `Parent ${externalId} was rejected by LinkHub`,
+      }),
+    ]);
+  });
+});
@@ -6,27 +6,164 @@
 
 import { v } from "convex/values";
 import { api, internal } from "../_generated/api.js";
-import { internalMutation, internalQuery, query } from "../_generated/server.js";
+import {
+  internalMutation,
+  internalQuery,
+  query,
+  type MutationCtx,
+} from "../_generated/server.js";
+import type { Doc, Id } from "../_generated/dataModel.js";
+import {
+  computeRetryDelayMs,
+  resolveRetryPolicy,
+  type RetryPolicy,
+} from "../lib/retry.js";
+import {
+  bumpEntityRevision,
+  setEntityRemoteRevision,
+  setEntitySyncStatus,
+} from "../lib/entityTables.js";
+import { getParentExternalIds } from "../lib/hierarchy.js";
+import { coalesceQueuedWrites } from "../lib/patches.js";
+import { hasLinkHubMapping, upsertLinkHubMapping } from "./mappings.js";
+import { moveToConflicts } from "./conflicts.js";
+import {
+  SyncOperationSchema,
+  syncConflictDetailsValidator,
+  syncErrorEntryValidator,
+  syncErrorValidator,
+  type SyncConflictDetails,
+  type SyncError,
+  type SyncErrorEntry,
+} from "../schema.js";
 
 /**
- * Adds an item to the sync queue for async processing
+ * Bumps the entity's local revision and stamps the payload with the
+ * remote revision it is based on, so LinkHub can reject stale writes.
+ * Payloads of entities LinkHub never acknowledged are left unchanged.
+ */
+async function stampBaseRevision(
+  ctx: MutationCtx,
+  entityType: string,
+  externalId: string,
+  payload: string
+): Promise<string> {
+  const revisions = await bumpEntityRevision(ctx.db, entityType, externalId);
+  if (revisions?.baseRevision === undefined) {
+    return payload;
+  }
+  const parsed = JSON.parse(payload) as Record<string, unknown>;
+  return JSON.stringify({ ...parsed, baseRevision: revisions.baseRevision });
+}
+
+/**
+ * Whether LinkHub may already have the entity: it has a LinkHub ID
+ * mapping, or a write for it was sent or is being sent. A claimed item
+ * can reach LinkHub before its response lands, so `processing` counts too.
+ */
+async function mayExistInLinkHub(
+  ctx: MutationCtx,
+  entityType: string,
+  externalId: string
+): Promise<boolean> {
+  if (await hasLinkHubMapping(ctx.db, externalId)) {
+    return true;
+  }
+  const sent = await ctx.db
+    .query("syncQueue")
+    .withIndex("by_external_id", (q) => q.eq("externalId", externalId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("entityType"), entityType),
+        q.or(
+          q.eq(q.field("status"), "processing"),
+          q.eq(q.field("status"), "success")
+        )
+      )
+    )
+    .first();
+  return sent !== null;
+}
+
+/**
+ * Adds an item to the sync queue for async processing.
+ *
+ * If the entity already has a pending item, the new write is folded into
+ * it instead of queueing another send (see `coalesceQueuedWrites`): a
+ * delete after an edit only sends the delete, patches are merged, and an
+ * edit after a restore keeps the restore, and an edit after a delete is
+ * ignored: only a restore replaces a pending delete. A delete of an entity whose
+ * create is still pending, and that LinkHub cannot have yet (see
+ * `mayExistInLinkHub`), drops the pending item instead and returns null;
+ * the entity keeps its `pending` syncStatus, as nothing was synced. Items that are already
+ * being processed are left alone, so the new state gets its own item.
+ * Each call bumps the entity's local revision (see `stampBaseRevision`).
  */
 export const addToSyncQueue = internalMutation({
   args: {
     entityType: v.string(),
     externalId: v.string(),
     payload: v.string(),
+    operation: v.optional(SyncOperationSchema),
   },
   handler: async (ctx, args) => {
+    const payload = await stampBaseRevision(
+      ctx,
+      args.entityType,
+      args.externalId,
+      args.payload
+    );
+
+    const existing = await ctx.db
+      .query("syncQueue")
+      .withIndex("by_external_id", (q) => q.eq("externalId", args.externalId))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("entityType"), args.entityType),
+          q.eq(q.field("status"), "pending")
+        )
+      )
+      .first();
+
+    if (existing) {
+      const coalescedCount = (existing.coalescedCount ?? 0) + 1;
+      const coalesced = coalesceQueuedWrites(
+        existing,
+        { payload, operation: args.operation },
+        await mayExistInLinkHub(ctx, args.entityType, args.externalId)
+      );
+      if (coalesced === null) {
+        await ctx.db.delete(existing._id);
+        console.log(
+          `[okrhub] enqueue dropped unsent create entityType=${args.entityType} externalId=${args.externalId}`
+        );
+        return null;
+      }
+      await ctx.db.patch(existing._id, {
+        payload: coalesced.payload,
+        operation: coalesced.operation,
+        coalescedCount,
+      });
+      console.log(
+        `[okrhub] enqueue coalesced entityType=${args.entityType} externalId=${args.externalId} coalescedCount=${coalescedCount}`
+      );
+      return existing._id;
+    }
+
+    // Items waiting for a retry already have a delayed processor run,
+    // so only due items mean a processor is already draining the queue.
     const hadPendingBeforeInsert = await ctx.db
       .query("syncQueue")
-      .withIndex("by_status", (q) => q.eq("status", "pending"))
+      .withIndex("by_status_next_attempt", (q) =>
+        q.eq("status", "pending").lte("nextAttemptAt", Date.now())
+      )
       .take(1);
 
     const queueId = await ctx.db.insert("syncQueue", {
       entityType: args.entityType,
       externalId: args.externalId,
-      payload: args.payload,
+      payload,
+      operation: args.operation,
       status: "pending",
       attempts: 0,
       createdAt: Date.now(),
@@ -46,6 +183,227 @@ export const addToSyncQueue = internalMutation({
   },
 });
 
+/**
+ * How long a processor run may hold a claimed item before the sweeper
+ * returns it to `pending`. Longer than the 10 minute action timeout so a
+ * slow but healthy run never loses its items.
+ */
+export const SYNC_LEASE_DURATION_MS = 15 * 60 * 1000;
+
+/**
+ * How long a child waits before its parent's queue item is checked again
+ * when the parent is about to be sent.
+ */
+const PARENT_HOLD_DELAY_MS = 5000;
+
+type SyncQueueItemUpdate = {
+  id: Id<"syncQueue">;
+  status: Doc<"syncQueue">["status"];
+  errorMessage?: string;
+  httpStatus?: number;
+  linkHubId?: string;
+  action?: "create" | "update";
+  revision?: number;
+  conflict?: SyncConflictDetails;
+  syncError?: SyncError;
+  nextAttemptAt?: number;
+};
+
+/**
+ * Applies a status update to a single queue item.
+ *
+ * `attempts` counts finished sends (success or failure). A failed item goes
+ * back to `pending` with a `nextAttemptAt` backoff until the retry policy
+ * runs out of attempts; then it is moved to the dead-letter table.
+ * A failure that carries a conflict is not retried: the item moves to the
+ * conflicts table until it is resolved. Neither is a failure whose
+ * `syncError` is not retryable (LinkHub rejected the payload): the item
+ * stays `failed` with the error in `lastError`.
+ *
+ * Moving to `processing` is a claim: it only succeeds for items that are
+ * still `pending`, and sets a lease that the sweeper reclaims if the
+ * processor run dies before reporting back. Moving back to `pending`
+ * releases a claim without counting an attempt, e.g. when the circuit
+ * breaker refused the send; `nextAttemptAt` then says when to try again.
+ * Returns whether the update was applied.
+ */
+async function applySyncQueueItemUpdate(
+  ctx: MutationCtx,
+  update: SyncQueueItemUpdate,
+  retryPolicy: RetryPolicy
+): Promise<boolean> {
+  const item = await ctx.db.get(update.id);
+  if (!item) {
+    return false;
+  }
+
+  const now = Date.now();
+  const patch: Partial<Doc<"syncQueue">> = {
+    status: update.status,
+    lastAttemptAt: now,
+    leaseExpiresAt: undefined,
+    blockedBy: undefined,
+  };
+
+  if (update.status === "processing") {
+    if (item.status !== "pending") {
+      return false;
+    }
+    patch.leaseExpiresAt = now + SYNC_LEASE_DURATION_MS;
+  }
+
+  if (update.status === "pending" && update.nextAttemptAt !== undefined) {
+    patch.nextAttemptAt = update.nextAttemptAt;
+  }
+
+  if (update.errorMessage) {
+    patch.errorMessage = update.errorMessage;
+  }
+
+  if (update.status === "success" || update.status === "failed") {
+    const attempts = item.attempts + 1;
+    patch.attempts = attempts;
+    patch.nextAttemptAt = undefined;
+    patch.lastError = update.syncError;
+
+    if (update.status === "failed" && update.conflict) {
+      await moveToConflicts(ctx, item, update.conflict);
+      return true;
+    }
+
+    if (update.status === "failed") {
+      const errorHistory = [
+        ...(item.errorHistory ?? []),
+        {
+          message: update.errorMessage ?? "Unknown error",
+          attemptedAt: now,
+          httpStatus: update.httpStatus,
+        },
+      ];
+
+      if (update.syncError?.retryable === false) {
+        await ctx.db.patch(update.id, {
+          ...patch,
+          errorHistory,
+          lastHttpStatus: update.httpStatus,
+        });
+        await setEntitySyncStatus(
+          ctx.db,
+          item.entityType,
+          item.externalId,
+          "failed"
+        );
+        console.log(
+          `[okrhub] queue item failed permanently entityType=${item.entityType} externalId=${item.externalId} httpStatus=${update.httpStatus} code=${update.syncError.code}`
+        );
+        return true;
+      }
+
+      if (attempts >= retryPolicy.maxAttempts) {
+        await moveToDeadLetters(ctx, item, attempts, errorHistory);
+        return true;
+      }
+
+      patch.status = "pending";
+      patch.nextAttemptAt = now + computeRetryDelayMs(attempts, retryPolicy);
+      patch.errorHistory = errorHistory;
+      patch.lastHttpStatus = update.httpStatus;
+      console.log(
+        `[okrhub] queue retry scheduled entityType=${item.entityType} externalId=${item.externalId} attempts=${attempts} nextAttemptAt=${patch.nextAttemptAt}`
+      );
+    }
+  }
+
+  await ctx.db.patch(update.id, patch);
+
+  // If successful, update the local entity syncStatus and log the sync
+  if (update.status === "success") {
+    // A write LinkHub accepted supersedes earlier rejected ones, which
+    // would otherwise keep holding back the entity's children
+    const rejected = await ctx.db
+      .query("syncQueue")
+      .withIndex("by_external_id", (q) => q.eq("externalId", item.externalId))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("entityType"), item.entityType),
+          q.eq(q.field("status"), "failed")
+        )
+      )
+      .collect();
+    for (const rejectedItem of rejected) {
+      await ctx.db.delete(rejectedItem._id);
+    }
+
+    await setEntitySyncStatus(
+      ctx.db,
+      item.entityType,
+      item.externalId,
+      "synced"
+    );
+    if (update.revision !== undefined) {
+      await setEntityRemoteRevision(
+        ctx.db,
+        item.entityType,
+        item.externalId,
+        update.revision
+      );
+    }
+
+    // Keep the LinkHub ID mapping current. LinkHub reports whether it
+    // created or updated the entity; older responses without `action`
+    // fall back to whether a mapping already existed.
+    const hadMapping = await upsertLinkHubMapping(
+      ctx,
+      item.entityType,
+      item.externalId,
+      update.linkHubId
+    );
+
+    // Log the sync
+    await ctx.db.insert("syncLog", {
+      entityType: item.entityType,
+      externalId: item.externalId,
+      linkHubId: update.linkHubId,
+      syncedAt: Date.now(),
+      action:
+        item.operation === "delete" || item.operation === "restore"
+          ? item.operation
+          : (update.action ?? (hadMapping ? "update" : "create")),
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Moves an item that used up its retries out of the live queue.
+ * The local entity is marked as failed until the dead letter is replayed.
+ */
+async function moveToDeadLetters(
+  ctx: MutationCtx,
+  item: Doc<"syncQueue">,
+  attempts: number,
+  errors: SyncErrorEntry[]
+) {
+  await ctx.db.insert("deadLetters", {
+    entityType: item.entityType,
+    externalId: item.externalId,
+    payload: item.payload,
+    operation: item.operation,
+    attempts,
+    errors,
+    lastHttpStatus: errors[errors.length - 1]?.httpStatus,
+    queuedAt: item.createdAt,
+    deadLetteredAt: Date.now(),
+  });
+  await ctx.db.delete(item._id);
+  await setEntitySyncStatus(ctx.db, item.entityType, item.externalId, "failed");
+
+  console.log(
+    `[okrhub] queue item dead-lettered entityType=${item.entityType} externalId=${item.externalId} attempts=${attempts}`
+  );
+}
+
 /**
  * Updates sync queue item status and the local entity syncStatus
  */
@@ -59,138 +417,24 @@ export const updateSyncQueueItem = internalMutation({
       v.literal("failed")
     ),
     errorMessage: v.optional(v.string()),
+    httpStatus: v.optional(v.number()),
     linkHubId: v.optional(v.string()),
+    action: v.optional(v.union(v.literal("create"), v.literal("update"))),
+    revision: v.optional(v.number()),
+    conflict: v.optional(syncConflictDetailsValidator),
+    syncError: v.optional(syncErrorValidator),
+    nextAttemptAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const updates: Record<string, unknown> = {
-      status: args.status,
-      lastAttemptAt: Date.now(),
-    };
-
-    if (args.errorMessage) {
-      updates.errorMessage = args.errorMessage;
-    }
-
-    const item = await ctx.db.get(args.id);
-    if (item) {
-      updates.attempts = item.attempts + 1;
-    }
-
-    await ctx.db.patch(args.id, updates);
-
-    // If successful, update the local entity syncStatus and log the sync
-    if (args.status === "success" && item) {
-      // Update local entity syncStatus based on entityType
-      const newSyncStatus = "synced";
-
-      if (item.entityType === "objective") {
-        const entity = await ctx.db
-          .query("objectives")
-          .withIndex("by_external_id", (q) =>
-            q.eq("externalId", item.externalId)
-          )
-          .first();
-        if (entity) {
-          await ctx.db.patch(entity._id, {
-            syncStatus: newSyncStatus,
-            updatedAt: Date.now(),
-          });
-        }
-      } else if (item.entityType === "keyResult") {
-        const entity = await ctx.db
-          .query("keyResults")
-          .withIndex("by_external_id", (q) =>
-            q.eq("externalId", item.externalId)
-          )
-          .first();
-        if (entity) {
-          await ctx.db.patch(entity._id, {
-            syncStatus: newSyncStatus,
-            updatedAt: Date.now(),
-          });
-        }
-      } else if (item.entityType === "risk") {
-        const entity = await ctx.db
-          .query("risks")
-          .withIndex("by_external_id", (q) =>
-            q.eq("externalId", item.externalId)
-          )
-          .first();
-        if (entity) {
-          await ctx.db.patch(entity._id, { syncStatus: newSyncStatus });
-        }
-      } else if (item.entityType === "initiative") {
-        const entity = await ctx.db
-          .query("initiatives")
-          .withIndex("by_external_id", (q) =>
-            q.eq("externalId", item.externalId)
-          )
-          .first();
-        if (entity) {
-          await ctx.db.patch(entity._id, {
-            syncStatus: newSyncStatus,
-            updatedAt: Date.now(),
-          });
-        }
-      } else if (item.entityType === "indicator") {
-        const entity = await ctx.db
-          .query("indicators")
-          .withIndex("by_external_id", (q) =>
-            q.eq("externalId", item.externalId)
-          )
-          .first();
-        if (entity) {
-          await ctx.db.patch(entity._id, { syncStatus: newSyncStatus });
-        }
-      } else if (item.entityType === "indicatorValue") {
-        const entity = await ctx.db
-          .query("indicatorValues")
-          .withIndex("by_external_id", (q) =>
-            q.eq("externalId", item.externalId)
-          )
-          .first();
-        if (entity) {
-          await ctx.db.patch(entity._id, { syncStatus: newSyncStatus });
-        }
-      } else if (item.entityType === "indicatorForecast") {
-        const entity = await ctx.db
-          .query("indicatorForecasts")
-          .withIndex("by_external_id", (q) =>
-            q.eq("externalId", item.externalId)
-          )
-          .first();
-        if (entity) {
-          await ctx.db.patch(entity._id, { syncStatus: newSyncStatus });
-        }
-      } else if (item.entityType === "milestone") {
-        const entity = await ctx.db
-          .query("milestones")
-          .withIndex("by_external_id", (q) =>
-            q.eq("externalId", item.externalId)
-          )
-          .first();
-        if (entity) {
-          await ctx.db.patch(entity._id, {
-            syncStatus: newSyncStatus,
-            updatedAt: Date.now(),
-          });
-        }
-      }
-
-      // Log the sync
-      await ctx.db.insert("syncLog", {
-        entityType: item.entityType,
-        externalId: item.externalId,
-        linkHubId: args.linkHubId,
-        syncedAt: Date.now(),
-        action: "create", // TODO: Determine if create or update
-      });
-    }
+    const config = await ctx.runQuery(internal.config.getConfig, {});
+    await applySyncQueueItemUpdate(ctx, args, resolveRetryPolicy(config));
   },
 });
 
 /**
  * Update multiple sync queue items in a single mutation call.
+ * `claimed` lists the items this call moved to `processing`; items that
+ * another run already claimed are left out and must not be sent.
  */
 export const updateSyncQueueItemsBatch = internalMutation({
   args: {
@@ -204,144 +448,44 @@ export const updateSyncQueueItemsBatch = internalMutation({
           v.literal("failed")
         ),
         errorMessage: v.optional(v.string()),
+        httpStatus: v.optional(v.number()),
         linkHubId: v.optional(v.string()),
+        action: v.optional(
+          v.union(v.literal("create"), v.literal("update"))
+        ),
+        revision: v.optional(v.number()),
+        conflict: v.optional(syncConflictDetailsValidator),
+        syncError: v.optional(syncErrorValidator),
+        nextAttemptAt: v.optional(v.number()),
       })
     ),
   },
   returns: v.object({
     updated: v.number(),
+    claimed: v.array(v.id("syncQueue")),
   }),
   handler: async (ctx, args) => {
-    for (const update of args.updates) {
-      const patch: Record<string, unknown> = {
-        status: update.status,
-        lastAttemptAt: Date.now(),
-      };
-
-      if (update.errorMessage) {
-        patch.errorMessage = update.errorMessage;
-      }
-
-      const item = await ctx.db.get(update.id);
-      if (item) {
-        patch.attempts = item.attempts + 1;
-      }
-
-      await ctx.db.patch(update.id, patch);
+    const config = await ctx.runQuery(internal.config.getConfig, {});
+    const retryPolicy = resolveRetryPolicy(config);
 
-      if (update.status === "success" && item) {
-        const newSyncStatus = "synced";
-
-        if (item.entityType === "objective") {
-          const entity = await ctx.db
-            .query("objectives")
-            .withIndex("by_external_id", (q) =>
-              q.eq("externalId", item.externalId)
-            )
-            .first();
-          if (entity) {
-            await ctx.db.patch(entity._id, {
-              syncStatus: newSyncStatus,
-              updatedAt: Date.now(),
-            });
-          }
-        } else if (item.entityType === "keyResult") {
-          const entity = await ctx.db
-            .query("keyResults")
-            .withIndex("by_external_id", (q) =>
-              q.eq("externalId", item.externalId)
-            )
-            .first();
-          if (entity) {
-            await ctx.db.patch(entity._id, {
-              syncStatus: newSyncStatus,
-              updatedAt: Date.now(),
-            });
-          }
-        } else if (item.entityType === "risk") {
-          const entity = await ctx.db
-            .query("risks")
-            .withIndex("by_external_id", (q) =>
-              q.eq("externalId", item.externalId)
-            )
-            .first();
-          if (entity) {
-            await ctx.db.patch(entity._id, { syncStatus: newSyncStatus });
-          }
-        } else if (item.entityType === "initiative") {
-          const entity = await ctx.db
-            .query("initiatives")
-            .withIndex("by_external_id", (q) =>
-              q.eq("externalId", item.externalId)
-            )
-            .first();
-          if (entity) {
-            await ctx.db.patch(entity._id, {
-              syncStatus: newSyncStatus,
-              updatedAt: Date.now(),
-            });
-          }
-        } else if (item.entityType === "indicator") {
-          const entity = await ctx.db
-            .query("indicators")
-            .withIndex("by_external_id", (q) =>
-              q.eq("externalId", item.externalId)
-            )
-            .first();
-          if (entity) {
-            await ctx.db.patch(entity._id, { syncStatus: newSyncStatus });
-          }
-        } else if (item.entityType === "indicatorValue") {
-          const entity = await ctx.db
-            .query("indicatorValues")
-            .withIndex("by_external_id", (q) =>
-              q.eq("externalId", item.externalId)
-            )
-            .first();
-          if (entity) {
-            await ctx.db.patch(entity._id, { syncStatus: newSyncStatus });
-          }
-        } else if (item.entityType === "indicatorForecast") {
-          const entity = await ctx.db
-            .query("indicatorForecasts")
-            .withIndex("by_external_id", (q) =>
-              q.eq("externalId", item.externalId)
-            )
-            .first();
-          if (entity) {
-            await ctx.db.patch(entity._id, { syncStatus: newSyncStatus });
-          }
-        } else if (item.entityType === "milestone") {
-          const entity = await ctx.db
-            .query("milestones")
-            .withIndex("by_external_id", (q) =>
-              q.eq("externalId", item.externalId)
-            )
-            .first();
-          if (entity) {
-            await ctx.db.patch(entity._id, {
-              syncStatus: newSyncStatus,
-              updatedAt: Date.now(),
-            });
-          }
-        }
-
-        await ctx.db.insert("syncLog", {
-          entityType: item.entityType,
-          externalId: item.externalId,
-          linkHubId: update.linkHubId,
-          syncedAt: Date.now(),
-          action: "create",
-        });
+    let updated = 0;
+    const claimed: Id<"syncQueue">[] = [];
+    for (const update of args.updates) {
+      const applied = await applySyncQueueItemUpdate(ctx, update, retryPolicy);
+      if (!applied) continue;
+      updated++;
+      if (update.status === "processing") {
+        claimed.push(update.id);
       }
     }
 
     console.log(
-      `[okrhub] queue batch status updates applied=${args.updates.length}`
+      `[okrhub] queue batch status updates applied=${updated} skipped=${args.updates.length - updated}`
     );
 
     return {
-      updated: args.updates.length,
+      updated,
+      claimed,
     };
   },
 });
@@ -359,10 +503,16 @@ export const getPendingSyncItems = query({
       _creationTime: v.number(),
       entityType: v.string(),
       externalId: v.string(),
+      operation: v.optional(SyncOperationSchema),
       status: v.string(),
       attempts: v.number(),
       lastAttemptAt: v.optional(v.number()),
+      nextAttemptAt: v.optional(v.number()),
+      reclaimCount: v.optional(v.number()),
+      coalescedCount: v.optional(v.number()),
+      blockedBy: v.optional(v.string()),
       errorMessage: v.optional(v.string()),
+      lastError: v.optional(syncErrorValidator),
       createdAt: v.number(),
     })
   ),
@@ -377,10 +527,16 @@ export const getPendingSyncItems = query({
       _creationTime: item._creationTime,
       entityType: item.entityType,
       externalId: item.externalId,
+      operation: item.operation,
       status: item.status,
       attempts: item.attempts,
       lastAttemptAt: item.lastAttemptAt,
+      nextAttemptAt: item.nextAttemptAt,
+      reclaimCount: item.reclaimCount,
+      coalescedCount: item.coalescedCount,
+      blockedBy: item.blockedBy,
       errorMessage: item.errorMessage,
+      lastError: item.lastError,
       createdAt: item.createdAt,
     }));
   },
@@ -388,10 +544,14 @@ export const getPendingSyncItems = query({
 
 /**
  * Gets full pending items for processing (includes payload).
+ * Only returns items that are due: fresh items and retries whose
+ * `nextAttemptAt` has passed. Items of paused entity types can be
+ * excluded.
  */
 export const getPendingSyncItemsForProcessing = internalQuery({
   args: {
     limit: v.optional(v.number()),
+    excludeEntityTypes: v.optional(v.array(v.string())),
   },
   returns: v.array(
     v.object({
@@ -400,17 +560,262 @@ export const getPendingSyncItemsForProcessing = internalQuery({
       entityType: v.string(),
       externalId: v.string(),
       payload: v.string(),
+      operation: v.optional(SyncOperationSchema),
       status: v.string(),
       attempts: v.number(),
       lastAttemptAt: v.optional(v.number()),
+      nextAttemptAt: v.optional(v.number()),
       errorMessage: v.optional(v.string()),
+      errorHistory: v.optional(v.array(syncErrorEntryValidator)),
+      lastHttpStatus: v.optional(v.number()),
+      leaseExpiresAt: v.optional(v.number()),
+      reclaimCount: v.optional(v.number()),
+      coalescedCount: v.optional(v.number()),
+      blockedBy: v.optional(v.string()),
       createdAt: v.number(),
     })
   ),
   handler: async (ctx, args) => {
-    return await ctx.db
+    const excluded = args.excludeEntityTypes ?? [];
+    const due = ctx.db
+      .query("syncQueue")
+      .withIndex("by_status_next_attempt", (q) =>
+        q.eq("status", "pending").lte("nextAttemptAt", Date.now())
+      );
+    const items =
+      excluded.length > 0
+        ? due.filter((q) =>
+            q.and(
+              ...excluded.map((entityType) =>
+                q.neq(q.field("entityType"), entityType)
+              )
+            )
+          )
+        : due;
+    return await items.take(args.limit ?? 50);
+  },
+});
+
+/**
+ * Gets the earliest retry time among pending items that are not due yet.
+ * Used by the processor to schedule a delayed run after a failure.
+ */
+export const getNextRetryAt = internalQuery({
+  args: {},
+  returns: v.union(v.number(), v.null()),
+  handler: async (ctx) => {
+    const next = await ctx.db
+      .query("syncQueue")
+      .withIndex("by_status_next_attempt", (q) =>
+        q.eq("status", "pending").gt("nextAttemptAt", Date.now())
+      )
+      .first();
+    return next?.nextAttemptAt ?? null;
+  },
+});
+
+/**
+ * Counts pending items, due or not, up to `limit`: those the processor
+ * may still send, and those of paused entity types. Used by drainNow to
+ * tell an empty queue from one that is waiting.
+ */
+export const countPendingSyncItems = internalQuery({
+  args: {
+    limit: v.optional(v.number()),
+    excludeEntityTypes: v.optional(v.array(v.string())),
+  },
+  returns: v.object({
+    waiting: v.number(),
+    paused: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const excluded = new Set(args.excludeEntityTypes ?? []);
+    const items = await ctx.db
       .query("syncQueue")
       .withIndex("by_status", (q) => q.eq("status", "pending"))
-      .take(args.limit ?? 50);
+      .take(args.limit ?? 1000);
+
+    const paused = items.filter((item) => excluded.has(item.entityType)).length;
+    return { waiting: items.length - paused, paused };
+  },
+});
+
+/**
+ * Returns items whose processor run died while holding them to `pending`.
+ *
+ * Runs from the component cron. An item is reclaimed when its lease has
+ * expired; rows claimed before leases existed are reclaimed once their last
+ * attempt is older than a lease. Reclaiming does not count as an attempt.
+ */
+export const sweepExpiredLeases = internalMutation({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    reclaimed: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    // Missing leases sort before any timestamp, so legacy rows are included
+    const expired = await ctx.db
+      .query("syncQueue")
+      .withIndex("by_status_lease", (q) =>
+        q.eq("status", "processing").lt("leaseExpiresAt", now)
+      )
+      .take(args.limit ?? 100);
+
+    let reclaimed = 0;
+    for (const item of expired) {
+      if (
+        item.leaseExpiresAt === undefined &&
+        (item.lastAttemptAt ?? item.createdAt) + SYNC_LEASE_DURATION_MS > now
+      ) {
+        continue;
+      }
+
+      const reclaimCount = (item.reclaimCount ?? 0) + 1;
+      await ctx.db.patch(item._id, {
+        status: "pending",
+        leaseExpiresAt: undefined,
+        nextAttemptAt: undefined,
+        reclaimCount,
+      });
+      reclaimed++;
+
+      console.log(
+        `[okrhub] queue lease expired entityType=${item.entityType} externalId=${item.externalId} reclaimCount=${reclaimCount}`
+      );
+    }
+
+    if (reclaimed > 0) {
+      const config = await ctx.runQuery(internal.config.getConfig, {});
+      if (config?.autoSyncEnabled) {
+        await ctx.scheduler.runAfter(0, api.sync.processor.processSyncQueue, {});
+      }
+    }
+
+    return { reclaimed };
+  },
+});
+
+/**
+ * Holds back items whose parent has not reached LinkHub yet.
+ *
+ * `ids` must be sorted parents-first (see `sortBySyncRank`). A parent that
+ * is pending in the same list does not block its children, since it is
+ * sent first; any other pending or processing queue item, or a dead
+ * letter, for the parent does. Held items stay `pending` with a later
+ * `nextAttemptAt` and no attempt counted.
+ *
+ * A parent LinkHub rejected permanently (`failed`) will not be sent until
+ * it is replayed, so its children are moved to the dead-letter queue
+ * instead of being held; replay them after the parent.
+ */
+export const deferBlockedSyncItems = internalMutation({
+  args: {
+    ids: v.array(v.id("syncQueue")),
+  },
+  returns: v.object({
+    held: v.array(v.id("syncQueue")),
+    deadLettered: v.array(v.id("syncQueue")),
+  }),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const config = await ctx.runQuery(internal.config.getConfig, {});
+    const retryPolicy = resolveRetryPolicy(config);
+
+    const inBatch = new Set<Id<"syncQueue">>(args.ids);
+    const heldExternalIds = new Set<string>();
+    const held: Id<"syncQueue">[] = [];
+    const deadLettered: Id<"syncQueue">[] = [];
+
+    for (const id of args.ids) {
+      const item = await ctx.db.get(id);
+      if (!item || item.status !== "pending") continue;
+      // A delete does not need its parent to exist in LinkHub
+      if (item.operation === "delete") continue;
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(item.payload);
+      } catch {
+        // Invalid payloads are reported by the processor
+        continue;
+      }
+
+      let blockedBy: string | undefined;
+      let parentRejected = false;
+      let retryAt = now + PARENT_HOLD_DELAY_MS;
+
+      for (const parentExternalId of getParentExternalIds(payload)) {
+        if (heldExternalIds.has(parentExternalId)) {
+          blockedBy = parentExternalId;
+          break;
+        }
+
+        const parentItems = await ctx.db
+          .query("syncQueue")
+          .withIndex("by_external_id", (q) =>
+            q.eq("externalId", parentExternalId)
+          )
+          .filter((q) => q.neq(q.field("status"), "success"))
+          .collect();
+        const parentItem = parentItems.find(
+          (parent) => !inBatch.has(parent._id)
+        );
+
+        if (parentItem) {
+          blockedBy = parentExternalId;
+          if (parentItem.status === "failed") {
+            parentRejected = true;
+          } else if (
+            parentItem.nextAttemptAt !== undefined &&
+            parentItem.nextAttemptAt > now
+          ) {
+            retryAt = parentItem.nextAttemptAt + PARENT_HOLD_DELAY_MS;
+          }
+          break;
+        }
+
+        const parentDeadLetter = await ctx.db
+          .query("deadLetters")
+          .withIndex("by_external_id", (q) =>
+            q.eq("externalId", parentExternalId)
+          )
+          .first();
+        if (parentDeadLetter) {
+          blockedBy = parentExternalId;
+          retryAt = now + retryPolicy.maxDelayMs;
+          break;
+        }
+      }
+
+      if (blockedBy === undefined) continue;
+
+      heldExternalIds.add(item.externalId);
+      if (parentRejected) {
+        await moveToDeadLetters(ctx, item, item.attempts, [
+          ...(item.errorHistory ?? []),
+          {
+            message: `Parent ${blockedBy} was rejected by LinkHub`,
+            attemptedAt: now,
+          },
+        ]);
+        deadLettered.push(item._id);
+        continue;
+      }
+
+      await ctx.db.patch(item._id, {
+        nextAttemptAt: retryAt,
+        blockedBy,
+      });
+      held.push(item._id);
+
+      console.log(
+        `[okrhub] queue item held entityType=${item.entityType} externalId=${item.externalId} blockedBy=${blockedBy} nextAttemptAt=${retryAt}`
+      );
+    }
+
+    return { held, deadLettered };
   },
 });
@@ -0,0 +1,430 @@
+/**
+ * Reconciliation for OKRHub Component
+ *
+ * Pulls LinkHub's current view of this sourceApp's entities with a signed
+ * GET and diffs it against the local tables. The report lists entities
+ * missing remotely, missing locally and with diverging fields, so drift
+ * that the push-based sync cannot see becomes visible. Local winners can
+ * optionally be queued again.
+ */
+
+import { v } from "convex/values";
+import {
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
+import { internal } from "../_generated/api.js";
+import {
+  action,
+  internalMutation,
+  internalQuery,
+} from "../_generated/server.js";
+import { buildEntitySnapshot } from "../entities/lifecycle.js";
+import {
+  ENTITY_TABLE_BY_TYPE,
+  findEntityByExternalId,
+  getEntityTable,
+  setEntitySyncStatus,
+  type LocalEntityType,
+} from "../lib/entityTables.js";
+import { createHmacSignature } from "../lib/hmac.js";
+import { getLinkHubManagedFields } from "../lib/payloadPolicy.js";
+import { OKRHUB_VERSION } from "../externalId.js";
+
+// Snapshot fields that never count as divergence
+const IGNORED_FIELDS = new Set(["externalId", "updatedAt"]);
+
+// Local entities read per query while collecting snapshots
+const LOCAL_SNAPSHOT_PAGE_SIZE = 200;
+
+const localSnapshotValidator = v.object({
+  externalId: v.string(),
+  snapshot: v.any(),
+  deleted: v.boolean(),
+  pending: v.boolean(),
+});
+
+type LocalSnapshot = typeof localSnapshotValidator.type;
+
+const reconcileEntryValidator = v.object({
+  entityType: v.string(),
+  externalId: v.string(),
+});
+
+const reconcileReportValidator = v.object({
+  success: v.boolean(),
+  checkedAt: v.number(),
+  entityTypes: v.array(v.string()),
+  missingRemotely: v.array(reconcileEntryValidator),
+  missingLocally: v.array(
+    v.object({
+      entityType: v.string(),
+      externalId: v.string(),
+      deletedLocally: v.boolean(),
+    })
+  ),
+  divergent: v.array(
+    v.object({
+      entityType: v.string(),
+      externalId: v.string(),
+      fields: v.array(v.string()),
+    })
+  ),
+  requeued: v.number(),
+  errors: v.array(v.string()),
+});
+
+type ReconcileReport = typeof reconcileReportValidator.type;
+
+/**
+ * Compares two field values, treating null and undefined as equal
+ */
+function sameValue(local: unknown, remote: unknown): boolean {
+  if (local === undefined || local === null) {
+    return remote === undefined || remote === null;
+  }
+  return JSON.stringify(local) === JSON.stringify(remote);
+}
+
+/**
+ * Returns the snapshot fields whose value differs on LinkHub.
+ * LinkHub-managed fields are skipped: LinkHub is their source of truth.
+ */
+function findDivergentFields(
+  entityType: string,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>
+): string[] {
+  const managed = getLinkHubManagedFields(entityType);
+  return Object.keys(local).filter(
+    (field) =>
+      !IGNORED_FIELDS.has(field) &&
+      !managed.includes(field) &&
+      !sameValue(local[field], remote[field])
+  );
+}
+
+/**
+ * Fetches LinkHub's view of one entity type for a sourceApp
+ */
+async function fetchRemoteEntities(
+  config: { endpointUrl: string; apiKeyPrefix: string; signingSecret: string },
+  sourceApp: string,
+  entityType: string
+): Promise<Array<Record<string, unknown>>> {
+  // Signature payload is the query string without the leading ?
+  const queryString =
+    `sourceApp=${encodeURIComponent(sourceApp)}` +
+    `&entityType=${encodeURIComponent(entityType)}`;
+  const signature = await createHmacSignature(
+    queryString,
+    config.signingSecret
+  );
+
+  const response = await fetch(
+    `${config.endpointUrl}/api/okrhub/entities?${queryString}`,
+    {
+      method: "GET",
+      headers: {
+        "X-OKRHub-Version": OKRHUB_VERSION,
+        "X-OKRHub-Key-Prefix": config.apiKeyPrefix,
+        "X-OKRHub-Signature": signature,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${response.status} ${errorText}`);
+  }
+
+  const body = (await response.json()) as {
+    success: boolean;
+    entities?: Array<Record<string, unknown>>;
+    message?: string;
+  };
+  if (!body.success || !Array.isArray(body.entities)) {
+    throw new Error(body.message ?? "Invalid response");
+  }
+  return body.entities;
+}
+
+/**
+ * Diffs LinkHub's entities of one type against the local snapshots
+ */
+function diffEntityType(
+  entityType: string,
+  localSnapshots: LocalSnapshot[],
+  remoteEntities: Array<Record<string, unknown>>,
+  report: ReconcileReport
+): void {
+  const remoteById = new Map<string, Record<string, unknown>>();
+  for (const remote of remoteEntities) {
+    if (typeof remote.externalId === "string") {
+      remoteById.set(remote.externalId, remote);
+    }
+  }
+  const localById = new Map(
+    localSnapshots.map((local) => [local.externalId, local])
+  );
+
+  for (const local of localSnapshots) {
+    // Changes still in the queue are expected to differ
+    if (local.pending) continue;
+
+    const remote = remoteById.get(local.externalId);
+    if (local.deleted) {
+      if (remote) {
+        report.missingLocally.push({
+          entityType,
+          externalId: local.externalId,
+          deletedLocally: true,
+        });
+      }
+      continue;
+    }
+
+    if (!remote) {
+      report.missingRemotely.push({ entityType, externalId: local.externalId });
+      continue;
+    }
+
+    const fields = findDivergentFields(entityType, local.snapshot, remote);
+    if (fields.length > 0) {
+      report.divergent.push({
+        entityType,
+        externalId: local.externalId,
+        fields,
+      });
+    }
+  }
+
+  for (const externalId of remoteById.keys()) {
+    if (!localById.has(externalId)) {
+      report.missingLocally.push({
+        entityType,
+        externalId,
+        deletedLocally: false,
+      });
+    }
+  }
+}
+
+// ============================================================================
+// RECONCILE ACTION
+// ============================================================================
+
+/**
+ * Compares LinkHub's entities with the local tables.
+ *
+ * Config resolution follows processSyncQueue: explicit args first, then
+ * the stored config. `entityTypes` defaults to every local entity type.
+ * With `requeueLocalWinners`, entities missing remotely or divergent are
+ * queued again with their local snapshot, and entities deleted locally
+ * but still on LinkHub get their tombstone queued again. Entities that
+ * only exist on LinkHub are reported, never created locally.
+ */
+export const reconcile = action({
+  args: {
+    endpointUrl: v.optional(v.string()),
+    apiKeyPrefix: v.optional(v.string()),
+    signingSecret: v.optional(v.string()),
+    sourceApp: v.optional(v.string()),
+    entityTypes: v.optional(v.array(v.string())),
+    requeueLocalWinners: v.optional(v.boolean()),
+  },
+  returns: reconcileReportValidator,
+  handler: async (ctx, args): Promise<ReconcileReport> => {
+    const storedConfig = await ctx.runQuery(internal.config.getConfig, {});
+
+    let config: {
+      endpointUrl: string;
+      apiKeyPrefix: string;
+      signingSecret: string;
+    };
+    if (args.endpointUrl && args.apiKeyPrefix && args.signingSecret) {
+      config = {
+        endpointUrl: args.endpointUrl,
+        apiKeyPrefix: args.apiKeyPrefix,
+        signingSecret: args.signingSecret,
+      };
+    } else if (storedConfig) {
+      config = storedConfig;
+    } else {
+      throw new Error(
+        "OKRHub not configured. Either pass endpointUrl/apiKeyPrefix/signingSecret " +
+          "as arguments, or call configure() first to store the config."
+      );
+    }
+
+    const sourceApp = args.sourceApp ?? storedConfig?.sourceApp;
+    if (!sourceApp) {
+      throw new Error(
+        "sourceApp is required: pass it as an argument or set it via configure()"
+      );
+    }
+
+    const entityTypes =
+      args.entityTypes ?? Object.keys(ENTITY_TABLE_BY_TYPE);
+    const report: ReconcileReport = {
+      success: true,
+      checkedAt: Date.now(),
+      entityTypes,
+      missingRemotely: [],
+      missingLocally: [],
+      divergent: [],
+      requeued: 0,
+      errors: [],
+    };
+
+    for (const entityType of entityTypes) {
+      if (!getEntityTable(entityType)) {
+        report.errors.push(`${entityType}: no local table`);
+        continue;
+      }
+
+      let remoteEntities: Array<Record<string, unknown>>;
+      try {
+        remoteEntities = await fetchRemoteEntities(
+          config,
+          sourceApp,
+          entityType
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        report.errors.push(`${entityType}: ${message}`);
+        continue;
+      }
+
+      // Read the local table a page at a time, like the paginated lists
+      const localSnapshots: LocalSnapshot[] = [];
+      let cursor: string | null = null;
+      let isDone = false;
+      while (!isDone) {
+        const page: {
+          page: LocalSnapshot[];
+          isDone: boolean;
+          continueCursor: string;
+        } = await ctx.runQuery(internal.sync.reconcile.getLocalSnapshots, {
+          entityType,
+          paginationOpts: { numItems: LOCAL_SNAPSHOT_PAGE_SIZE, cursor },
+        });
+        localSnapshots.push(...page.page);
+        isDone = page.isDone;
+        cursor = page.continueCursor;
+      }
+      diffEntityType(entityType, localSnapshots, remoteEntities, report);
+    }
+
+    if (args.requeueLocalWinners) {
+      const items = [
+        ...report.missingRemotely,
+        ...report.divergent,
+        ...report.missingLocally.filter((entry) => entry.deletedLocally),
+      ].map(({ entityType, externalId }) => ({ entityType, externalId }));
+
+      if (items.length > 0) {
+        const { requeued } = await ctx.runMutation(
+          internal.sync.reconcile.requeueEntities,
+          { items }
+        );
+        report.requeued = requeued;
+      }
+    }
+
+    report.success = report.errors.length === 0;
+
+    console.log(
+      `[okrhub] reconcile missingRemotely=${report.missingRemotely.length} ` +
+        `missingLocally=${report.missingLocally.length} ` +
+        `divergent=${report.divergent.length} requeued=${report.requeued} ` +
+        `errors=${report.errors.length}`
+    );
+
+    return report;
+  },
+});
+
+// ============================================================================
+// INTERNAL HELPERS
+// ============================================================================
+
+/**
+ * Pages through the sync snapshots of the local entities of a type,
+ * including deleted ones
+ */
+export const getLocalSnapshots = internalQuery({
+  args: {
+    entityType: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(localSnapshotValidator),
+  handler: async (ctx, args) => {
+    const table = getEntityTable(args.entityType);
+    if (!table) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+    const entityType = args.entityType as LocalEntityType;
+    const result = await ctx.db
+      .query(table as "objectives")
+      .paginate(args.paginationOpts);
+    const now = Date.now();
+
+    return {
+      ...result,
+      page: result.page.map((entity) => ({
+        externalId: entity.externalId,
+        snapshot: buildEntitySnapshot(entityType, entity, now),
+        deleted: entity.deletedAt !== undefined,
+        pending: entity.syncStatus === "pending",
+      })),
+    };
+  },
+});
+
+/**
+ * Queues local entities again: a tombstone for deleted ones, the full
+ * snapshot otherwise. Returns the number of items queued.
+ */
+export const requeueEntities = internalMutation({
+  args: {
+    items: v.array(reconcileEntryValidator),
+  },
+  returns: v.object({
+    requeued: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    let requeued = 0;
+    const now = Date.now();
+
+    for (const { entityType, externalId } of args.items) {
+      const entity = await findEntityByExternalId(
+        ctx.db,
+        entityType,
+        externalId
+      );
+      if (!entity) continue;
+
+      const deletedAt = entity.deletedAt;
+      await ctx.runMutation(internal.sync.queue.addToSyncQueue, {
+        entityType,
+        externalId,
+        ...(deletedAt !== undefined
+          ? {
+              payload: JSON.stringify({ externalId, deletedAt }),
+              operation: "delete" as const,
+            }
+          : {
+              payload: JSON.stringify(
+                buildEntitySnapshot(entityType as LocalEntityType, entity, now)
+              ),
+              operation: "upsert" as const,
+            }),
+      });
+      await setEntitySyncStatus(ctx.db, entityType, externalId, "pending");
+      requeued++;
+    }
+
+    return { requeued };
+  },
+});